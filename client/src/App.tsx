@@ -3,15 +3,29 @@ import { queryClient } from "./lib/queryClient";
 import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
+import { AuthProvider } from "@/hooks/use-auth";
+import { ProtectedRoute } from "@/lib/protected-route";
 import StorageTracker from "@/pages/storage-tracker";
 import Floorplan from "@/pages/floorplan";
+import Loans from "@/pages/loans";
+import AuditLog from "@/pages/audit-log";
+import Trash from "@/pages/trash";
+import Reorder from "@/pages/reorder";
+import Webhooks from "@/pages/webhooks";
+import AuthPage from "@/pages/auth-page";
 import NotFound from "@/pages/not-found";
 
 function Router() {
   return (
     <Switch>
-      <Route path="/" component={StorageTracker} />
-      <Route path="/floorplan" component={Floorplan} />
+      <ProtectedRoute path="/" component={StorageTracker} />
+      <ProtectedRoute path="/floorplan" component={Floorplan} />
+      <ProtectedRoute path="/loans" component={Loans} />
+      <ProtectedRoute path="/audit" component={AuditLog} />
+      <ProtectedRoute path="/trash" component={Trash} />
+      <ProtectedRoute path="/reorder" component={Reorder} />
+      <ProtectedRoute path="/webhooks" component={Webhooks} />
+      <Route path="/auth" component={AuthPage} />
       <Route component={NotFound} />
     </Switch>
   );
@@ -20,10 +34,12 @@ function Router() {
 function App() {
   return (
     <QueryClientProvider client={queryClient}>
-      <TooltipProvider>
-        <Toaster />
-        <Router />
-      </TooltipProvider>
+      <AuthProvider>
+        <TooltipProvider>
+          <Toaster />
+          <Router />
+        </TooltipProvider>
+      </AuthProvider>
     </QueryClientProvider>
   );
 }
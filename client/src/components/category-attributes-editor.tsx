@@ -0,0 +1,138 @@
+import { Controller, useFieldArray, useWatch, type Control, type UseFormRegister } from "react-hook-form";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Label } from "@/components/ui/label";
+import { Plus, X } from "lucide-react";
+import { attributeTypes, type CategoryAttribute } from "@shared/schema";
+
+// How an attribute is edited; enum options are typed as one comma separated line
+export interface AttributeFormValue {
+  key: string;
+  label: string;
+  type: CategoryAttribute["type"];
+  unit?: string;
+  options?: string;
+  required?: boolean;
+}
+
+const typeLabels: Record<CategoryAttribute["type"], string> = {
+  text: "Text",
+  number: "Number",
+  enum: "Choice",
+  boolean: "Yes/No",
+};
+
+export function toAttributeFormValues(attributes: CategoryAttribute[]): AttributeFormValue[] {
+  return attributes.map(attribute => ({
+    ...attribute,
+    unit: attribute.unit ?? "",
+    options: attribute.options?.join(", ") ?? "",
+  }));
+}
+
+// New attributes get a key from their label; existing keys never change so item values stay attached
+export function fromAttributeFormValues(values: AttributeFormValue[]): CategoryAttribute[] {
+  const keys = new Set(values.map(value => value.key).filter(Boolean));
+  return values.map(value => {
+    let key = value.key;
+    if (!key) {
+      const base = value.label.toLowerCase().replace(/[^a-z0-9]+/g, "_").replace(/^_+|_+$/g, "") || "attribute";
+      key = base;
+      for (let suffix = 2; keys.has(key); suffix++) key = `${base}_${suffix}`;
+      keys.add(key);
+    }
+    return {
+      key,
+      label: value.label.trim(),
+      type: value.type,
+      ...(value.type === "number" && value.unit?.trim() ? { unit: value.unit.trim() } : {}),
+      ...(value.type === "enum"
+        ? { options: (value.options || "").split(",").map(option => option.trim()).filter(Boolean) }
+        : {}),
+      ...(value.required ? { required: true } : {}),
+    };
+  });
+}
+
+interface CategoryAttributesEditorProps {
+  control: Control<any>;
+  register: UseFormRegister<any>;
+}
+
+export function CategoryAttributesEditor({ control, register }: CategoryAttributesEditorProps) {
+  const { fields, append, remove } = useFieldArray({ control, name: "attributes" });
+  const values: AttributeFormValue[] = useWatch({ control, name: "attributes" }) || [];
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label>Item Attributes</Label>
+        <Button
+          type="button"
+          size="sm"
+          variant="ghost"
+          onClick={() => append({ key: "", label: "", type: "text", unit: "", options: "", required: false })}
+        >
+          <Plus className="w-3 h-3 mr-1" />
+          Add
+        </Button>
+      </div>
+
+      {fields.length === 0 && (
+        <p className="text-xs text-gray-500">
+          e.g. resistance, tolerance and package for resistors
+        </p>
+      )}
+
+      {fields.map((field, index) => (
+        <div key={field.id} className="border rounded p-2 space-y-2">
+          <div className="flex gap-2">
+            <Input placeholder="Label" {...register(`attributes.${index}.label`)} className="flex-1" />
+            <Controller
+              control={control}
+              name={`attributes.${index}.type`}
+              render={({ field: typeField }) => (
+                <Select value={typeField.value} onValueChange={typeField.onChange}>
+                  <SelectTrigger className="w-28">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {attributeTypes.map(type => (
+                      <SelectItem key={type} value={type}>{typeLabels[type]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+            />
+            <Button type="button" size="sm" variant="ghost" onClick={() => remove(index)}>
+              <X className="w-3 h-3" />
+            </Button>
+          </div>
+          <div className="flex items-center gap-2">
+            {values[index]?.type === "number" && (
+              <Input placeholder="Unit, e.g. Ω" {...register(`attributes.${index}.unit`)} className="flex-1" />
+            )}
+            {values[index]?.type === "enum" && (
+              <Input placeholder="Options, comma separated" {...register(`attributes.${index}.options`)} className="flex-1" />
+            )}
+            <Controller
+              control={control}
+              name={`attributes.${index}.required`}
+              render={({ field: requiredField }) => (
+                <label className="flex items-center gap-1 text-sm text-slate-600 ml-auto">
+                  <Checkbox
+                    checked={!!requiredField.value}
+                    onCheckedChange={(checked) => requiredField.onChange(checked === true)}
+                  />
+                  Required
+                </label>
+              )}
+            />
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
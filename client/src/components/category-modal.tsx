@@ -29,19 +29,47 @@ import {
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Card, CardContent } from "@/components/ui/card";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest } from "@/lib/queryClient";
-import { Plus, Edit2, Trash2, HelpCircle } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest, apiErrorMessage } from "@/lib/queryClient";
+import { undoAction } from "@/lib/undo";
+import { Plus, Edit2, Trash2, HelpCircle, FolderPlus } from "lucide-react";
 import { Icon } from "@/components/icon";
-import type { Category } from "@shared/schema";
+import {
+  CategoryAttributesEditor,
+  toAttributeFormValues,
+  fromAttributeFormValues,
+} from "@/components/category-attributes-editor";
+import { attributeTypes, hasRole, type InsertCategory, type ResolvedCategory } from "@shared/schema";
 
 const formSchema = z.object({
   name: z.string().min(1, "Name is required"),
-  color: z.string().min(1, "Color is required"),
+  parentId: z.number().optional(),
+  // Left empty, a subcategory uses its parent's color and icon
+  color: z.string(),
   icon: z.string().optional(),
+  attributes: z.array(z.object({
+    key: z.string(),
+    label: z.string().trim().min(1, "Label is required"),
+    type: z.enum(attributeTypes),
+    unit: z.string().optional(),
+    options: z.string().optional(),
+    required: z.boolean().optional(),
+  })),
+}).refine(data => data.parentId || data.color, {
+  message: "Color is required",
+  path: ["color"],
 });
 
 type FormData = z.infer<typeof formSchema>;
 
+const emptyForm: FormData = {
+  name: "",
+  parentId: undefined,
+  color: "#3b82f6",
+  icon: "",
+  attributes: [],
+};
+
 interface CategoryModalProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
@@ -79,42 +107,54 @@ const iconOptions = [
 ];
 
 export function CategoryModal({ open, onOpenChange }: CategoryModalProps) {
-  const [editingCategory, setEditingCategory] = useState<Category | null>(null);
+  const [editingCategory, setEditingCategory] = useState<ResolvedCategory | null>(null);
   const [showHelp, setShowHelp] = useState(false);
   const { toast } = useToast();
+  const { user } = useAuth();
   const queryClient = useQueryClient();
 
-  const { data: categories = [] } = useQuery<Category[]>({
+  const { data: categories = [] } = useQuery<ResolvedCategory[]>({
     queryKey: ["/api/categories"],
   });
 
   const form = useForm<FormData>({
     resolver: zodResolver(formSchema),
-    defaultValues: {
-      name: "",
-      color: "#3b82f6",
-      icon: "",
-    },
+    defaultValues: emptyForm,
   });
 
+  const parent = categories.find(c => c.id === form.watch("parentId"));
+
+  // A category can't move under itself or one of its own subcategories
+  const isWithin = (category: ResolvedCategory, ancestorId: number) => {
+    let current: ResolvedCategory | undefined = category;
+    while (current) {
+      if (current.id === ancestorId) return true;
+      current = categories.find(c => c.id === current!.parentId);
+    }
+    return false;
+  };
+  const parentOptions = editingCategory
+    ? categories.filter(c => !isWithin(c, editingCategory.id))
+    : categories;
+
   const createMutation = useMutation({
-    mutationFn: async (data: FormData) => {
+    mutationFn: async (data: InsertCategory) => {
       const response = await apiRequest("POST", "/api/categories", data);
       return response.json();
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/categories"] });
-      toast({ title: "Category created successfully" });
-      form.reset();
+      toast({ title: "Category created successfully", action: undoAction() });
+      form.reset(emptyForm);
       setEditingCategory(null);
     },
-    onError: () => {
-      toast({ title: "Failed to create category", variant: "destructive" });
+    onError: (error) => {
+      toast({ title: "Failed to create category", description: apiErrorMessage(error), variant: "destructive" });
     },
   });
 
   const updateMutation = useMutation({
-    mutationFn: async (data: FormData) => {
+    mutationFn: async (data: InsertCategory) => {
       const response = await apiRequest(
         "PATCH",
         `/api/categories/${editingCategory!.id}`,
@@ -124,12 +164,14 @@ export function CategoryModal({ open, onOpenChange }: CategoryModalProps) {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/categories"] });
-      toast({ title: "Category updated successfully" });
-      form.reset();
+      // Subcategories and items show the new color and icon
+      queryClient.invalidateQueries({ queryKey: ["/api/containers"] });
+      toast({ title: "Category updated successfully", action: undoAction() });
+      form.reset(emptyForm);
       setEditingCategory(null);
     },
-    onError: () => {
-      toast({ title: "Failed to update category", variant: "destructive" });
+    onError: (error) => {
+      toast({ title: "Failed to update category", description: apiErrorMessage(error), variant: "destructive" });
     },
   });
 
@@ -139,7 +181,8 @@ export function CategoryModal({ open, onOpenChange }: CategoryModalProps) {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/categories"] });
-      toast({ title: "Category deleted successfully" });
+      queryClient.invalidateQueries({ queryKey: ["/api/containers"] });
+      toast({ title: "Category deleted successfully", action: undoAction() });
     },
     onError: () => {
       toast({ title: "Failed to delete category", variant: "destructive" });
@@ -147,36 +190,50 @@ export function CategoryModal({ open, onOpenChange }: CategoryModalProps) {
   });
 
   const onSubmit = (data: FormData) => {
+    const categoryData = {
+      ...data,
+      parentId: data.parentId ?? null,
+      color: data.color || null,
+      icon: data.icon || null,
+      attributes: fromAttributeFormValues(data.attributes),
+    };
     if (editingCategory) {
-      updateMutation.mutate(data);
+      updateMutation.mutate(categoryData);
     } else {
-      createMutation.mutate(data);
+      createMutation.mutate(categoryData);
     }
   };
 
-  const handleEdit = (category: Category) => {
+  const handleEdit = (category: ResolvedCategory) => {
     setEditingCategory(category);
     form.reset({
       name: category.name,
-      color: category.color,
-      icon: category.icon || "",
+      parentId: category.parentId ?? undefined,
+      color: category.inheritsColor ? "" : category.color,
+      icon: category.inheritsIcon ? "" : category.icon || "",
+      attributes: toAttributeFormValues(category.attributes),
     });
   };
 
+  const handleAddSubcategory = (category: ResolvedCategory) => {
+    setEditingCategory(null);
+    form.reset({ ...emptyForm, parentId: category.id, color: "" });
+  };
+
   const handleDelete = (id: number) => {
-    if (confirm("Are you sure you want to delete this category?")) {
+    if (confirm("Are you sure you want to delete this category? Its subcategories move up a level.")) {
       deleteMutation.mutate(id);
     }
   };
 
   const handleCancel = () => {
     setEditingCategory(null);
-    form.reset();
+    form.reset(emptyForm);
   };
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="max-w-2xl max-h-[90vh]">
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>Manage Categories</DialogTitle>
         </DialogHeader>
@@ -209,17 +266,46 @@ export function CategoryModal({ open, onOpenChange }: CategoryModalProps) {
                   )}
                 />
 
+                <FormField
+                  control={form.control}
+                  name="parentId"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Parent Category</FormLabel>
+                      <Select
+                        value={field.value?.toString() ?? "none"}
+                        onValueChange={(value) => field.onChange(value === "none" ? undefined : parseInt(value))}
+                      >
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="none">None (top level)</SelectItem>
+                          {parentOptions.map((category) => (
+                            <SelectItem key={category.id} value={category.id.toString()}>
+                              {category.path}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
                 <FormField
                   control={form.control}
                   name="color"
                   render={({ field }) => (
                     <FormItem>
                       <FormLabel>
-                        Color <span className="text-red-500">*</span>
+                        Color {!parent && <span className="text-red-500">*</span>}
                       </FormLabel>
                       <Select
-                        value={field.value}
-                        onValueChange={field.onChange}
+                        value={field.value || "inherit"}
+                        onValueChange={(value) => field.onChange(value === "inherit" ? "" : value)}
                       >
                         <FormControl>
                           <SelectTrigger>
@@ -227,18 +313,27 @@ export function CategoryModal({ open, onOpenChange }: CategoryModalProps) {
                               <div className="flex items-center gap-2">
                                 <div
                                   className="w-4 h-4 rounded"
-                                  style={{ backgroundColor: field.value }}
+                                  style={{ backgroundColor: field.value || parent?.color }}
                                 />
-                                {
-                                  colorOptions.find(
-                                    (c) => c.value === field.value,
-                                  )?.label
-                                }
+                                {field.value
+                                  ? colorOptions.find((c) => c.value === field.value)?.label
+                                  : parent ? `Same as ${parent.name}` : "Choose a color"}
                               </div>
                             </SelectValue>
                           </SelectTrigger>
                         </FormControl>
                         <SelectContent>
+                          {parent && (
+                            <SelectItem value="inherit">
+                              <div className="flex items-center gap-2">
+                                <div
+                                  className="w-4 h-4 rounded"
+                                  style={{ backgroundColor: parent.color }}
+                                />
+                                Same as {parent.name}
+                              </div>
+                            </SelectItem>
+                          )}
                           {colorOptions.map((color) => (
                             <SelectItem key={color.value} value={color.value}>
                               <div className="flex items-center gap-2">
@@ -289,12 +384,15 @@ export function CategoryModal({ open, onOpenChange }: CategoryModalProps) {
                       </div>
                       <div className="text-xs text-gray-500">
                         Enter any Font Awesome icon name (without "fa-" prefix)
+                        {parent && ", or leave empty to use the parent's icon"}
                       </div>
                       <FormMessage />
                     </FormItem>
                   )}
                 />
 
+                <CategoryAttributesEditor control={form.control} register={form.register} />
+
                 <div className="flex gap-3 pt-4">
                   {editingCategory && (
                     <Button
@@ -326,10 +424,10 @@ export function CategoryModal({ open, onOpenChange }: CategoryModalProps) {
             <ScrollArea className="h-96">
               <div className="space-y-2">
                 {categories.map((category) => (
-                  <Card key={category.id}>
+                  <Card key={category.id} style={{ marginLeft: category.depth * 20 }}>
                     <CardContent className="p-3">
                       <div className="flex items-center justify-between">
-                        <div className="flex items-center gap-3">
+                        <div className="flex items-center gap-3 min-w-0">
                           <div
                             className="w-6 h-6 rounded flex items-center justify-center"
                             style={{ backgroundColor: category.color }}
@@ -342,24 +440,34 @@ export function CategoryModal({ open, onOpenChange }: CategoryModalProps) {
                               />
                             )}
                           </div>
-                          <span className="font-medium">{category.name}</span>
+                          <span className="font-medium truncate">{category.name}</span>
                         </div>
                         <div className="flex gap-1">
                           <Button
                             size="sm"
                             variant="ghost"
-                            onClick={() => handleEdit(category)}
+                            onClick={() => handleAddSubcategory(category)}
+                            title="Add subcategory"
                           >
-                            <Edit2 className="w-3 h-3" />
+                            <FolderPlus className="w-3 h-3" />
                           </Button>
                           <Button
                             size="sm"
                             variant="ghost"
-                            onClick={() => handleDelete(category.id)}
-                            disabled={deleteMutation.isPending}
+                            onClick={() => handleEdit(category)}
                           >
-                            <Trash2 className="w-3 h-3" />
+                            <Edit2 className="w-3 h-3" />
                           </Button>
+                          {hasRole(user, "admin") && (
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              onClick={() => handleDelete(category.id)}
+                              disabled={deleteMutation.isPending}
+                            >
+                              <Trash2 className="w-3 h-3" />
+                            </Button>
+                          )}
                         </div>
                       </div>
                     </CardContent>
@@ -5,9 +5,11 @@ import { Button } from "@/components/ui/button";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Card, CardContent } from "@/components/ui/card";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest, apiErrorMessage } from "@/lib/queryClient";
+import { undoAction } from "@/lib/undo";
 import { Edit2, Trash2, Settings } from "lucide-react";
-import type { StorageContainer } from "@shared/schema";
+import { hasRole, type StorageContainer } from "@shared/schema";
 
 interface ContainerManagementModalProps {
   open: boolean;
@@ -21,6 +23,7 @@ export function ContainerManagementModal({
   onEditContainer 
 }: ContainerManagementModalProps) {
   const { toast } = useToast();
+  const { user } = useAuth();
   const queryClient = useQueryClient();
 
   const { data: containers = [] } = useQuery<StorageContainer[]>({
@@ -34,10 +37,10 @@ export function ContainerManagementModal({
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/containers"] });
-      toast({ title: "Container deleted successfully" });
+      toast({ title: "Container moved to trash", action: undoAction() });
     },
-    onError: () => {
-      toast({ title: "Failed to delete container", variant: "destructive" });
+    onError: (error) => {
+      toast({ title: "Failed to delete container", description: apiErrorMessage(error), variant: "destructive" });
     },
   });
 
@@ -47,7 +50,7 @@ export function ContainerManagementModal({
   };
 
   const handleDelete = async (container: StorageContainer) => {
-    if (window.confirm(`Are you sure you want to delete "${container.name}"? This will also delete all items in this container.`)) {
+    if (window.confirm(`Are you sure you want to delete "${container.name}"? Its items go to the trash with it.`)) {
       deleteMutation.mutate(container.id);
     }
   };
@@ -96,16 +99,18 @@ export function ContainerManagementModal({
                             <Edit2 className="w-4 h-4 mr-1" />
                             Edit
                           </Button>
-                          <Button
-                            size="sm"
-                            variant="outline"
-                            onClick={() => handleDelete(container)}
-                            disabled={deleteMutation.isPending}
-                            className="text-red-600 hover:text-red-700 hover:bg-red-50"
-                          >
-                            <Trash2 className="w-4 h-4 mr-1" />
-                            Delete
-                          </Button>
+                          {hasRole(user, "admin") && (
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => handleDelete(container)}
+                              disabled={deleteMutation.isPending}
+                              className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                            >
+                              <Trash2 className="w-4 h-4 mr-1" />
+                              Delete
+                            </Button>
+                          )}
                         </div>
                       </div>
                     </CardContent>
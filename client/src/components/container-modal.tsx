@@ -1,5 +1,5 @@
 import { useState, useEffect } from "react";
-import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
@@ -7,16 +7,21 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/u
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Card, CardContent } from "@/components/ui/card";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
+import { undoAction } from "@/lib/undo";
 import { Plus, Trash2 } from "lucide-react";
 import type { StorageContainer } from "@shared/schema";
 
 const formSchema = z.object({
   name: z.string().min(1, "Name is required"),
   description: z.string().optional(),
+  parentContainerId: z.number().optional(),
+  parentRow: z.number().optional(),
+  parentColumn: z.number().optional(),
 });
 
 type FormData = z.infer<typeof formSchema>;
@@ -38,11 +43,18 @@ export function ContainerModal({ open, onOpenChange, editingContainer }: Contain
   const queryClient = useQueryClient();
   const isEditing = !!editingContainer;
 
+  const { data: containers = [] } = useQuery<StorageContainer[]>({
+    queryKey: ["/api/containers"],
+  });
+
   const form = useForm<FormData>({
     resolver: zodResolver(formSchema),
     defaultValues: {
       name: editingContainer?.name || "",
       description: editingContainer?.description || "",
+      parentContainerId: editingContainer?.parentContainerId || undefined,
+      parentRow: editingContainer?.parentPosition?.row,
+      parentColumn: editingContainer?.parentPosition?.column,
     },
   });
 
@@ -52,17 +64,42 @@ export function ContainerModal({ open, onOpenChange, editingContainer }: Contain
       form.reset({
         name: editingContainer.name,
         description: editingContainer.description || "",
+        parentContainerId: editingContainer.parentContainerId || undefined,
+        parentRow: editingContainer.parentPosition?.row,
+        parentColumn: editingContainer.parentPosition?.column,
       });
       setGridRows(editingContainer.gridConfig.rows);
     } else {
       form.reset({
         name: "",
         description: "",
+        parentContainerId: undefined,
+        parentRow: undefined,
+        parentColumn: undefined,
       });
       setGridRows([{ columns: 5 }]);
     }
   }, [editingContainer, form]);
 
+  // A container can't be nested inside itself or one of its own descendants
+  const isDescendantOfEditing = (container: StorageContainer): boolean => {
+    if (!editingContainer) return false;
+    let current: StorageContainer | undefined = container;
+    const visited = new Set<number>();
+    while (current && !visited.has(current.id)) {
+      if (current.id === editingContainer.id) return true;
+      visited.add(current.id);
+      current = containers.find(c => c.id === current!.parentContainerId);
+    }
+    return false;
+  };
+
+  const parentOptions = containers.filter(c => !isDescendantOfEditing(c));
+  const parentContainerId = form.watch("parentContainerId");
+  const parentRow = form.watch("parentRow");
+  const parentContainer = containers.find(c => c.id === parentContainerId);
+  const parentRowConfig = parentRow !== undefined ? parentContainer?.gridConfig.rows[parentRow] : undefined;
+
   const createMutation = useMutation({
     mutationFn: async (data: any) => {
       const response = await apiRequest("POST", "/api/containers", data);
@@ -70,7 +107,7 @@ export function ContainerModal({ open, onOpenChange, editingContainer }: Contain
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/containers"] });
-      toast({ title: "Storage container created successfully" });
+      toast({ title: "Storage container created successfully", action: undoAction() });
       form.reset();
       setGridRows([{ columns: 5 }]);
       onOpenChange(false);
@@ -87,7 +124,7 @@ export function ContainerModal({ open, onOpenChange, editingContainer }: Contain
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/containers"] });
-      toast({ title: "Storage container updated successfully" });
+      toast({ title: "Storage container updated successfully", action: undoAction() });
       form.reset();
       setGridRows([{ columns: 5 }]);
       onOpenChange(false);
@@ -98,9 +135,13 @@ export function ContainerModal({ open, onOpenChange, editingContainer }: Contain
   });
 
   const onSubmit = (data: FormData) => {
+    const { parentRow, parentColumn, ...rest } = data;
+    const isNested = !!data.parentContainerId && parentRow !== undefined && parentColumn !== undefined;
     const containerData = {
-      ...data,
+      ...rest,
       description: data.description || null,
+      parentContainerId: isNested ? data.parentContainerId : null,
+      parentPosition: isNested ? { row: parentRow, column: parentColumn } : null,
       gridConfig: {
         rows: gridRows,
       },
@@ -178,6 +219,102 @@ export function ContainerModal({ open, onOpenChange, editingContainer }: Contain
                   )}
                 />
 
+                <FormField
+                  control={form.control}
+                  name="parentContainerId"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Inside Container</FormLabel>
+                      <Select
+                        value={field.value?.toString() || "none"}
+                        onValueChange={(value) => {
+                          field.onChange(value === "none" ? undefined : parseInt(value));
+                          form.setValue("parentRow", undefined);
+                          form.setValue("parentColumn", undefined);
+                        }}
+                      >
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Not nested" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="none">Not nested</SelectItem>
+                          {parentOptions.map((container) => (
+                            <SelectItem key={container.id} value={container.id.toString()}>
+                              {container.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                {parentContainer && (
+                  <div className="flex gap-2">
+                    <FormField
+                      control={form.control}
+                      name="parentRow"
+                      render={({ field }) => (
+                        <FormItem className="flex-1">
+                          <FormLabel>Row</FormLabel>
+                          <Select
+                            value={field.value?.toString() || ""}
+                            onValueChange={(value) => {
+                              field.onChange(parseInt(value));
+                              form.setValue("parentColumn", undefined);
+                            }}
+                          >
+                            <FormControl>
+                              <SelectTrigger>
+                                <SelectValue placeholder="Row" />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              {parentContainer.gridConfig.rows.map((row, rowIndex) => row.isDivider ? null : (
+                                <SelectItem key={rowIndex} value={rowIndex.toString()}>
+                                  Row {rowIndex + 1}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name="parentColumn"
+                      render={({ field }) => (
+                        <FormItem className="flex-1">
+                          <FormLabel>Column</FormLabel>
+                          <Select
+                            value={field.value?.toString() || ""}
+                            onValueChange={(value) => field.onChange(parseInt(value))}
+                            disabled={!parentRowConfig}
+                          >
+                            <FormControl>
+                              <SelectTrigger>
+                                <SelectValue placeholder="Column" />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              {Array.from({ length: parentRowConfig?.columns || 0 }, (_, colIndex) => (
+                                <SelectItem key={colIndex} value={colIndex.toString()}>
+                                  Column {colIndex + 1}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+                )}
+
                 {/* Add Row Controls */}
                 <div className="space-y-3">
                   <h4 className="font-medium text-sm">Grid Configuration</h4>
@@ -0,0 +1,60 @@
+import { Fragment } from "react";
+import { parseEngineeringQuery } from "@shared/engineering";
+
+// Roughly what the server's search accepts: a word the search word starts, or a close misspelling
+const MISSPELLING_SIMILARITY = 0.6;
+
+const wordPattern = /([0-9a-z\u00b5\u00c0-\uffff]+)/i;
+
+// The words of a search to highlight, leaving out value filters like "R:1k..10k"
+export function searchTerms(query: string): string[] {
+  return parseEngineeringQuery(query).text.toLowerCase().split(wordPattern).filter((_, index) => index % 2 === 1);
+}
+
+// pg_trgm's trigrams: the word padded with two spaces in front and one behind
+function trigrams(word: string): Set<string> {
+  const padded = `  ${word} `;
+  const result = new Set<string>();
+  for (let i = 0; i + 3 <= padded.length; i++) {
+    result.add(padded.slice(i, i + 3));
+  }
+  return result;
+}
+
+function similarity(a: string, b: string): number {
+  const trigramsA = trigrams(a);
+  const trigramsB = trigrams(b);
+  let shared = 0;
+  trigramsA.forEach(trigram => {
+    if (trigramsB.has(trigram)) shared++;
+  });
+  return shared / (trigramsA.size + trigramsB.size - shared);
+}
+
+function isMatch(word: string, terms: string[]): boolean {
+  const lower = word.toLowerCase();
+  return terms.some(term => lower.startsWith(term) || similarity(lower, term) >= MISSPELLING_SIMILARITY);
+}
+
+interface HighlightProps {
+  text: string;
+  terms: string[];
+}
+
+// Marks the words of text that the search terms match
+export function Highlight({ text, terms }: HighlightProps) {
+  if (terms.length === 0) return <>{text}</>;
+
+  // Splitting on a captured pattern puts the words at the odd indexes
+  return (
+    <>
+      {text.split(wordPattern).map((segment, index) =>
+        index % 2 === 1 && isMatch(segment, terms) ? (
+          <mark key={index} className="bg-yellow-200 text-inherit rounded-sm">{segment}</mark>
+        ) : (
+          <Fragment key={index}>{segment}</Fragment>
+        )
+      )}
+    </>
+  );
+}
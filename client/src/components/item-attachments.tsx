@@ -0,0 +1,166 @@
+import { useRef } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest, apiErrorMessage } from "@/lib/queryClient";
+import { Download, FileText, Paperclip, Trash2 } from "lucide-react";
+import { attachmentFileTypes, hasRole, MAX_ATTACHMENT_BYTES, type Attachment, type Item } from "@shared/schema";
+
+const acceptedExtensions = Array.from(new Set(Object.values(attachmentFileTypes).flat())).join(",");
+
+function formatSize(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+interface ItemAttachmentsProps {
+  item: Item;
+}
+
+export function ItemAttachments({ item }: ItemAttachmentsProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const canEdit = hasRole(user, "editor");
+
+  const { data: attachments = [], isLoading } = useQuery<Attachment[]>({
+    queryKey: ["/api/items", item.id, "attachments"],
+    queryFn: () => fetch(`/api/items/${item.id}/attachments`).then(res => res.json()),
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/items", item.id, "attachments"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/search"] });
+  };
+
+  const uploadMutation = useMutation({
+    mutationFn: async (file: File) => {
+      const body = new FormData();
+      body.append("file", file);
+      const response = await apiRequest("POST", `/api/items/${item.id}/attachments`, body);
+      return response.json();
+    },
+    onSuccess: (attachment: Attachment) => {
+      invalidate();
+      toast({ title: `${attachment.fileName} attached` });
+    },
+    onError: (error) => {
+      toast({ title: "Failed to attach file", description: apiErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (attachment: Attachment) => {
+      await apiRequest("DELETE", `/api/attachments/${attachment.id}`);
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Attachment deleted" });
+    },
+    onError: () => {
+      toast({ title: "Failed to delete attachment", variant: "destructive" });
+    },
+  });
+
+  const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+    if (file.size > MAX_ATTACHMENT_BYTES) {
+      toast({
+        title: "File too large",
+        description: `Attachments can be at most ${MAX_ATTACHMENT_BYTES / 1024 / 1024} MB`,
+        variant: "destructive",
+      });
+      return;
+    }
+    uploadMutation.mutate(file);
+  };
+
+  const handleDelete = (attachment: Attachment) => {
+    if (confirm(`Delete ${attachment.fileName}? This can't be undone.`)) {
+      deleteMutation.mutate(attachment);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {canEdit && (
+        <div className="border rounded-lg p-3 space-y-2">
+          <Button
+            type="button"
+            variant="outline"
+            className="w-full"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={uploadMutation.isPending}
+          >
+            <Paperclip className="w-4 h-4 mr-2" />
+            {uploadMutation.isPending ? "Uploading..." : "Attach File"}
+          </Button>
+          <p className="text-xs text-slate-500 text-center">
+            Datasheets, manuals and receipts; PDF, images, text, office documents or zip up to {MAX_ATTACHMENT_BYTES / 1024 / 1024} MB
+          </p>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept={acceptedExtensions}
+            className="hidden"
+            onChange={handleFileSelect}
+          />
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="text-center py-6 text-slate-500 text-sm">Loading attachments...</div>
+      ) : attachments.length === 0 ? (
+        <div className="text-center py-6 text-slate-500 text-sm">No files attached</div>
+      ) : (
+        <ScrollArea className="h-64">
+          <div className="space-y-2 pr-3">
+            {attachments.map((attachment) => (
+              <div key={attachment.id} className="border rounded p-2 flex items-center gap-2">
+                <FileText className="w-4 h-4 text-slate-400 shrink-0" />
+                <div className="min-w-0 flex-1">
+                  <a
+                    href={`/api/attachments/${attachment.id}`}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-sm font-medium text-blue-600 hover:underline truncate block"
+                  >
+                    {attachment.fileName}
+                  </a>
+                  <p className="text-xs text-slate-500">
+                    {formatSize(attachment.size)} · {format(new Date(attachment.createdAt), "MMM d, yyyy")}
+                    {attachment.uploadedBy && <> · {attachment.uploadedBy}</>}
+                  </p>
+                </div>
+                <Button asChild size="sm" variant="ghost">
+                  <a href={`/api/attachments/${attachment.id}?download`} title="Download">
+                    <Download className="w-3 h-3" />
+                  </a>
+                </Button>
+                {canEdit && (
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => handleDelete(attachment)}
+                    disabled={deleteMutation.isPending}
+                    title="Delete"
+                  >
+                    <Trash2 className="w-3 h-3" />
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        </ScrollArea>
+      )}
+    </div>
+  );
+}
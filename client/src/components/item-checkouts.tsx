@@ -0,0 +1,204 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { format, isPast } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest, apiErrorMessage } from "@/lib/queryClient";
+import { undoAction } from "@/lib/undo";
+import { formatQuantity, hasRole, quantityStep, roundQuantity, type Item, type Checkout, type CheckoutRequest, type ReturnRequest, type Unit } from "@shared/schema";
+
+interface ItemCheckoutsProps {
+  item: Item;
+}
+
+export function ItemCheckouts({ item }: ItemCheckoutsProps) {
+  const [borrower, setBorrower] = useState("");
+  const [quantity, setQuantity] = useState(1);
+  const [dueDate, setDueDate] = useState("");
+  const { user } = useAuth();
+  const [conditionNotes, setConditionNotes] = useState<Record<number, string>>({});
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: checkouts = [], isLoading } = useQuery<Checkout[]>({
+    queryKey: ["/api/items", item.id, "checkouts"],
+    queryFn: () => fetch(`/api/items/${item.id}/checkouts`).then(res => res.json()),
+  });
+
+  const { data: units = [] } = useQuery<Unit[]>({
+    queryKey: ["/api/units"],
+  });
+
+  const unit = units.find(u => u.id === item.unitId);
+  const outstanding = checkouts.filter(c => !c.returnedAt);
+  const available = roundQuantity((item.quantity || 0) - outstanding.reduce((sum, c) => sum + c.quantity, 0), unit);
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/items", item.id, "checkouts"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/containers", item.containerId, "items"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/items"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/checkouts"] });
+  };
+
+  const checkoutMutation = useMutation({
+    mutationFn: async (request: CheckoutRequest) => {
+      const response = await apiRequest("POST", `/api/items/${item.id}/checkout`, request);
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidate();
+      setBorrower("");
+      setQuantity(1);
+      setDueDate("");
+      // Undo is for editors; borrowers return what they took instead
+      toast({ title: "Item checked out successfully", action: hasRole(user, "editor") ? undoAction() : undefined });
+    },
+    onError: (error) => {
+      toast({ title: "Failed to check out item", description: apiErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const returnMutation = useMutation({
+    mutationFn: async (request: ReturnRequest) => {
+      const response = await apiRequest("POST", `/api/items/${item.id}/return`, request);
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Item returned successfully", action: hasRole(user, "editor") ? undoAction() : undefined });
+    },
+    onError: () => {
+      toast({ title: "Failed to return item", variant: "destructive" });
+    },
+  });
+
+  const handleCheckout = () => {
+    if (!borrower.trim() || quantity <= 0) return;
+    checkoutMutation.mutate({
+      borrower: borrower.trim(),
+      quantity,
+      dueAt: dueDate ? new Date(dueDate) : null,
+    });
+  };
+
+  const handleReturn = (checkout: Checkout) => {
+    returnMutation.mutate({
+      checkoutId: checkout.id,
+      conditionNote: conditionNotes[checkout.id] || undefined,
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* Checkout form */}
+      <div className="border rounded-lg p-3 space-y-3">
+        <div className="flex items-center justify-between">
+          <h4 className="font-medium text-sm">Check Out</h4>
+          <span className="text-xs text-slate-500">{formatQuantity(available, unit)} of {formatQuantity(item.quantity || 0, unit)} available</span>
+        </div>
+        <Input
+          placeholder="Borrower's name"
+          value={borrower}
+          onChange={(e) => setBorrower(e.target.value)}
+        />
+        <div className="flex gap-2">
+          <div className="w-24 space-y-1">
+            <Label className="text-xs">Quantity</Label>
+            <Input
+              type="number"
+              min={quantityStep(unit)}
+              max={available}
+              step={quantityStep(unit)}
+              value={quantity}
+              onChange={(e) => setQuantity(parseFloat(e.target.value) || 0)}
+            />
+          </div>
+          <div className="flex-1 space-y-1">
+            <Label className="text-xs">Due date (optional)</Label>
+            <Input
+              type="date"
+              value={dueDate}
+              onChange={(e) => setDueDate(e.target.value)}
+            />
+          </div>
+        </div>
+        <Button
+          type="button"
+          className="w-full bg-blue-600 hover:bg-blue-700"
+          onClick={handleCheckout}
+          disabled={checkoutMutation.isPending || !borrower.trim() || quantity <= 0 || quantity > available}
+        >
+          Check Out
+        </Button>
+      </div>
+
+      {/* Loans */}
+      {isLoading ? (
+        <div className="text-center py-6 text-slate-500 text-sm">Loading loans...</div>
+      ) : checkouts.length === 0 ? (
+        <div className="text-center py-6 text-slate-500 text-sm">This item has never been checked out</div>
+      ) : (
+        <ScrollArea className="h-64">
+          <div className="space-y-2 pr-3">
+            {checkouts.map((checkout) => {
+              const isOverdue = !checkout.returnedAt && !!checkout.dueAt && isPast(new Date(checkout.dueAt));
+
+              return (
+                <div
+                  key={checkout.id}
+                  className={`border rounded p-2 text-sm space-y-1 ${checkout.returnedAt ? "opacity-60" : ""}`}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="font-medium">
+                      {checkout.borrower} <span className="text-slate-500 font-normal">× {formatQuantity(checkout.quantity, unit)}</span>
+                    </span>
+                    {checkout.returnedAt ? (
+                      <Badge variant="secondary" className="text-xs">Returned</Badge>
+                    ) : isOverdue ? (
+                      <Badge variant="destructive" className="text-xs">Overdue</Badge>
+                    ) : (
+                      <Badge variant="outline" className="text-xs">Out</Badge>
+                    )}
+                  </div>
+                  <p className="text-xs text-slate-500">
+                    Out {format(new Date(checkout.checkedOutAt), "MMM d, yyyy")}
+                    {checkout.dueAt && <> · Due {format(new Date(checkout.dueAt), "MMM d, yyyy")}</>}
+                    {checkout.returnedAt && <> · Returned {format(new Date(checkout.returnedAt), "MMM d, yyyy")}</>}
+                  </p>
+                  {checkout.conditionNote && (
+                    <p className="text-xs text-slate-600"><strong>Condition:</strong> {checkout.conditionNote}</p>
+                  )}
+                  {!checkout.returnedAt && (
+                    <div className="flex gap-2 pt-1">
+                      <Input
+                        placeholder="Condition note (optional)"
+                        value={conditionNotes[checkout.id] || ""}
+                        onChange={(e) => setConditionNotes({ ...conditionNotes, [checkout.id]: e.target.value })}
+                        className="h-8 text-xs"
+                      />
+                      <Button
+                        type="button"
+                        size="sm"
+                        variant="outline"
+                        className="bg-orange-100 text-orange-700 hover:bg-orange-200"
+                        onClick={() => handleReturn(checkout)}
+                        disabled={returnMutation.isPending}
+                      >
+                        Return
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </ScrollArea>
+      )}
+    </div>
+  );
+}
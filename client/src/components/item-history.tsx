@@ -0,0 +1,209 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Line, LineChart, XAxis, YAxis } from "recharts";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, apiErrorMessage } from "@/lib/queryClient";
+import { Minus, Plus } from "lucide-react";
+import { formatQuantity, quantityStep, type Item, type ItemTransaction, type ItemAdjustment, type Unit } from "@shared/schema";
+
+interface ItemHistoryProps {
+  item: Item;
+  onQuantityChange: (quantity: number) => void;
+}
+
+const reasonLabels: Record<ItemTransaction["reason"], string> = {
+  initial: "Initial stock",
+  consumed: "Consumed",
+  restocked: "Restocked",
+  correction: "Correction",
+  edit: "Edited",
+};
+
+const chartConfig = {
+  quantity: {
+    label: "Quantity",
+    color: "#2563eb",
+  },
+} satisfies ChartConfig;
+
+export function ItemHistory({ item, onQuantityChange }: ItemHistoryProps) {
+  const [amount, setAmount] = useState(1);
+  const [note, setNote] = useState("");
+  const [lotCode, setLotCode] = useState("");
+  const [expiryDate, setExpiryDate] = useState("");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: transactions = [], isLoading } = useQuery<ItemTransaction[]>({
+    queryKey: ["/api/items", item.id, "history"],
+    queryFn: () => fetch(`/api/items/${item.id}/history`).then(res => res.json()),
+  });
+
+  const { data: units = [] } = useQuery<Unit[]>({
+    queryKey: ["/api/units"],
+  });
+
+  const unit = units.find(u => u.id === item.unitId);
+
+  const adjustMutation = useMutation({
+    mutationFn: async (adjustment: ItemAdjustment) => {
+      const response = await apiRequest("POST", `/api/items/${item.id}/adjust`, adjustment);
+      return response.json();
+    },
+    onSuccess: ({ item: updated }: { item: Item }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/items", item.id, "history"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/items", item.id, "lots"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/containers", item.containerId, "items"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/items"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/parts"] });
+      onQuantityChange(updated.quantity || 0);
+      setNote("");
+      setLotCode("");
+      setExpiryDate("");
+      toast({ title: "Quantity adjusted successfully" });
+    },
+    onError: (error) => {
+      toast({ title: "Failed to adjust quantity", description: apiErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  // Added stock with a lot code or expiry date becomes a lot; taking uses up the oldest stock first
+  const startsLot = !!(lotCode.trim() || expiryDate);
+
+  const handleAdjust = (direction: 1 | -1) => {
+    if (amount <= 0) return;
+    adjustMutation.mutate({
+      delta: direction * amount,
+      reason: direction > 0 ? "restocked" : "consumed",
+      note: note || undefined,
+      lot: direction > 0 && startsLot
+        ? { lotCode: lotCode.trim() || null, expiresAt: expiryDate ? new Date(expiryDate) : null }
+        : undefined,
+    });
+  };
+
+  // Oldest first for the sparkline
+  const chartData = [...transactions].reverse().map(t => ({
+    date: format(new Date(t.createdAt), "MMM d"),
+    quantity: t.quantityAfter,
+  }));
+
+  return (
+    <div className="space-y-4">
+      {/* Quick adjustment */}
+      <div className="border rounded-lg p-3 space-y-2">
+        <div className="flex gap-2">
+          <Input
+            type="number"
+            min={quantityStep(unit)}
+            step={quantityStep(unit)}
+            value={amount}
+            onChange={(e) => setAmount(parseFloat(e.target.value) || 0)}
+            className="w-20"
+          />
+          <Button
+            type="button"
+            variant="outline"
+            className="flex-1"
+            onClick={() => handleAdjust(-1)}
+            disabled={adjustMutation.isPending}
+          >
+            <Minus className="w-4 h-4 mr-1" />
+            Take
+          </Button>
+          <Button
+            type="button"
+            variant="outline"
+            className="flex-1"
+            onClick={() => handleAdjust(1)}
+            disabled={adjustMutation.isPending}
+          >
+            <Plus className="w-4 h-4 mr-1" />
+            Add
+          </Button>
+        </div>
+        <Input
+          placeholder="Note (optional)"
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+        />
+        <div className="flex gap-2">
+          <Input
+            placeholder="Lot code for added stock"
+            value={lotCode}
+            onChange={(e) => setLotCode(e.target.value)}
+            className="flex-1"
+          />
+          <Input
+            type="date"
+            value={expiryDate}
+            onChange={(e) => setExpiryDate(e.target.value)}
+            title="Expiry date for added stock"
+            className="w-36"
+          />
+        </div>
+      </div>
+
+      {/* Sparkline */}
+      {chartData.length > 1 && (
+        <ChartContainer config={chartConfig} className="h-24 w-full aspect-auto">
+          <LineChart data={chartData} margin={{ top: 4, right: 4, bottom: 0, left: 4 }}>
+            <XAxis dataKey="date" hide />
+            <YAxis hide domain={[0, "dataMax"]} />
+            <ChartTooltip content={<ChartTooltipContent />} />
+            <Line
+              type="stepAfter"
+              dataKey="quantity"
+              stroke="var(--color-quantity)"
+              strokeWidth={2}
+              dot={false}
+            />
+          </LineChart>
+        </ChartContainer>
+      )}
+
+      {/* Timeline */}
+      {isLoading ? (
+        <div className="text-center py-6 text-slate-500 text-sm">Loading history...</div>
+      ) : transactions.length === 0 ? (
+        <div className="text-center py-6 text-slate-500 text-sm">No stock changes recorded yet</div>
+      ) : (
+        <ScrollArea className="h-64">
+          <div className="space-y-2 pr-3">
+            {transactions.map((transaction) => (
+              <div key={transaction.id} className="border-l-2 border-slate-200 pl-3 py-1">
+                <div className="flex items-center justify-between gap-2">
+                  <div className="flex items-center gap-2">
+                    <span className={`font-medium text-sm ${transaction.delta < 0 ? "text-red-600" : "text-emerald-600"}`}>
+                      {transaction.delta > 0 ? "+" : ""}{formatQuantity(transaction.delta, unit)}
+                    </span>
+                    <Badge variant="secondary" className="text-xs">
+                      {reasonLabels[transaction.reason]}
+                    </Badge>
+                    <span className="text-xs text-slate-500">→ {formatQuantity(transaction.quantityAfter, unit)}</span>
+                  </div>
+                  <span className="text-xs text-slate-400">
+                    {format(new Date(transaction.createdAt), "MMM d, yyyy HH:mm")}
+                  </span>
+                </div>
+                {(transaction.actor || transaction.note) && (
+                  <p className="text-xs text-slate-600 mt-1">
+                    {transaction.actor && <strong>{transaction.actor}</strong>}
+                    {transaction.actor && transaction.note && ": "}
+                    {transaction.note}
+                  </p>
+                )}
+              </div>
+            ))}
+          </div>
+        </ScrollArea>
+      )}
+    </div>
+  );
+}
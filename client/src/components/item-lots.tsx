@@ -0,0 +1,217 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, apiErrorMessage } from "@/lib/queryClient";
+import { undoAction } from "@/lib/undo";
+import { Edit2, Trash2 } from "lucide-react";
+import { expiryStatus, formatQuantity, quantityStep, roundQuantity, type Item, type ItemLot, type Unit } from "@shared/schema";
+
+interface ItemLotsProps {
+  item: Item;
+}
+
+const today = () => format(new Date(), "yyyy-MM-dd");
+
+export function ItemLots({ item }: ItemLotsProps) {
+  const [editingLot, setEditingLot] = useState<ItemLot | null>(null);
+  const [lotCode, setLotCode] = useState("");
+  const [quantity, setQuantity] = useState(1);
+  const [receivedDate, setReceivedDate] = useState(today);
+  const [expiryDate, setExpiryDate] = useState("");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: lots = [], isLoading } = useQuery<ItemLot[]>({
+    queryKey: ["/api/items", item.id, "lots"],
+    queryFn: () => fetch(`/api/items/${item.id}/lots`).then(res => res.json()),
+  });
+
+  const { data: units = [] } = useQuery<Unit[]>({
+    queryKey: ["/api/units"],
+  });
+
+  const unit = units.find(u => u.id === item.unitId);
+  const untracked = roundQuantity((item.quantity || 0) - lots.reduce((sum, lot) => sum + lot.quantity, 0), unit);
+  const available = editingLot ? roundQuantity(untracked + editingLot.quantity, unit) : untracked;
+
+  const resetForm = () => {
+    setEditingLot(null);
+    setLotCode("");
+    setQuantity(1);
+    setReceivedDate(today());
+    setExpiryDate("");
+  };
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/items", item.id, "lots"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/containers", item.containerId, "items"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/items"] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const lot = {
+        lotCode: lotCode.trim() || null,
+        quantity,
+        receivedAt: new Date(receivedDate),
+        expiresAt: expiryDate ? new Date(expiryDate) : null,
+      };
+      const response = editingLot
+        ? await apiRequest("PATCH", `/api/lots/${editingLot.id}`, lot)
+        : await apiRequest("POST", `/api/items/${item.id}/lots`, lot);
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ title: editingLot ? "Lot updated successfully" : "Lot created successfully", action: undoAction() });
+      resetForm();
+    },
+    onError: (error) => {
+      toast({
+        title: editingLot ? "Failed to update lot" : "Failed to create lot",
+        description: apiErrorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/lots/${id}`);
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Lot deleted successfully", action: undoAction() });
+    },
+    onError: (error) => {
+      toast({ title: "Failed to delete lot", description: apiErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const handleEdit = (lot: ItemLot) => {
+    setEditingLot(lot);
+    setLotCode(lot.lotCode || "");
+    setQuantity(lot.quantity);
+    setReceivedDate(format(new Date(lot.receivedAt), "yyyy-MM-dd"));
+    setExpiryDate(lot.expiresAt ? format(new Date(lot.expiresAt), "yyyy-MM-dd") : "");
+  };
+
+  const handleDelete = (lot: ItemLot) => {
+    if (confirm(`Stop tracking lot ${lot.lotCode || "without a code"}? Its stock stays with the item.`)) {
+      deleteMutation.mutate(lot.id);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* Lot form */}
+      <div className="border rounded-lg p-3 space-y-3">
+        <div className="flex items-center justify-between">
+          <h4 className="font-medium text-sm">{editingLot ? "Edit Lot" : "Record Stock on Hand as a Lot"}</h4>
+          <span className="text-xs text-slate-500">{formatQuantity(untracked, unit)} not in a lot</span>
+        </div>
+        <div className="flex gap-2">
+          <Input
+            placeholder="Lot code (optional)"
+            value={lotCode}
+            onChange={(e) => setLotCode(e.target.value)}
+            className="flex-1"
+          />
+          <Input
+            type="number"
+            min={quantityStep(unit)}
+            max={available}
+            step={quantityStep(unit)}
+            value={quantity}
+            onChange={(e) => setQuantity(parseFloat(e.target.value) || 0)}
+            className="w-24"
+          />
+        </div>
+        <div className="flex gap-2">
+          <div className="flex-1 space-y-1">
+            <Label className="text-xs">Received</Label>
+            <Input type="date" value={receivedDate} onChange={(e) => setReceivedDate(e.target.value)} />
+          </div>
+          <div className="flex-1 space-y-1">
+            <Label className="text-xs">Expires (optional)</Label>
+            <Input type="date" value={expiryDate} onChange={(e) => setExpiryDate(e.target.value)} />
+          </div>
+        </div>
+        <div className="flex gap-2">
+          {editingLot && (
+            <Button type="button" variant="outline" onClick={resetForm}>
+              Cancel
+            </Button>
+          )}
+          <Button
+            type="button"
+            className="flex-1 bg-blue-600 hover:bg-blue-700"
+            onClick={() => saveMutation.mutate()}
+            disabled={saveMutation.isPending || !receivedDate || quantity <= 0 || quantity > available}
+          >
+            {editingLot ? "Update Lot" : "Add Lot"}
+          </Button>
+        </div>
+        {!editingLot && (
+          <p className="text-xs text-slate-500">New stock can start a lot when added on the History tab</p>
+        )}
+      </div>
+
+      {/* Lots, in the order they are used up */}
+      {isLoading ? (
+        <div className="text-center py-6 text-slate-500 text-sm">Loading lots...</div>
+      ) : lots.length === 0 ? (
+        <div className="text-center py-6 text-slate-500 text-sm">No lots recorded for this item</div>
+      ) : (
+        <ScrollArea className="h-64">
+          <div className="space-y-2 pr-3">
+            {lots.map((lot, index) => {
+              const status = expiryStatus(lot.expiresAt);
+              return (
+                <div key={lot.id} className="border rounded p-2 text-sm space-y-1">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="font-medium">
+                      {lot.lotCode || "No lot code"}{" "}
+                      <span className="text-slate-500 font-normal">× {formatQuantity(lot.quantity, unit)}</span>
+                    </span>
+                    <div className="flex items-center gap-1">
+                      {index === 0 && untracked <= 0 && (
+                        <Badge variant="outline" className="text-xs">Used next</Badge>
+                      )}
+                      {status === "expired" ? (
+                        <Badge variant="destructive" className="text-xs">Expired</Badge>
+                      ) : status === "soon" ? (
+                        <Badge variant="secondary" className="text-xs bg-purple-100 text-purple-700">Expiring soon</Badge>
+                      ) : null}
+                      <Button size="sm" variant="ghost" onClick={() => handleEdit(lot)}>
+                        <Edit2 className="w-3 h-3" />
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => handleDelete(lot)}
+                        disabled={deleteMutation.isPending}
+                      >
+                        <Trash2 className="w-3 h-3" />
+                      </Button>
+                    </div>
+                  </div>
+                  <p className="text-xs text-slate-500">
+                    Received {format(new Date(lot.receivedAt), "MMM d, yyyy")}
+                    {lot.expiresAt && <> · Expires {format(new Date(lot.expiresAt), "MMM d, yyyy")}</>}
+                  </p>
+                </div>
+              );
+            })}
+          </div>
+        </ScrollArea>
+      )}
+    </div>
+  );
+}
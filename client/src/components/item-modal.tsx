@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { useMutation, useQueryClient, useQuery } from "@tanstack/react-query";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
@@ -8,19 +8,44 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { ItemHistory } from "@/components/item-history";
+import { ItemCheckouts } from "@/components/item-checkouts";
+import { ItemLots } from "@/components/item-lots";
+import { ItemAttachments } from "@/components/item-attachments";
+import { TagInput } from "@/components/tag-input";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest } from "@/lib/queryClient";
-import type { Category, Item, SizeOption } from "@shared/schema";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest, apiErrorMessage } from "@/lib/queryClient";
+import { undoAction } from "@/lib/undo";
+import { photoUrl, uploadPhoto } from "@/lib/photos";
+import { Camera, ImageIcon, ImagePlus } from "lucide-react";
+import { hasRole, itemAttributesSchema, quantityStep, roundQuantity, type ItemAttributeValue, type ItemWithCategory, type ResolvedCategory, type PartWithStock, type SizeOption, type Supplier, type Unit } from "@shared/schema";
 
 const formSchema = z.object({
   name: z.string().min(1, "Name is required"),
   categoryId: z.number().optional(),
+  tags: z.array(z.string()).default([]),
   size: z.string().optional(),
+  // Kept to the unit's decimals, checked on submit
   quantity: z.number().min(0).default(1),
+  unitId: z.number().optional(),
+  partId: z.number().optional(),
   information: z.string().optional(),
   lowQuantityThreshold: z.number().min(0).optional(),
-  checkedOutTo: z.string().optional(),
+  rowSpan: z.number().int().min(1).default(1),
+  columnSpan: z.number().int().min(1).default(1),
+  // Checked against the category's attribute definitions on submit
+  attributes: z.record(z.union([z.string(), z.number(), z.boolean()]).optional()).default({}),
+  manufacturerPartNumber: z.string().optional(),
+  supplierId: z.number().optional(),
+  supplierSku: z.string().optional(),
+  unitPrice: z.number().min(0, "Price can't be negative").optional(),
+  currency: z.union([z.literal(""), z.string().trim().regex(/^[A-Za-z]{3}$/, "Use a three letter code like EUR")]).optional(),
+  purchaseUrl: z.union([z.literal(""), z.string().trim().url("Purchase link must be a URL")]).optional(),
 });
 
 type FormData = z.infer<typeof formSchema>;
@@ -28,10 +53,10 @@ type FormData = z.infer<typeof formSchema>;
 interface ItemModalProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
-  categories: Category[];
+  categories: ResolvedCategory[];
   containerId: number | null;
   position: { row: number; column: number } | null;
-  editingItem: Item | null;
+  editingItem: ItemWithCategory | null;
 }
 
 export function ItemModal({
@@ -43,48 +68,144 @@ export function ItemModal({
   editingItem,
 }: ItemModalProps) {
   const { toast } = useToast();
+  const { user } = useAuth();
   const queryClient = useQueryClient();
 
   const { data: sizeOptions = [] } = useQuery<SizeOption[]>({
     queryKey: ["/api/size-options"],
   });
 
+  const { data: suppliers = [] } = useQuery<Supplier[]>({
+    queryKey: ["/api/suppliers"],
+  });
+
+  const { data: units = [] } = useQuery<Unit[]>({
+    queryKey: ["/api/units"],
+  });
+
+  const { data: parts = [] } = useQuery<PartWithStock[]>({
+    queryKey: ["/api/parts"],
+  });
+
+  // A newly picked photo is uploaded when the item is saved
+  const [photoFile, setPhotoFile] = useState<File | null>(null);
+  const [photoPreview, setPhotoPreview] = useState<string | null>(null);
+  const [removePhoto, setRemovePhoto] = useState(false);
+  const photoInputRef = useRef<HTMLInputElement>(null);
+  const cameraInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    setPhotoFile(null);
+    setRemovePhoto(false);
+  }, [editingItem, open]);
+
+  useEffect(() => {
+    if (!photoFile) {
+      setPhotoPreview(null);
+      return;
+    }
+    const url = URL.createObjectURL(photoFile);
+    setPhotoPreview(url);
+    return () => URL.revokeObjectURL(url);
+  }, [photoFile]);
+
+  const currentPhoto = !removePhoto && editingItem?.photo ? editingItem.photo : null;
+  const shownPhoto = photoPreview ?? (currentPhoto ? photoUrl(currentPhoto) : null);
+
+  const handlePhotoSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) {
+      setPhotoFile(file);
+      setRemovePhoto(false);
+    }
+    event.target.value = "";
+  };
+
+  const handlePhotoRemove = () => {
+    setPhotoFile(null);
+    setRemovePhoto(true);
+  };
+
   const form = useForm<FormData>({
     resolver: zodResolver(formSchema),
     defaultValues: {
       name: "",
       categoryId: undefined,
+      tags: [],
       size: "",
       quantity: 1,
+      unitId: undefined,
+      partId: undefined,
       information: "",
       lowQuantityThreshold: undefined,
-      checkedOutTo: "",
+      rowSpan: 1,
+      columnSpan: 1,
+      attributes: {},
+      manufacturerPartNumber: "",
+      supplierId: undefined,
+      supplierSku: "",
+      unitPrice: undefined,
+      currency: "",
+      purchaseUrl: "",
     },
   });
 
+  const selectedCategory = categories.find(c => c.id === form.watch("categoryId"));
+  const selectedUnit = units.find(u => u.id === form.watch("unitId"));
+  const editingUnit = units.find(u => u.id === editingItem?.unitId);
+  const selectedPart = parts.find(p => p.id === form.watch("partId"));
+  // The part's other locations fix the unit, so their quantities add up
+  const otherLocations = selectedPart?.locations.filter(location => location.itemId !== editingItem?.id) ?? [];
+  const attributeDefinitions = selectedCategory?.attributes ?? [];
+
   useEffect(() => {
     if (editingItem) {
       form.reset({
         name: editingItem.name,
         categoryId: editingItem.categoryId || undefined,
+        tags: editingItem.tags ?? [],
         size: editingItem.size || "",
-        quantity: editingItem.quantity || 1,
+        // Rounded in case the unit's precision was lowered since
+        quantity: roundQuantity(editingItem.quantity ?? 1, editingUnit),
+        unitId: editingItem.unitId || undefined,
+        partId: editingItem.partId || undefined,
         information: editingItem.information || "",
-        lowQuantityThreshold: editingItem.lowQuantityThreshold || undefined,
-        checkedOutTo: editingItem.checkedOutTo || "",
+        lowQuantityThreshold: editingItem.lowQuantityThreshold
+          ? roundQuantity(editingItem.lowQuantityThreshold, editingUnit)
+          : undefined,
+        rowSpan: editingItem.rowSpan,
+        columnSpan: editingItem.columnSpan,
+        attributes: editingItem.attributes,
+        manufacturerPartNumber: editingItem.manufacturerPartNumber || "",
+        supplierId: editingItem.supplierId || undefined,
+        supplierSku: editingItem.supplierSku || "",
+        unitPrice: editingItem.unitPrice ?? undefined,
+        currency: editingItem.currency || "",
+        purchaseUrl: editingItem.purchaseUrl || "",
       });
     } else {
       form.reset({
         name: "",
         categoryId: undefined,
+        tags: [],
         size: "",
         quantity: 1,
+        unitId: undefined,
+        partId: undefined,
         information: "",
         lowQuantityThreshold: undefined,
-        checkedOutTo: "",
+        rowSpan: 1,
+        columnSpan: 1,
+        attributes: {},
+        manufacturerPartNumber: "",
+        supplierId: undefined,
+        supplierSku: "",
+        unitPrice: undefined,
+        currency: "",
+        purchaseUrl: "",
       });
     }
-  }, [editingItem, form]);
+  }, [editingItem, editingUnit, form]);
 
   const createMutation = useMutation({
     mutationFn: async (data: any) => {
@@ -94,11 +215,13 @@ export function ItemModal({
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/containers"] });
       queryClient.invalidateQueries({ queryKey: ["/api/items"] });
-      toast({ title: "Item added successfully" });
+      queryClient.invalidateQueries({ queryKey: ["/api/tags"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/parts"] });
+      toast({ title: "Item added successfully", action: undoAction() });
       onOpenChange(false);
     },
-    onError: () => {
-      toast({ title: "Failed to add item", variant: "destructive" });
+    onError: (error) => {
+      toast({ title: "Failed to add item", description: apiErrorMessage(error), variant: "destructive" });
     },
   });
 
@@ -110,11 +233,13 @@ export function ItemModal({
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/containers"] });
       queryClient.invalidateQueries({ queryKey: ["/api/items"] });
-      toast({ title: "Item updated successfully" });
+      queryClient.invalidateQueries({ queryKey: ["/api/tags"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/parts"] });
+      toast({ title: "Item updated successfully", action: undoAction() });
       onOpenChange(false);
     },
-    onError: () => {
-      toast({ title: "Failed to update item", variant: "destructive" });
+    onError: (error) => {
+      toast({ title: "Failed to update item", description: apiErrorMessage(error), variant: "destructive" });
     },
   });
 
@@ -125,24 +250,86 @@ export function ItemModal({
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/containers"] });
       queryClient.invalidateQueries({ queryKey: ["/api/items"] });
-      toast({ title: "Item deleted successfully" });
+      queryClient.invalidateQueries({ queryKey: ["/api/parts"] });
+      toast({ title: "Item moved to trash", action: undoAction() });
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      toast({ title: "Failed to delete item", description: apiErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const returnMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/items/${editingItem!.id}/return`, {});
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/containers"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/items"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/checkouts"] });
+      toast({ title: "Item returned successfully" });
       onOpenChange(false);
     },
     onError: () => {
-      toast({ title: "Failed to delete item", variant: "destructive" });
+      toast({ title: "Failed to return item", variant: "destructive" });
     },
   });
 
-  const onSubmit = (data: FormData) => {
+  const onSubmit = async (data: FormData) => {
     if (!containerId || !position) return;
 
+    // Blank fields mean no value; values for another category's attributes are dropped
+    const filled = Object.fromEntries(
+      Object.entries(data.attributes).filter(([, value]) => value !== undefined && value !== "" && !Number.isNaN(value))
+    ) as Record<string, ItemAttributeValue>;
+    const attributes = itemAttributesSchema(attributeDefinitions).safeParse(filled);
+    if (!attributes.success) {
+      for (const issue of attributes.error.errors) {
+        form.setError(`attributes.${issue.path.join(".")}`, { message: issue.message });
+      }
+      return;
+    }
+
+    for (const field of ["quantity", "lowQuantityThreshold"] as const) {
+      const value = data[field];
+      if (value !== undefined && roundQuantity(value, selectedUnit) !== value) {
+        form.setError(field, {
+          message: selectedUnit
+            ? `${selectedUnit.name} is kept to ${selectedUnit.precision} decimals`
+            : "Pick a unit to enter a fractional quantity",
+        });
+        return;
+      }
+    }
+
+    let photo = currentPhoto;
+    if (photoFile) {
+      try {
+        photo = await uploadPhoto(photoFile);
+      } catch (error) {
+        toast({ title: "Failed to upload photo", description: apiErrorMessage(error), variant: "destructive" });
+        return;
+      }
+    }
+
     const itemData = {
       ...data,
+      photo,
+      attributes: attributes.data,
       containerId,
       position,
       categoryId: data.categoryId || null,
+      unitId: data.unitId || null,
+      partId: data.partId || null,
       size: data.size || null,
       information: data.information || null,
+      manufacturerPartNumber: data.manufacturerPartNumber || null,
+      supplierId: data.supplierId || null,
+      supplierSku: data.supplierSku || null,
+      unitPrice: data.unitPrice ?? null,
+      currency: data.currency || null,
+      purchaseUrl: data.purchaseUrl || null,
     };
 
     if (editingItem) {
@@ -160,13 +347,7 @@ export function ItemModal({
 
   const handleReturn = () => {
     if (editingItem) {
-      form.setValue("checkedOutTo", "");
-      const formData = form.getValues();
-      updateMutation.mutate({
-        ...formData,
-        checkedOutTo: null,
-        checkedOutAt: null,
-      });
+      returnMutation.mutate();
     }
   };
 
@@ -179,222 +360,589 @@ export function ItemModal({
           </DialogTitle>
         </DialogHeader>
 
-        <Form {...form}>
-          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
-            <FormField
-              control={form.control}
-              name="name"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel>
-                    Name <span className="text-red-500">*</span>
-                  </FormLabel>
-                  <FormControl>
-                    <div className="flex gap-1">
-                      <Input placeholder="Enter item name" {...field} className="flex-1" />
-                      <Button
-                        type="button"
-                        variant="outline"
-                        size="sm"
-                        className="px-2 text-xs"
-                        onClick={() => field.onChange(field.value + 'Ω')}
-                      >
-                        Ω
+        <Tabs defaultValue="details">
+          {editingItem && (
+            <TabsList className="grid w-full grid-cols-5">
+              <TabsTrigger value="details">Details</TabsTrigger>
+              <TabsTrigger value="files">Files</TabsTrigger>
+              <TabsTrigger value="lots">Lots</TabsTrigger>
+              <TabsTrigger value="loans">Loans</TabsTrigger>
+              <TabsTrigger value="history">History</TabsTrigger>
+            </TabsList>
+          )}
+
+          <TabsContent value="details">
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+                <div className="space-y-2">
+                  <Label>Photo</Label>
+                  <div className="flex items-center gap-3">
+                    {shownPhoto ? (
+                      <a href={shownPhoto} target="_blank" rel="noopener noreferrer">
+                        <img src={shownPhoto} alt="" className="w-20 h-20 rounded object-cover border border-slate-200" />
+                      </a>
+                    ) : (
+                      <div className="w-20 h-20 rounded border-2 border-dashed border-slate-300 flex items-center justify-center text-slate-400">
+                        <ImageIcon className="w-6 h-6" />
+                      </div>
+                    )}
+                    <div className="flex flex-col gap-1">
+                      <Button type="button" variant="outline" size="sm" onClick={() => photoInputRef.current?.click()}>
+                        <ImagePlus className="w-4 h-4 mr-2" />
+                        Choose Photo
                       </Button>
-                      <Button
-                        type="button"
-                        variant="outline"
-                        size="sm"
-                        className="px-2 text-xs"
-                        onClick={() => field.onChange(field.value + 'μ')}
-                      >
-                        μ
+                      <Button type="button" variant="outline" size="sm" onClick={() => cameraInputRef.current?.click()}>
+                        <Camera className="w-4 h-4 mr-2" />
+                        Take Photo
                       </Button>
+                      {shownPhoto && (
+                        <Button type="button" variant="ghost" size="sm" onClick={handlePhotoRemove}>
+                          Remove
+                        </Button>
+                      )}
                     </div>
-                  </FormControl>
-                  <FormMessage />
-                </FormItem>
-              )}
-            />
-
-            <FormField
-              control={form.control}
-              name="categoryId"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel>Category</FormLabel>
-                  <Select 
-                    value={field.value?.toString() || ""} 
-                    onValueChange={(value) => field.onChange(value ? parseInt(value) : undefined)}
+                  </div>
+                  <input ref={photoInputRef} type="file" accept="image/*" className="hidden" onChange={handlePhotoSelect} />
+                  {/* Opens the camera straight away on phones; desktops fall back to a file picker */}
+                  <input ref={cameraInputRef} type="file" accept="image/*" capture="environment" className="hidden" onChange={handlePhotoSelect} />
+                </div>
+
+                <FormField
+                  control={form.control}
+                  name="name"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>
+                        Name <span className="text-red-500">*</span>
+                      </FormLabel>
+                      <FormControl>
+                        <div className="flex gap-1">
+                          <Input placeholder="Enter item name" {...field} className="flex-1" />
+                          <Button
+                            type="button"
+                            variant="outline"
+                            size="sm"
+                            className="px-2 text-xs"
+                            onClick={() => field.onChange(field.value + 'Ω')}
+                          >
+                            Ω
+                          </Button>
+                          <Button
+                            type="button"
+                            variant="outline"
+                            size="sm"
+                            className="px-2 text-xs"
+                            onClick={() => field.onChange(field.value + 'μ')}
+                          >
+                            μ
+                          </Button>
+                        </div>
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="categoryId"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Category</FormLabel>
+                      <Select 
+                        value={field.value?.toString() || ""} 
+                        onValueChange={(value) => field.onChange(value ? parseInt(value) : undefined)}
+                      >
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Select category" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {categories.map((category) => (
+                            <SelectItem key={category.id} value={category.id.toString()}>
+                              <div className="flex items-center gap-2">
+                                <div
+                                  className="w-3 h-3 rounded"
+                                  style={{ backgroundColor: category.color }}
+                                />
+                                {category.path}
+                              </div>
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="tags"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Tags</FormLabel>
+                      <FormControl>
+                        <TagInput
+                          value={field.value}
+                          onChange={field.onChange}
+                          placeholder="e.g., Project: weather station"
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="size"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Size</FormLabel>
+                      <Select value={field.value || ""} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Select size" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {sizeOptions.map((size) => (
+                            <SelectItem key={size.id} value={size.name}>
+                              {size.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                {attributeDefinitions.map((attribute) => (
+                  <FormField
+                    key={`${selectedCategory!.id}-${attribute.key}`}
+                    control={form.control}
+                    name={`attributes.${attribute.key}`}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>
+                          {attribute.label} {attribute.required && <span className="text-red-500">*</span>}
+                        </FormLabel>
+                        {attribute.type === "enum" ? (
+                          <Select value={String(field.value ?? "")} onValueChange={field.onChange}>
+                            <FormControl>
+                              <SelectTrigger>
+                                <SelectValue placeholder={`Select ${attribute.label.toLowerCase()}`} />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              {(attribute.options ?? []).map((option) => (
+                                <SelectItem key={option} value={option}>{option}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        ) : attribute.type === "boolean" ? (
+                          <FormControl>
+                            <div className="flex items-center gap-2">
+                              <Checkbox
+                                checked={field.value === true}
+                                onCheckedChange={(checked) => field.onChange(checked === true)}
+                              />
+                              <span className="text-sm text-slate-600">Yes</span>
+                            </div>
+                          </FormControl>
+                        ) : attribute.type === "number" ? (
+                          <FormControl>
+                            <div className="flex items-center gap-2">
+                              <Input
+                                type="number"
+                                step="any"
+                                value={typeof field.value === "number" ? field.value : ""}
+                                onChange={(e) => field.onChange(e.target.value === "" ? undefined : parseFloat(e.target.value))}
+                                className="flex-1"
+                              />
+                              {attribute.unit && <span className="text-sm text-slate-600">{attribute.unit}</span>}
+                            </div>
+                          </FormControl>
+                        ) : (
+                          <FormControl>
+                            <Input value={String(field.value ?? "")} onChange={field.onChange} />
+                          </FormControl>
+                        )}
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                ))}
+
+                <div className="grid grid-cols-2 gap-3">
+                  <FormField
+                    control={form.control}
+                    name="quantity"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Quantity</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="number"
+                            min="0"
+                            step={quantityStep(selectedUnit)}
+                            placeholder="1"
+                            {...field}
+                            onChange={(e) => field.onChange(parseFloat(e.target.value) || 0)}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="unitId"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Unit</FormLabel>
+                        <Select
+                          value={field.value?.toString() ?? "none"}
+                          onValueChange={(value) => field.onChange(value === "none" ? undefined : parseInt(value))}
+                          disabled={otherLocations.length > 0}
+                        >
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value="none">Pieces</SelectItem>
+                            {units.map((unit) => (
+                              <SelectItem key={unit.id} value={unit.id.toString()}>
+                                {unit.name} ({unit.symbol})
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
+                <FormField
+                  control={form.control}
+                  name="partId"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Part</FormLabel>
+                      <Select
+                        value={field.value?.toString() ?? "none"}
+                        onValueChange={(value) => {
+                          const part = parts.find(p => p.id.toString() === value);
+                          field.onChange(part?.id);
+                          if (part && part.locations.some(location => location.itemId !== editingItem?.id)) {
+                            form.setValue("unitId", part.unitId ?? undefined);
+                          }
+                        }}
+                      >
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="none">Not a shared part</SelectItem>
+                          {parts.map((part) => (
+                            <SelectItem key={part.id} value={part.id.toString()}>
+                              {part.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      {otherLocations.length > 0 && (
+                        <FormDescription>
+                          Also in {otherLocations.map(location => location.locationPath).join("; ")}
+                        </FormDescription>
+                      )}
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                {selectedPart ? (
+                  <p className="text-sm text-slate-500">
+                    Low quantity alerts use the total of {selectedPart.name} across its locations; set the threshold under Manage Parts.
+                  </p>
+                ) : (
+                  <FormField
+                    control={form.control}
+                    name="lowQuantityThreshold"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Low Quantity Alert</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="number"
+                            min="0"
+                            step={quantityStep(selectedUnit)}
+                            placeholder="Set warning threshold (optional)"
+                            {...field}
+                            onChange={(e) => field.onChange(e.target.value ? parseFloat(e.target.value) : undefined)}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                )}
+
+                <div className="grid grid-cols-2 gap-3">
+                  <FormField
+                    control={form.control}
+                    name="rowSpan"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Rows Covered</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="number"
+                            min="1"
+                            {...field}
+                            onChange={(e) => field.onChange(parseInt(e.target.value) || 1)}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="columnSpan"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Columns Covered</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="number"
+                            min="1"
+                            {...field}
+                            onChange={(e) => field.onChange(parseInt(e.target.value) || 1)}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
+                <FormField
+                  control={form.control}
+                  name="manufacturerPartNumber"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Manufacturer Part Number</FormLabel>
+                      <FormControl>
+                        <Input placeholder="e.g., RC0805FR-0710KL" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <div className="grid grid-cols-2 gap-3">
+                  <FormField
+                    control={form.control}
+                    name="supplierId"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Supplier</FormLabel>
+                        <Select
+                          value={field.value?.toString() || "none"}
+                          onValueChange={(value) => field.onChange(value === "none" ? undefined : parseInt(value))}
+                        >
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue placeholder="Select supplier" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value="none">None</SelectItem>
+                            {suppliers.map((supplier) => (
+                              <SelectItem key={supplier.id} value={supplier.id.toString()}>
+                                {supplier.name}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="supplierSku"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Supplier SKU</FormLabel>
+                        <FormControl>
+                          <Input {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
+                <div className="grid grid-cols-3 gap-3">
+                  <FormField
+                    control={form.control}
+                    name="unitPrice"
+                    render={({ field }) => (
+                      <FormItem className="col-span-2">
+                        <FormLabel>Unit Price</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="number"
+                            min="0"
+                            step="any"
+                            placeholder="Price per piece"
+                            value={field.value ?? ""}
+                            onChange={(e) => field.onChange(e.target.value === "" ? undefined : parseFloat(e.target.value))}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="currency"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Currency</FormLabel>
+                        <FormControl>
+                          <Input
+                            placeholder="EUR"
+                            maxLength={3}
+                            {...field}
+                            onChange={(e) => field.onChange(e.target.value.toUpperCase())}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
+                <FormField
+                  control={form.control}
+                  name="purchaseUrl"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Purchase Link</FormLabel>
+                      <FormControl>
+                        <Input placeholder="https://" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="information"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Information</FormLabel>
+                      <FormControl>
+                        <Textarea
+                          rows={3}
+                          placeholder="Additional notes or description"
+                          className="resize-none"
+                          {...field}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <div className="flex gap-3 pt-4">
+                  <Button
+                    type="button"
+                    variant="outline"
+                    className="flex-1"
+                    onClick={() => onOpenChange(false)}
+                  >
+                    Cancel
+                  </Button>
+                  
+                  {editingItem && editingItem.checkedOutTo && (
+                    <Button
+                      type="button"
+                      variant="outline"
+                      className="bg-orange-100 text-orange-700 hover:bg-orange-200"
+                      onClick={handleReturn}
+                      disabled={returnMutation.isPending}
+                    >
+                      Return
+                    </Button>
+                  )}
+                  
+                  {editingItem && hasRole(user, "editor") && (
+                    <Button
+                      type="button"
+                      variant="destructive"
+                      onClick={handleDelete}
+                      disabled={deleteMutation.isPending}
+                    >
+                      Delete
+                    </Button>
+                  )}
+                  
+                  <Button
+                    type="submit"
+                    className="flex-1 bg-blue-600 hover:bg-blue-700"
+                    disabled={form.formState.isSubmitting || createMutation.isPending || updateMutation.isPending}
                   >
-                    <FormControl>
-                      <SelectTrigger>
-                        <SelectValue placeholder="Select category" />
-                      </SelectTrigger>
-                    </FormControl>
-                    <SelectContent>
-                      {categories.map((category) => (
-                        <SelectItem key={category.id} value={category.id.toString()}>
-                          <div className="flex items-center gap-2">
-                            <div
-                              className="w-3 h-3 rounded"
-                              style={{ backgroundColor: category.color }}
-                            />
-                            {category.name}
-                          </div>
-                        </SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
-                  <FormMessage />
-                </FormItem>
-              )}
-            />
-
-            <FormField
-              control={form.control}
-              name="size"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel>Size</FormLabel>
-                  <Select value={field.value || ""} onValueChange={field.onChange}>
-                    <FormControl>
-                      <SelectTrigger>
-                        <SelectValue placeholder="Select size" />
-                      </SelectTrigger>
-                    </FormControl>
-                    <SelectContent>
-                      {sizeOptions.map((size) => (
-                        <SelectItem key={size.id} value={size.name}>
-                          {size.label}
-                        </SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
-                  <FormMessage />
-                </FormItem>
-              )}
-            />
-
-            <FormField
-              control={form.control}
-              name="quantity"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel>Quantity</FormLabel>
-                  <FormControl>
-                    <Input
-                      type="number"
-                      min="0"
-                      placeholder="1"
-                      {...field}
-                      onChange={(e) => field.onChange(parseInt(e.target.value) || 0)}
-                    />
-                  </FormControl>
-                  <FormMessage />
-                </FormItem>
-              )}
-            />
-
-            <FormField
-              control={form.control}
-              name="lowQuantityThreshold"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel>Low Quantity Alert</FormLabel>
-                  <FormControl>
-                    <Input
-                      type="number"
-                      min="0"
-                      placeholder="Set warning threshold (optional)"
-                      {...field}
-                      onChange={(e) => field.onChange(e.target.value ? parseInt(e.target.value) : undefined)}
-                    />
-                  </FormControl>
-                  <FormMessage />
-                </FormItem>
-              )}
-            />
-
-            <FormField
-              control={form.control}
-              name="checkedOutTo"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel>Checked Out To</FormLabel>
-                  <FormControl>
-                    <Input
-                      placeholder="Person's name (if checked out)"
-                      {...field}
-                    />
-                  </FormControl>
-                  <FormMessage />
-                </FormItem>
-              )}
-            />
-
-            <FormField
-              control={form.control}
-              name="information"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel>Information</FormLabel>
-                  <FormControl>
-                    <Textarea
-                      rows={3}
-                      placeholder="Additional notes or description"
-                      className="resize-none"
-                      {...field}
-                    />
-                  </FormControl>
-                  <FormMessage />
-                </FormItem>
-              )}
-            />
-
-            <div className="flex gap-3 pt-4">
-              <Button
-                type="button"
-                variant="outline"
-                className="flex-1"
-                onClick={() => onOpenChange(false)}
-              >
-                Cancel
-              </Button>
-              
-              {editingItem && editingItem.checkedOutTo && (
-                <Button
-                  type="button"
-                  variant="outline"
-                  className="bg-orange-100 text-orange-700 hover:bg-orange-200"
-                  onClick={handleReturn}
-                  disabled={updateMutation.isPending}
-                >
-                  Return
-                </Button>
-              )}
-              
-              {editingItem && (
-                <Button
-                  type="button"
-                  variant="destructive"
-                  onClick={handleDelete}
-                  disabled={deleteMutation.isPending}
-                >
-                  Delete
-                </Button>
-              )}
-              
-              <Button
-                type="submit"
-                className="flex-1 bg-blue-600 hover:bg-blue-700"
-                disabled={createMutation.isPending || updateMutation.isPending}
-              >
-                {editingItem ? "Update" : "Save"} Item
-              </Button>
-            </div>
-          </form>
-        </Form>
+                    {editingItem ? "Update" : "Save"} Item
+                  </Button>
+                </div>
+              </form>
+            </Form>
+          </TabsContent>
+
+          {editingItem && (
+            <TabsContent value="files">
+              <ItemAttachments item={editingItem} />
+            </TabsContent>
+          )}
+
+          {editingItem && (
+            <TabsContent value="lots">
+              <ItemLots item={editingItem} />
+            </TabsContent>
+          )}
+
+          {editingItem && (
+            <TabsContent value="loans">
+              <ItemCheckouts item={editingItem} />
+            </TabsContent>
+          )}
+
+          {editingItem && (
+            <TabsContent value="history">
+              <ItemHistory
+                item={editingItem}
+                onQuantityChange={(quantity) => form.setValue("quantity", quantity)}
+              />
+            </TabsContent>
+          )}
+        </Tabs>
       </DialogContent>
     </Dialog>
   );
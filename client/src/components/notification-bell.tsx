@@ -0,0 +1,93 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { useLocation } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { apiRequest } from "@/lib/queryClient";
+import { Bell } from "lucide-react";
+import type { UserNotification } from "@shared/schema";
+
+export function NotificationBell() {
+  const [open, setOpen] = useState(false);
+  const [, setLocation] = useLocation();
+  const queryClient = useQueryClient();
+
+  const { data: notifications = [] } = useQuery<UserNotification[]>({
+    queryKey: ["/api/notifications"],
+    // New ones come from the server's checks, not from anything done in this tab
+    refetchInterval: 60 * 1000,
+  });
+
+  const markReadMutation = useMutation({
+    mutationFn: async (ids?: number[]) => {
+      await apiRequest("POST", "/api/notifications/read", { ids });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/notifications"] });
+    },
+  });
+
+  const unread = notifications.filter(notification => !notification.readAt);
+
+  const handleOpen = (notification: UserNotification) => {
+    if (!notification.readAt) markReadMutation.mutate([notification.id]);
+    setOpen(false);
+    if (notification.link) setLocation(notification.link);
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="sm" className="relative" title="Notifications">
+          <Bell className="w-5 h-5" />
+          {unread.length > 0 && (
+            <span className="absolute -top-1 -right-1 min-w-[1.25rem] h-5 px-1 rounded-full bg-red-600 text-white text-xs flex items-center justify-center">
+              {unread.length > 9 ? "9+" : unread.length}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80 p-0" align="start">
+        <div className="flex items-center justify-between px-4 py-2 border-b border-slate-200">
+          <span className="font-medium">Notifications</span>
+          {unread.length > 0 && (
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={() => markReadMutation.mutate(undefined)}
+              disabled={markReadMutation.isPending}
+            >
+              Mark all read
+            </Button>
+          )}
+        </div>
+        {notifications.length === 0 ? (
+          <div className="text-center py-8 text-sm text-slate-500">
+            <p>No notifications</p>
+            <p className="mt-1">Choose what to hear about in Notification Settings</p>
+          </div>
+        ) : (
+          <div className="max-h-96 overflow-y-auto divide-y divide-slate-100">
+            {notifications.map((notification) => (
+              <button
+                key={notification.id}
+                type="button"
+                onClick={() => handleOpen(notification)}
+                className={`w-full text-left px-4 py-3 hover:bg-slate-50 ${notification.readAt ? "" : "bg-blue-50"}`}
+              >
+                <p className={`text-sm text-slate-900 ${notification.readAt ? "" : "font-medium"}`}>
+                  {notification.title}
+                </p>
+                <p className="text-xs text-slate-500">{notification.body}</p>
+                <p className="text-xs text-slate-400 mt-1">
+                  {formatDistanceToNow(new Date(notification.createdAt), { addSuffix: true })}
+                </p>
+              </button>
+            ))}
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
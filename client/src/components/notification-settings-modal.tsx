@@ -0,0 +1,241 @@
+import { useEffect } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, apiErrorMessage } from "@/lib/queryClient";
+import { Send } from "lucide-react";
+import {
+  notificationChannels,
+  type InsertNotificationPreferences,
+  type NotificationChannel,
+} from "@shared/schema";
+
+type PreferencesResponse = InsertNotificationPreferences & { emailAvailable: boolean };
+
+const formSchema = z.object({
+  email: z.string().trim().email("Enter a valid email address").or(z.literal("")),
+  webhookUrl: z.string().trim().url("Webhook must be a URL").or(z.literal("")),
+  lowStockChannels: z.array(z.enum(notificationChannels)),
+  longLoanChannels: z.array(z.enum(notificationChannels)),
+  longLoanDays: z.number().int().min(1, "At least 1 day").max(365, "At most 365 days"),
+});
+
+type FormData = z.infer<typeof formSchema>;
+
+const channelLabels: Record<NotificationChannel, string> = {
+  inApp: "In app",
+  email: "Email",
+  webhook: "Webhook",
+};
+
+const rules: { name: "lowStockChannels" | "longLoanChannels"; label: string }[] = [
+  { name: "lowStockChannels", label: "Low stock" },
+  { name: "longLoanChannels", label: "Long loans" },
+];
+
+interface NotificationSettingsModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function NotificationSettingsModal({ open, onOpenChange }: NotificationSettingsModalProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: preferences } = useQuery<PreferencesResponse>({
+    queryKey: ["/api/notifications/preferences"],
+    enabled: open,
+  });
+
+  const form = useForm<FormData>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      email: "",
+      webhookUrl: "",
+      lowStockChannels: [],
+      longLoanChannels: [],
+      longLoanDays: 14,
+    },
+  });
+
+  useEffect(() => {
+    if (preferences && open) {
+      form.reset({
+        email: preferences.email || "",
+        webhookUrl: preferences.webhookUrl || "",
+        lowStockChannels: preferences.lowStockChannels ?? [],
+        longLoanChannels: preferences.longLoanChannels ?? [],
+        longLoanDays: preferences.longLoanDays ?? 14,
+      });
+    }
+  }, [preferences, open, form]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: FormData) => {
+      const response = await apiRequest("PUT", "/api/notifications/preferences", {
+        ...data,
+        email: data.email || null,
+        webhookUrl: data.webhookUrl || null,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/notifications/preferences"] });
+      toast({ title: "Notification settings saved" });
+    },
+    onError: (error) => {
+      toast({ title: "Failed to save notification settings", description: apiErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const testMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/notifications/test");
+      return response.json() as Promise<{ sent: NotificationChannel[]; failed: { channel: NotificationChannel; message: string }[] }>;
+    },
+    onSuccess: ({ sent, failed }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/notifications"] });
+      if (failed.length > 0) {
+        toast({
+          title: "Some test notifications failed",
+          description: failed.map(f => `${channelLabels[f.channel]}: ${f.message}`).join("\n"),
+          variant: "destructive",
+        });
+      } else {
+        toast({ title: "Test notification sent", description: sent.map(channel => channelLabels[channel]).join(", ") });
+      }
+    },
+    onError: (error) => {
+      toast({ title: "Failed to send test notification", description: apiErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const emailAvailable = preferences?.emailAvailable ?? false;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Notification Settings</DialogTitle>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit((data) => saveMutation.mutate(data))} className="space-y-4">
+            <div>
+              <h3 className="font-medium mb-2">Notify me about</h3>
+              <div className="grid grid-cols-4 gap-2 text-sm items-center">
+                <span />
+                {notificationChannels.map((channel) => (
+                  <span key={channel} className="text-slate-500 text-center">{channelLabels[channel]}</span>
+                ))}
+                {rules.map((rule) => (
+                  <FormField
+                    key={rule.name}
+                    control={form.control}
+                    name={rule.name}
+                    render={({ field }) => (
+                      <>
+                        <span className="text-slate-900">{rule.label}</span>
+                        {notificationChannels.map((channel) => (
+                          <div key={channel} className="flex justify-center">
+                            <Checkbox
+                              checked={field.value.includes(channel)}
+                              disabled={channel === "email" && !emailAvailable && !field.value.includes(channel)}
+                              onCheckedChange={(checked) => field.onChange(checked === true
+                                ? [...field.value, channel]
+                                : field.value.filter((c) => c !== channel))}
+                            />
+                          </div>
+                        ))}
+                      </>
+                    )}
+                  />
+                ))}
+              </div>
+              {!emailAvailable && (
+                <p className="text-xs text-slate-500 mt-2">Email isn't set up on the server</p>
+              )}
+            </div>
+
+            <FormField
+              control={form.control}
+              name="longLoanDays"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Long Loan After</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="number"
+                      min="1"
+                      max="365"
+                      {...field}
+                      onChange={(e) => field.onChange(parseInt(e.target.value) || 0)}
+                    />
+                  </FormControl>
+                  <FormDescription>Days an item can be checked out before you hear about it</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="email"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Email</FormLabel>
+                  <FormControl>
+                    <Input type="email" placeholder="you@example.com" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="webhookUrl"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Webhook URL</FormLabel>
+                  <FormControl>
+                    <Input placeholder="https://example.com/hooks/storage" {...field} />
+                  </FormControl>
+                  <FormDescription>Receives each notification as a JSON POST</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="flex gap-3 pt-4">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => testMutation.mutate()}
+                disabled={testMutation.isPending || form.formState.isDirty}
+                title={form.formState.isDirty ? "Save first to test these settings" : undefined}
+              >
+                <Send className="w-4 h-4 mr-2" />
+                Send Test
+              </Button>
+              <Button
+                type="submit"
+                className="flex-1 bg-blue-600 hover:bg-blue-700"
+                disabled={saveMutation.isPending}
+              >
+                Save
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,287 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Card, CardContent } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, apiErrorMessage } from "@/lib/queryClient";
+import { undoAction } from "@/lib/undo";
+import { Plus, Edit2, Trash2 } from "lucide-react";
+import { formatQuantity, isLowQuantity, quantityStep, type PartWithStock, type Unit } from "@shared/schema";
+
+const formSchema = z.object({
+  name: z.string().trim().min(1, "Name is required"),
+  lowQuantityThreshold: z.number().min(0).optional(),
+  notes: z.string(),
+});
+
+type FormData = z.infer<typeof formSchema>;
+
+const emptyForm: FormData = { name: "", lowQuantityThreshold: undefined, notes: "" };
+
+interface PartModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function PartModal({ open, onOpenChange }: PartModalProps) {
+  const [editingPart, setEditingPart] = useState<PartWithStock | null>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: parts = [] } = useQuery<PartWithStock[]>({
+    queryKey: ["/api/parts"],
+  });
+
+  const { data: units = [] } = useQuery<Unit[]>({
+    queryKey: ["/api/units"],
+  });
+
+  const unitOf = (part: PartWithStock) => units.find(unit => unit.id === part.unitId);
+
+  const form = useForm<FormData>({
+    resolver: zodResolver(formSchema),
+    defaultValues: emptyForm,
+  });
+
+  const toRequest = (data: FormData) => ({
+    name: data.name,
+    lowQuantityThreshold: data.lowQuantityThreshold ?? null,
+    notes: data.notes || null,
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async (data: FormData) => {
+      const response = await apiRequest("POST", "/api/parts", toRequest(data));
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/parts"] });
+      toast({ title: "Part created successfully", action: undoAction() });
+      form.reset(emptyForm);
+    },
+    onError: (error) => {
+      toast({ title: "Failed to create part", description: apiErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async (data: FormData) => {
+      const response = await apiRequest("PATCH", `/api/parts/${editingPart!.id}`, toRequest(data));
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/parts"] });
+      toast({ title: "Part updated successfully", action: undoAction() });
+      form.reset(emptyForm);
+      setEditingPart(null);
+    },
+    onError: (error) => {
+      toast({ title: "Failed to update part", description: apiErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/parts/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/parts"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/containers"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/items"] });
+      toast({ title: "Part deleted successfully", action: undoAction() });
+    },
+    onError: (error) => {
+      toast({ title: "Failed to delete part", description: apiErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const onSubmit = (data: FormData) => {
+    if (editingPart) {
+      updateMutation.mutate(data);
+    } else {
+      createMutation.mutate(data);
+    }
+  };
+
+  const handleEdit = (part: PartWithStock) => {
+    setEditingPart(part);
+    form.reset({
+      name: part.name,
+      lowQuantityThreshold: part.lowQuantityThreshold ?? undefined,
+      notes: part.notes || "",
+    });
+  };
+
+  const handleDelete = (part: PartWithStock) => {
+    const message = part.locations.length > 0
+      ? `Delete "${part.name}"? Its ${part.locations.length} items stay where they are.`
+      : `Delete "${part.name}"?`;
+    if (confirm(message)) {
+      deleteMutation.mutate(part.id);
+    }
+  };
+
+  const handleCancel = () => {
+    setEditingPart(null);
+    form.reset(emptyForm);
+  };
+
+  const editingUnit = editingPart ? unitOf(editingPart) : undefined;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh]">
+        <DialogHeader>
+          <DialogTitle>Manage Parts</DialogTitle>
+        </DialogHeader>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          {/* Form */}
+          <div>
+            <h3 className="font-medium mb-4">
+              {editingPart ? "Edit Part" : "Add New Part"}
+            </h3>
+
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+                <FormField
+                  control={form.control}
+                  name="name"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>
+                        Name <span className="text-red-500">*</span>
+                      </FormLabel>
+                      <FormControl>
+                        <Input placeholder="e.g., M3x10 screw" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="lowQuantityThreshold"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Low Quantity Alert</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          min="0"
+                          step={quantityStep(editingUnit)}
+                          placeholder="Set warning threshold (optional)"
+                          {...field}
+                          value={field.value ?? ""}
+                          onChange={(e) => field.onChange(e.target.value ? parseFloat(e.target.value) : undefined)}
+                        />
+                      </FormControl>
+                      <FormDescription>
+                        Compared with the total across all locations{editingUnit && `, in ${editingUnit.symbol}`}
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="notes"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Notes</FormLabel>
+                      <FormControl>
+                        <Textarea
+                          rows={3}
+                          placeholder="Where to order, substitutes, ..."
+                          className="resize-none"
+                          {...field}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <div className="flex gap-3 pt-4">
+                  {editingPart && (
+                    <Button type="button" variant="outline" onClick={handleCancel}>
+                      Cancel
+                    </Button>
+                  )}
+                  <Button
+                    type="submit"
+                    className="flex-1 bg-blue-600 hover:bg-blue-700"
+                    disabled={createMutation.isPending || updateMutation.isPending}
+                  >
+                    <Plus className="w-4 h-4 mr-2" />
+                    {editingPart ? "Update" : "Add"} Part
+                  </Button>
+                </div>
+              </form>
+            </Form>
+          </div>
+
+          {/* Parts List */}
+          <div>
+            <h3 className="font-medium mb-4">Existing Parts</h3>
+            <ScrollArea className="h-96">
+              <div className="space-y-2">
+                {parts.map((part) => {
+                  const low = isLowQuantity(
+                    { quantity: part.totalQuantity, lowQuantityThreshold: part.lowQuantityThreshold },
+                    unitOf(part),
+                  );
+                  return (
+                    <Card key={part.id}>
+                      <CardContent className="p-3">
+                        <div className="flex items-center justify-between gap-2">
+                          <div className="min-w-0">
+                            <span className="font-medium">{part.name}</span>
+                            <p className={`text-sm ${low ? "text-red-600" : "text-slate-500"}`}>
+                              {formatQuantity(part.totalQuantity, unitOf(part))} in {part.locations.length}{" "}
+                              {part.locations.length === 1 ? "location" : "locations"}
+                            </p>
+                          </div>
+                          <div className="flex gap-1">
+                            <Button size="sm" variant="ghost" onClick={() => handleEdit(part)}>
+                              <Edit2 className="w-3 h-3" />
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              onClick={() => handleDelete(part)}
+                              disabled={deleteMutation.isPending}
+                            >
+                              <Trash2 className="w-3 h-3" />
+                            </Button>
+                          </div>
+                        </div>
+                      </CardContent>
+                    </Card>
+                  );
+                })}
+
+                {parts.length === 0 && (
+                  <div className="text-center py-8 text-slate-500">
+                    <p>No parts yet</p>
+                    <p className="text-sm mt-1">Add a part to add up the same stock kept in several places</p>
+                  </div>
+                )}
+              </div>
+            </ScrollArea>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
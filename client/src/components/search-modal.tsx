@@ -8,9 +8,25 @@ import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Search, X, MapPin } from "lucide-react";
 import { Icon } from "@/components/icon";
-import type { ItemSearchResult, StorageContainer } from "@shared/schema";
+import { TagInput } from "@/components/tag-input";
+import { Highlight, searchTerms } from "@/components/highlight";
+import { formatQuantity, isLowQuantity, type ItemSearchResult, type PartWithStock, type StorageContainer, type StorageLocation, type FloorplanPlacement, type ResolvedCategory, type SizeOption, type Unit } from "@shared/schema";
+import { engineeringQuantities, formatEngineeringValue } from "@shared/engineering";
+import { thumbnailUrl } from "@/lib/photos";
+
+const searchFieldOptions = [
+  { field: "name", id: "search-name", label: "Name" },
+  { field: "information", id: "search-information", label: "Information" },
+  { field: "partNumber", id: "search-part-number", label: "Part Numbers" },
+  { field: "attachments", id: "search-attachments", label: "Attachment Names" },
+  { field: "category", id: "search-category", label: "Category" },
+  { field: "size", id: "search-size", label: "Size" },
+  { field: "container", id: "search-container", label: "Container" },
+  { field: "checkedOutTo", id: "search-checked-out-to", label: "Borrower" },
+];
 
 interface SearchModalProps {
   open: boolean;
@@ -21,25 +37,67 @@ interface SearchModalProps {
 export function SearchModal({ open, onOpenChange, onItemClick }: SearchModalProps) {
   const [searchQuery, setSearchQuery] = useState("");
   const [searchFields, setSearchFields] = useState<string[]>(["name"]);
+  const [searchTags, setSearchTags] = useState<string[]>([]);
+  // Includes the category's subcategories
+  const [searchCategory, setSearchCategory] = useState<number | null>(null);
+  const hasSearch = searchQuery.length > 0 || searchTags.length > 0 || searchCategory !== null;
+  const terms = searchTerms(searchQuery);
 
   const { data: searchResults = [], isLoading } = useQuery<ItemSearchResult[]>({
-    queryKey: ["/api/search", { q: searchQuery, fields: searchFields.join(',') }],
-    enabled: searchQuery.length > 0,
+    queryKey: ["/api/search", { q: searchQuery, fields: searchFields.join(','), tags: searchTags.join(','), category: searchCategory }],
+    enabled: hasSearch,
     queryFn: async () => {
       const params = new URLSearchParams({
         q: searchQuery,
-        fields: searchFields.join(',')
+        fields: searchFields.join(','),
+        tags: searchTags.join(',')
       });
+      if (searchCategory !== null) params.set("category", searchCategory.toString());
       const response = await fetch(`/api/search?${params}`);
       if (!response.ok) throw new Error("Search failed");
       return response.json();
     },
   });
 
+  const { data: categories = [] } = useQuery<ResolvedCategory[]>({
+    queryKey: ["/api/categories"],
+  });
+
+  const { data: units = [] } = useQuery<Unit[]>({
+    queryKey: ["/api/units"],
+  });
+
+  const { data: parts = [] } = useQuery<PartWithStock[]>({
+    queryKey: ["/api/parts"],
+  });
+
+  const { data: sizeOptions = [] } = useQuery<SizeOption[]>({
+    queryKey: ["/api/size-options"],
+  });
+
+  // The locations of a part come back together and show as one result, best matches first
+  const resultGroups: ItemSearchResult[][] = [];
+  for (const item of searchResults) {
+    const group = item.partId ? resultGroups.find(([first]) => first.partId === item.partId) : undefined;
+    if (group) {
+      group.push(item);
+    } else {
+      resultGroups.push([item]);
+    }
+  }
+
   const { data: containers = [] } = useQuery<StorageContainer[]>({
     queryKey: ["/api/containers"],
   });
 
+  const { data: locations = [] } = useQuery<StorageLocation[]>({
+    queryKey: ["/api/locations"],
+  });
+
+  const { data: placements = [] } = useQuery<FloorplanPlacement[]>({
+    queryKey: ["/api/placements"],
+  });
+
   const handleFieldChange = (field: string, checked: boolean) => {
     if (checked) {
       setSearchFields([...searchFields, field]);
@@ -50,6 +108,8 @@ export function SearchModal({ open, onOpenChange, onItemClick }: SearchModalProp
 
   const handleClose = () => {
     setSearchQuery("");
+    setSearchTags([]);
+    setSearchCategory(null);
     onOpenChange(false);
   };
 
@@ -59,7 +119,7 @@ export function SearchModal({ open, onOpenChange, onItemClick }: SearchModalProp
   };
 
   const getContainerThumbnail = (item: ItemSearchResult) => {
-    const container = containers.find(c => c.name === item.containerName);
+    const container = containers.find(c => c.id === item.containerId);
     if (!container) return null;
 
     const gridConfig = container.gridConfig;
@@ -113,45 +173,34 @@ export function SearchModal({ open, onOpenChange, onItemClick }: SearchModalProp
   };
 
   const getFloorplanThumbnail = (item: ItemSearchResult) => {
-    // Load saved container positions
-    const savedPositions = localStorage.getItem('containerPositions');
-    let containerPositions: any[] = [];
-    
-    if (savedPositions) {
-      try {
-        containerPositions = JSON.parse(savedPositions);
-      } catch (e) {
-        containerPositions = [];
-      }
+    // Nested containers are shown where their outermost container is placed
+    let rootContainer = containers.find(c => c.id === item.containerId);
+    const visited = new Set<number>();
+    while (rootContainer?.parentContainerId && !visited.has(rootContainer.id)) {
+      visited.add(rootContainer.id);
+      rootContainer = containers.find(c => c.id === rootContainer!.parentContainerId) || rootContainer;
     }
 
-    const getContainerPosition = (containerId: number) => {
-      const existing = containerPositions.find(p => p.id === containerId);
-      if (existing) return { x: existing.x, y: existing.y };
-      
-      const index = containers.findIndex(c => c.id === containerId);
-      const cols = 4;
-      const spacing = 200;
-      return {
-        x: (index % cols) * spacing + 50,
-        y: Math.floor(index / cols) * spacing + 50
-      };
-    };
+    const placement = placements.find(p => p.containerId === rootContainer?.id);
+    if (!placement) return null;
+
+    const location = locations.find(l => l.id === placement.locationId);
+    const locationPlacements = placements.filter(p => p.locationId === placement.locationId);
 
     return (
       <div className="flex flex-col gap-0.5 p-2 bg-gray-50 rounded border">
-        <div className="text-xs font-medium text-gray-600 mb-1">Floorplan</div>
+        <div className="text-xs font-medium text-gray-600 mb-1">{location?.name || "Floorplan"}</div>
         <div 
           className="relative bg-white border rounded"
           style={{ width: '120px', height: '80px' }}
         >
-          {containers.map((container) => {
-            const position = getContainerPosition(container.id);
-            const isHighlighted = container.name === item.containerName;
+          {locationPlacements.map((position) => {
+            const container = containers.find(c => c.id === position.containerId);
+            const isHighlighted = position.containerId === rootContainer?.id;
             
             return (
               <div
-                key={container.id}
+                key={position.containerId}
                 className={`absolute w-4 h-3 rounded border ${
                   isHighlighted 
                     ? 'bg-blue-500 border-blue-600' 
@@ -161,7 +210,7 @@ export function SearchModal({ open, onOpenChange, onItemClick }: SearchModalProp
                   left: `${Math.min(95, (position.x / 1200) * 100)}%`,
                   top: `${Math.min(85, (position.y / 800) * 100)}%`,
                 }}
-                title={container.name}
+                title={container?.name}
               />
             );
           })}
@@ -182,7 +231,7 @@ export function SearchModal({ open, onOpenChange, onItemClick }: SearchModalProp
           <div className="relative">
             <Search className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
             <Input
-              placeholder="Search items..."
+              placeholder="Search items, or filter by value like R:1k..10k or C>=100n"
               value={searchQuery}
               onChange={(e) => setSearchQuery(e.target.value)}
               className="pl-10"
@@ -203,29 +252,46 @@ export function SearchModal({ open, onOpenChange, onItemClick }: SearchModalProp
           {/* Search Field Options */}
           <div className="border rounded-lg p-3">
             <Label className="text-sm font-medium mb-2 block">Search in:</Label>
+            <p className="text-xs text-gray-500 mb-2">
+              Value filters: {Object.entries(engineeringQuantities).map(([symbol, { label }]) => `${symbol} ${label.toLowerCase()}`).join(", ")}.
+              Use a range (R:1k..10k, either end may be left open) or a comparison (C&gt;=100n, V&lt;50).
+            </p>
             <div className="flex flex-wrap gap-4">
-              <div className="flex items-center space-x-2">
-                <Checkbox
-                  id="search-name"
-                  checked={searchFields.includes("name")}
-                  onCheckedChange={(checked) => handleFieldChange("name", checked as boolean)}
-                />
-                <Label htmlFor="search-name" className="text-sm">Name</Label>
-              </div>
-              <div className="flex items-center space-x-2">
-                <Checkbox
-                  id="search-information"
-                  checked={searchFields.includes("information")}
-                  onCheckedChange={(checked) => handleFieldChange("information", checked as boolean)}
-                />
-                <Label htmlFor="search-information" className="text-sm">Information</Label>
-              </div>
+              {searchFieldOptions.map(({ field, id, label }) => (
+                <div key={field} className="flex items-center space-x-2">
+                  <Checkbox
+                    id={id}
+                    checked={searchFields.includes(field)}
+                    onCheckedChange={(checked) => handleFieldChange(field, checked as boolean)}
+                  />
+                  <Label htmlFor={id} className="text-sm">{label}</Label>
+                </div>
+              ))}
             </div>
+            <Label className="text-sm font-medium mt-3 mb-2 block">With all of these tags:</Label>
+            <TagInput value={searchTags} onChange={setSearchTags} placeholder="Any tags" />
+            <Label className="text-sm font-medium mt-3 mb-2 block">In category:</Label>
+            <Select
+              value={searchCategory?.toString() ?? "any"}
+              onValueChange={(value) => setSearchCategory(value === "any" ? null : parseInt(value))}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="any">Any category</SelectItem>
+                {categories.map((category) => (
+                  <SelectItem key={category.id} value={category.id.toString()}>
+                    {category.path}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
           </div>
 
           {/* Search Results */}
           <div className="min-h-[200px]">
-            {searchQuery.length === 0 ? (
+            {!hasSearch ? (
               <div className="flex items-center justify-center h-32 text-gray-500">
                 Type to search for items...
               </div>
@@ -235,55 +301,115 @@ export function SearchModal({ open, onOpenChange, onItemClick }: SearchModalProp
               </div>
             ) : searchResults.length === 0 ? (
               <div className="flex items-center justify-center h-32 text-gray-500">
-                No items found for "{searchQuery}"
+                {searchQuery ? `No items found for "${searchQuery}"` : "No items match these filters"}
               </div>
             ) : (
               <ScrollArea className="h-[400px]">
                 <div className="space-y-2">
-                  {searchResults.map((item) => (
-                    <Card key={item.id} className="hover:bg-gray-50 cursor-pointer" onClick={() => handleItemClick(item)}>
-                      <CardContent className="p-4">
-                        <div className="flex items-start justify-between gap-4">
-                          <div className="flex-1">
-                            <div className="flex items-center gap-3 mb-2">
-                              {item.category?.icon && (
-                                <div
-                                  className="w-6 h-6 rounded flex items-center justify-center"
-                                  style={{ backgroundColor: item.category.color }}
-                                >
-                                  <Icon name={item.category.icon} size={12} className="text-white" />
-                                </div>
-                              )}
-                              <h3 className="font-medium">{item.name}</h3>
-                              {item.category && (
-                                <Badge variant="secondary" className="text-xs">
-                                  {item.category.name}
-                                </Badge>
-                              )}
+                  {resultGroups.map((group) => {
+                    const [item] = group;
+                    const part = parts.find(p => p.id === item.partId);
+                    const unit = units.find(u => u.id === item.unitId);
+                    const sizeLabel = sizeOptions.find(s => s.name === item.size)?.label || item.size;
+                    return (
+                      <Card key={item.id} className="hover:bg-gray-50 cursor-pointer" onClick={() => handleItemClick(item)}>
+                        <CardContent className="p-4">
+                          <div className="flex items-start justify-between gap-4">
+                            <div className="flex-1">
+                              <div className="flex items-center gap-3 mb-2">
+                                {item.category?.icon && (
+                                  <div
+                                    className="w-6 h-6 rounded flex items-center justify-center"
+                                    style={{ backgroundColor: item.category.color }}
+                                  >
+                                    <Icon name={item.category.icon} size={12} className="text-white" />
+                                  </div>
+                                )}
+                                <h3 className="font-medium"><Highlight text={part ? part.name : item.name} terms={terms} /></h3>
+                                {item.category && (
+                                  <Badge variant="secondary" className="text-xs">
+                                    <Highlight text={item.category.path} terms={terms} />
+                                  </Badge>
+                                )}
+                                {item.tags?.map(tag => (
+                                  <Badge key={tag} variant="outline" className="text-xs">
+                                    {tag}
+                                  </Badge>
+                                ))}
+                              </div>
+                              
+                              <div className="text-sm text-gray-600 space-y-1">
+                                {part ? (
+                                  <>
+                                    {group.map(location => (
+                                      <button
+                                        key={location.id}
+                                        type="button"
+                                        className="w-full flex items-center gap-2 text-left rounded px-1 -mx-1 hover:bg-gray-100"
+                                        onClick={(e) => {
+                                          e.stopPropagation();
+                                          handleItemClick(location);
+                                        }}
+                                      >
+                                        <MapPin size={14} className="shrink-0" />
+                                        <span className="truncate flex-1">
+                                          <Highlight text={location.locationPath || location.containerName} terms={terms} />
+                                        </span>
+                                        {location.quantity !== null && (
+                                          <span className="shrink-0">{formatQuantity(location.quantity, unit)}</span>
+                                        )}
+                                      </button>
+                                    ))}
+                                    <p className={isLowQuantity({ quantity: part.totalQuantity, lowQuantityThreshold: part.lowQuantityThreshold }, unit) ? "text-red-600" : undefined}>
+                                      <strong>Total:</strong> {formatQuantity(part.totalQuantity, unit)} in {group.length} {group.length === 1 ? "location" : "locations"}
+                                    </p>
+                                  </>
+                                ) : (
+                                  <>
+                                    <div className="flex items-center gap-2">
+                                      <MapPin size={14} />
+                                      <span><strong>Position:</strong> Row {(item.position?.row || 0) + 1}, Column {(item.position?.column || 0) + 1}</span>
+                                    </div>
+                                    <p><strong>Location:</strong> <Highlight text={item.locationPath || item.containerName} terms={terms} /></p>
+                                  </>
+                                )}
+                                {sizeLabel && <p><strong>Size:</strong> <Highlight text={sizeLabel} terms={terms} /></p>}
+                                {item.manufacturerPartNumber && <p><strong>Part Number:</strong> <Highlight text={item.manufacturerPartNumber} terms={terms} /></p>}
+                                {Object.values(engineeringQuantities).some(({ column }) => item[column] !== null) && (
+                                  <p>
+                                    <strong>Values:</strong>{" "}
+                                    {Object.values(engineeringQuantities)
+                                      .filter(({ column }) => item[column] !== null)
+                                      .map(({ column, unit }) => formatEngineeringValue(item[column]!, unit))
+                                      .join(", ")}
+                                  </p>
+                                )}
+                                {!part && item.quantity !== null && <p><strong>Quantity:</strong> {formatQuantity(item.quantity, unit)}</p>}
+                                {item.checkedOutTo && (
+                                  <p><strong>Checked out to:</strong> <Highlight text={item.checkedOutTo} terms={terms} /></p>
+                                )}
+                                {item.information && (
+                                  <p><strong>Info:</strong> <Highlight text={item.information} terms={terms} /></p>
+                                )}
+                              </div>
                             </div>
                             
-                            <div className="text-sm text-gray-600 space-y-1">
-                              <div className="flex items-center gap-2">
-                                <MapPin size={14} />
-                                <span><strong>Position:</strong> Row {(item.position?.row || 0) + 1}, Column {(item.position?.column || 0) + 1}</span>
-                              </div>
-                              <p><strong>Container:</strong> {item.containerName}</p>
-                              {item.size && <p><strong>Size:</strong> {item.size}</p>}
-                              {item.quantity !== null && <p><strong>Quantity:</strong> {item.quantity}</p>}
-                              {item.information && (
-                                <p><strong>Info:</strong> {item.information}</p>
+                            <div className="flex-shrink-0 flex gap-2">
+                              {item.photo && (
+                                <img
+                                  src={thumbnailUrl(item.photo)}
+                                  alt={item.name}
+                                  className="w-24 h-24 rounded border object-cover"
+                                />
                               )}
+                              {getContainerThumbnail(item)}
+                              {getFloorplanThumbnail(item)}
                             </div>
                           </div>
-                          
-                          <div className="flex-shrink-0 flex gap-2">
-                            {getContainerThumbnail(item)}
-                            {getFloorplanThumbnail(item)}
-                          </div>
-                        </div>
-                      </CardContent>
-                    </Card>
-                  ))}
+                        </CardContent>
+                      </Card>
+                    );
+                  })}
                 </div>
               </ScrollArea>
             )}
@@ -11,6 +11,7 @@ import { ScrollArea } from "@/components/ui/scroll-area";
 import { Card, CardContent } from "@/components/ui/card";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
+import { undoAction } from "@/lib/undo";
 import { Plus, Edit2, Trash2, ArrowUp, ArrowDown, GripVertical } from "lucide-react";
 import type { SizeOption } from "@shared/schema";
 
@@ -54,7 +55,7 @@ export function SizeModal({ open, onOpenChange }: SizeModalProps) {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/size-options"] });
-      toast({ title: "Size option created successfully" });
+      toast({ title: "Size option created successfully", action: undoAction() });
       form.reset();
       setEditingSizeOption(null);
     },
@@ -70,7 +71,7 @@ export function SizeModal({ open, onOpenChange }: SizeModalProps) {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/size-options"] });
-      toast({ title: "Size option updated successfully" });
+      toast({ title: "Size option updated successfully", action: undoAction() });
       form.reset();
       setEditingSizeOption(null);
     },
@@ -85,7 +86,7 @@ export function SizeModal({ open, onOpenChange }: SizeModalProps) {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/size-options"] });
-      toast({ title: "Size option deleted successfully" });
+      toast({ title: "Size option deleted successfully", action: undoAction() });
     },
     onError: () => {
       toast({ title: "Failed to delete size option", variant: "destructive" });
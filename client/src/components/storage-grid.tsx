@@ -1,21 +1,56 @@
-import { useState } from "react";
+import { useState, Fragment } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
 import { Button } from "@/components/ui/button";
-import { Settings, Plus } from "lucide-react";
-import type { StorageContainer, ItemWithCategory } from "@shared/schema";
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbPage,
+  BreadcrumbSeparator,
+} from "@/components/ui/breadcrumb";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Settings, Plus, Package, ChevronRight, GripVertical, Tag, Boxes } from "lucide-react";
+import {
+  coversCell,
+  expiryStatus,
+  footprintError,
+  footprintsConflict,
+  formatQuantity,
+  isLowQuantity,
+  type StorageContainer,
+  type ItemWithCategory,
+  type PartWithStock,
+  type TagWithCount,
+  type Unit,
+} from "@shared/schema";
 import { Icon } from "@/components/icon";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest } from "@/lib/queryClient";
+import { apiRequest, apiErrorMessage } from "@/lib/queryClient";
+import { undoAction } from "@/lib/undo";
+import { thumbnailUrl } from "@/lib/photos";
 
 interface StorageGridProps {
   container: StorageContainer;
   onAddItem: (row: number, column: number) => void;
   onEditItem: (item: ItemWithCategory) => void;
+  onOpenContainer: (containerId: number) => void;
 }
 
-export function StorageGrid({ container, onAddItem, onEditItem }: StorageGridProps) {
-  const [draggedItem, setDraggedItem] = useState<ItemWithCategory | null>(null);
+// What is being dragged: a single item, or everything in a cell
+interface DraggedItems {
+  items: ItemWithCategory[];
+  from: { row: number; column: number };
+}
+
+export function StorageGrid({ container, onAddItem, onEditItem, onOpenContainer }: StorageGridProps) {
+  const [dragged, setDragged] = useState<DraggedItems | null>(null);
   const [dragOverPosition, setDragOverPosition] = useState<{ row: number; column: number } | null>(null);
+  // Cells holding an item with this tag are outlined and the others faded
+  // "tag:<name>" or "part:<id>"
+  const [highlight, setHighlight] = useState<string | null>(null);
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
@@ -24,28 +59,97 @@ export function StorageGrid({ container, onAddItem, onEditItem }: StorageGridPro
     queryFn: () => fetch(`/api/containers/${container.id}/items`).then(res => res.json()),
   });
 
-  const moveItemMutation = useMutation({
-    mutationFn: async ({ itemId, newPosition }: { itemId: number; newPosition: { row: number; column: number } }) => {
-      const response = await apiRequest("PATCH", `/api/items/${itemId}`, {
-        position: newPosition,
+  const { data: containers = [] } = useQuery<StorageContainer[]>({
+    queryKey: ["/api/containers"],
+  });
+
+  const { data: tags = [] } = useQuery<TagWithCount[]>({
+    queryKey: ["/api/tags"],
+  });
+
+  const { data: units = [] } = useQuery<Unit[]>({
+    queryKey: ["/api/units"],
+  });
+
+  const { data: parts = [] } = useQuery<PartWithStock[]>({
+    queryKey: ["/api/parts"],
+  });
+
+  // Only parts kept in more than one place have anything to link to
+  const sharedParts = parts.filter(part => part.locations.length > 1);
+
+  // Outermost container first, ending with the one being shown
+  const ancestors: StorageContainer[] = [];
+  let ancestor = containers.find(c => c.id === container.parentContainerId);
+  while (ancestor && !ancestors.includes(ancestor) && ancestor.id !== container.id) {
+    ancestors.unshift(ancestor);
+    ancestor = containers.find(c => c.id === ancestor!.parentContainerId);
+  }
+
+  const moveItemsMutation = useMutation({
+    mutationFn: async ({ itemIds, position }: { itemIds: number[]; position: { row: number; column: number } }) => {
+      const response = await apiRequest("POST", "/api/items/move", {
+        itemIds,
+        containerId: container.id,
+        position,
       });
       return response.json();
     },
-    onSuccess: () => {
+    onSuccess: (_, { itemIds }) => {
       queryClient.invalidateQueries({ queryKey: ["/api/containers", container.id, "items"] });
-      toast({ title: "Item moved successfully" });
+      toast({
+        title: itemIds.length === 1 ? "Item moved successfully" : `${itemIds.length} items moved successfully`,
+        action: undoAction(),
+      });
     },
-    onError: () => {
-      toast({ title: "Failed to move item", variant: "destructive" });
+    onError: (error) => {
+      toast({ title: "Failed to move items", description: apiErrorMessage(error), variant: "destructive" });
     },
   });
 
-  const getItemAtPosition = (row: number, column: number) => {
-    return items.find(item => 
+  const getItemsAtPosition = (row: number, column: number) => {
+    return items.filter(item =>
       item.position?.row === row && item.position?.column === column
     );
   };
 
+  const isHighlighted = (item: ItemWithCategory) =>
+    highlight === `part:${item.partId}` || !!item.tags?.some(tag => highlight === `tag:${tag}`);
+
+  const unitOf = (item: ItemWithCategory) => units.find(unit => unit.id === item.unitId);
+
+  const partOf = (item: ItemWithCategory) => parts.find(part => part.id === item.partId);
+
+  // Items of a part are low when the part's total is
+  const isLow = (item: ItemWithCategory) => {
+    const part = partOf(item);
+    return part
+      ? isLowQuantity({ quantity: part.totalQuantity, lowQuantityThreshold: part.lowQuantityThreshold }, unitOf(item))
+      : isLowQuantity(item, unitOf(item));
+  };
+
+  const lowQuantityTitle = (item: ItemWithCategory) => {
+    const part = partOf(item);
+    return part
+      ? `${part.name} low quantity: ${formatQuantity(part.totalQuantity, unitOf(item))}/${formatQuantity(part.lowQuantityThreshold!, unitOf(item))} across ${part.locations.length} locations`
+      : `${item.name} low quantity: ${formatQuantity(item.quantity ?? 0, unitOf(item))}/${formatQuantity(item.lowQuantityThreshold!, unitOf(item))}`;
+  };
+
+  const expiryTitle = (item: ItemWithCategory) =>
+    `${item.name} ${expiryStatus(item.nextExpiry) === "expired" ? "expired" : "expires"} ${format(new Date(item.nextExpiry!), "MMM d, yyyy")}`;
+
+  const showPartLocations = (part: PartWithStock, containerId: number) => {
+    setHighlight(`part:${part.id}`);
+    if (containerId !== container.id) onOpenContainer(containerId);
+  };
+
+  const getChildContainerAtPosition = (row: number, column: number) => {
+    return containers.find(c =>
+      c.parentContainerId === container.id &&
+      c.parentPosition?.row === row && c.parentPosition?.column === column
+    );
+  };
+
   const getSizeDisplay = (size: string | null) => {
     if (!size) return "";
     const sizeMap: Record<string, string> = {
@@ -58,8 +162,10 @@ export function StorageGrid({ container, onAddItem, onEditItem }: StorageGridPro
     return sizeMap[size] || size;
   };
 
-  const handleDragStart = (e: React.DragEvent, item: ItemWithCategory) => {
-    setDraggedItem(item);
+  const handleDragStart = (e: React.DragEvent, draggedItems: ItemWithCategory[], from: { row: number; column: number }) => {
+    // Items listed in a cell's popover sit inside the cell, which would otherwise drag everything
+    e.stopPropagation();
+    setDragged({ items: draggedItems, from });
     e.dataTransfer.effectAllowed = 'move';
   };
 
@@ -77,132 +183,386 @@ export function StorageGrid({ container, onAddItem, onEditItem }: StorageGridPro
     e.preventDefault();
     setDragOverPosition(null);
 
-    if (!draggedItem) return;
+    if (!dragged) return;
+
+    if (getChildContainerAtPosition(targetRow, targetColumn)) {
+      toast({ title: "That cell holds a container", variant: "destructive" });
+      setDragged(null);
+      return;
+    }
 
-    const existingItem = getItemAtPosition(targetRow, targetColumn);
-    
-    if (draggedItem.position?.row === targetRow && draggedItem.position?.column === targetColumn) {
-      setDraggedItem(null);
+    if (dragged.from.row === targetRow && dragged.from.column === targetColumn) {
+      setDragged(null);
       return;
     }
 
-    // If there's an existing item, swap positions
-    if (existingItem && existingItem.id !== draggedItem.id) {
-      try {
-        // Move existing item to dragged item's position
-        await apiRequest("PATCH", `/api/items/${existingItem.id}`, {
-          position: { row: draggedItem.position?.row, column: draggedItem.position?.column },
-        });
-
-        // Move dragged item to target position
-        await apiRequest("PATCH", `/api/items/${draggedItem.id}`, {
-          position: { row: targetRow, column: targetColumn },
-        });
-
-        queryClient.invalidateQueries({ queryKey: ["/api/containers", container.id, "items"] });
-        toast({ title: "Items swapped successfully" });
-      } catch (error) {
-        toast({ title: "Failed to swap items", variant: "destructive" });
+    // Items spanning several cells need every cell they'd cover to be free and inside the row
+    const draggedIds = dragged.items.map(item => item.id);
+    for (const item of dragged.items) {
+      const footprint = { ...item, position: { row: targetRow, column: targetColumn } };
+      const error = footprintError(container.gridConfig, footprint) ||
+        (containers.some(c => c.parentContainerId === container.id && c.parentPosition && coversCell(footprint, c.parentPosition))
+          ? "That cell holds a container" : null) ||
+        (items.some(other => !draggedIds.includes(other.id) && footprintsConflict(footprint, other))
+          ? "That cell is already occupied" : null);
+      if (error) {
+        toast({ title: `Can't move ${item.name} there`, description: error, variant: "destructive" });
+        setDragged(null);
+        return;
       }
-    } else {
-      // Move to empty position
-      moveItemMutation.mutate({
-        itemId: draggedItem.id,
-        newPosition: { row: targetRow, column: targetColumn },
-      });
     }
 
-    setDraggedItem(null);
+    // Dropped items join whatever the target cell already holds
+    moveItemsMutation.mutate({
+      itemIds: dragged.items.map(item => item.id),
+      position: { row: targetRow, column: targetColumn },
+    });
+
+    setDragged(null);
   };
 
+  // Adjacent rows with the same number of columns share one CSS grid, so items can span down across them
+  const bands: Array<{ start: number; rows: number[]; columns: number; isDivider?: boolean }> = [];
+  container.gridConfig.rows.forEach((rowConfig, rowIndex) => {
+    const last = bands[bands.length - 1];
+    if (!rowConfig.isDivider && last && !last.isDivider && last.columns === rowConfig.columns) {
+      last.rows.push(rowIndex);
+    } else {
+      bands.push({ start: rowIndex, rows: [rowIndex], columns: rowConfig.columns, isDivider: rowConfig.isDivider });
+    }
+  });
+
   return (
     <div className="flex-1 flex flex-col">
       {/* Header Bar */}
       <div className="bg-white border-b border-slate-200 p-6">
         <div className="flex items-center justify-between">
           <div>
+            {ancestors.length > 0 && (
+              <Breadcrumb className="mb-1">
+                <BreadcrumbList>
+                  {ancestors.map((parent) => (
+                    <Fragment key={parent.id}>
+                      <BreadcrumbItem>
+                        <BreadcrumbLink
+                          className="cursor-pointer"
+                          onClick={() => onOpenContainer(parent.id)}
+                        >
+                          {parent.name}
+                        </BreadcrumbLink>
+                      </BreadcrumbItem>
+                      <BreadcrumbSeparator />
+                    </Fragment>
+                  ))}
+                  <BreadcrumbItem>
+                    <BreadcrumbPage>{container.name}</BreadcrumbPage>
+                  </BreadcrumbItem>
+                </BreadcrumbList>
+              </Breadcrumb>
+            )}
             <h2 className="text-xl font-semibold text-slate-900">{container.name}</h2>
           </div>
 
+          {(tags.length > 0 || sharedParts.length > 0) && (
+            <Select
+              value={highlight ?? "none"}
+              onValueChange={(value) => setHighlight(value === "none" ? null : value)}
+            >
+              <SelectTrigger className="w-56">
+                <Tag className="w-4 h-4 mr-2 text-slate-500" />
+                <SelectValue placeholder="Highlight" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">No highlight</SelectItem>
+                {tags.length > 0 && (
+                  <SelectGroup>
+                    <SelectLabel>Tags</SelectLabel>
+                    {tags.map((tag) => (
+                      <SelectItem key={tag.id} value={`tag:${tag.name}`}>
+                        {tag.name} ({tag.itemCount})
+                      </SelectItem>
+                    ))}
+                  </SelectGroup>
+                )}
+                {sharedParts.length > 0 && (
+                  <SelectGroup>
+                    <SelectLabel>Parts</SelectLabel>
+                    {sharedParts.map((part) => (
+                      <SelectItem key={part.id} value={`part:${part.id}`}>
+                        {part.name} ({part.locations.length} locations)
+                      </SelectItem>
+                    ))}
+                  </SelectGroup>
+                )}
+              </SelectContent>
+            </Select>
+          )}
         </div>
       </div>
 
       {/* Grid View */}
       <div className="flex-1 overflow-auto p-6">
         <div className="max-w-6xl mx-auto">
-          {container.gridConfig.rows.map((rowConfig, rowIndex) => {
-            if (rowConfig.isDivider) {
+          {bands.map((band) => {
+            if (band.isDivider) {
               return (
-                <div key={`divider-${rowIndex}`} className="my-6">
+                <div key={`divider-${band.start}`} className="my-6">
                   <div className="h-0.5 bg-gradient-to-r from-transparent via-slate-300 to-transparent" />
                 </div>
               );
             }
 
             return (
-              <div key={`row-${rowIndex}`} className="mb-2">
+              <div key={`row-${band.start}`} className="mb-2">
                 <div 
-                  className="grid gap-1"
+                  className="grid gap-x-1 gap-y-2"
                   style={{ 
-                    gridTemplateColumns: `repeat(${rowConfig.columns}, minmax(0, 1fr))` 
+                    gridTemplateColumns: `repeat(${band.columns}, minmax(0, 1fr))` 
                   }}
                 >
-                  {Array.from({ length: rowConfig.columns }, (_, columnIndex) => {
-                    const item = getItemAtPosition(rowIndex, columnIndex);
-                    
-                    if (item) {
+                  {band.rows.flatMap((rowIndex) => Array.from({ length: band.columns }, (_, columnIndex) => {
+                    const cellItems = getItemsAtPosition(rowIndex, columnIndex);
+                    const childContainer = getChildContainerAtPosition(rowIndex, columnIndex);
+                    const cellStyle = {
+                      gridRow: `${rowIndex - band.start + 1}`,
+                      gridColumn: `${columnIndex + 1}`,
+                    };
+
+                    // Drawn by the item spanning into this cell from above or the left
+                    if (cellItems.length === 0 && items.some(item => coversCell(item, { row: rowIndex, column: columnIndex }))) {
+                      return null;
+                    }
+
+                    if (childContainer) {
                       return (
                         <div
                           key={`${rowIndex}-${columnIndex}`}
-                          className={`storage-box p-1 cursor-pointer relative min-h-[80px] transform transition-all duration-200 hover:-translate-y-0.5 hover:shadow-lg ${
-                            draggedItem?.id === item.id ? 'opacity-50 scale-95' : ''
+                          style={cellStyle}
+                          className="border-2 border-slate-400 bg-slate-100 p-2 cursor-pointer relative min-h-[80px] flex flex-col items-center justify-center hover:border-blue-600 hover:bg-blue-50 transition-all duration-200"
+                          onClick={() => onOpenContainer(childContainer.id)}
+                          onDragOver={(e) => e.preventDefault()}
+                          onDrop={(e) => handleDrop(e, rowIndex, columnIndex)}
+                          title={`Open ${childContainer.name}`}
+                        >
+                          <Package className="w-6 h-6 text-slate-500 mb-1" />
+                          <p className="text-slate-700 text-xs font-medium text-center line-clamp-2 leading-tight">
+                            {childContainer.name}
+                          </p>
+                          <ChevronRight className="absolute top-1 right-1 w-3 h-3 text-slate-400" />
+                        </div>
+                      );
+                    }
+                    
+                    if (cellItems.length > 0) {
+                      const position = { row: rowIndex, column: columnIndex };
+                      const [first] = cellItems;
+                      const isStacked = cellItems.length > 1;
+                      const rowSpan = isStacked ? 1 : first.rowSpan;
+                      const columnSpan = isStacked ? 1 : first.columnSpan;
+                      const checkedOut = cellItems.filter(item => item.checkedOutTo);
+                      const lowQuantity = cellItems.filter(isLow);
+                      const expiring = cellItems.filter(item => expiryStatus(item.nextExpiry));
+                      const expired = expiring.some(item => expiryStatus(item.nextExpiry) === "expired");
+                      const highlighted = cellItems.some(isHighlighted);
+                      const cellParts = sharedParts.filter(part => cellItems.some(item => item.partId === part.id));
+
+                      const cell = (
+                        <div
+                          key={`${rowIndex}-${columnIndex}`}
+                          className={`storage-box group p-1 cursor-pointer relative min-h-[80px] transform transition-all duration-200 hover:-translate-y-0.5 hover:shadow-lg ${
+                            dragged?.from.row === rowIndex && dragged?.from.column === columnIndex ? 'opacity-50 scale-95' : ''
                           } ${
                             dragOverPosition?.row === rowIndex && dragOverPosition?.column === columnIndex ? 'ring-2 ring-blue-500' : ''
+                          } ${
+                            highlight ? (highlighted ? 'ring-4 ring-amber-400' : 'opacity-25') : ''
                           }`}
-                          style={{ backgroundColor: item.category?.color || "#64748b" }}
-                          onClick={() => onEditItem(item)}
+                          style={{
+                            gridRow: `${rowIndex - band.start + 1} / span ${rowSpan}`,
+                            gridColumn: `${columnIndex + 1} / span ${columnSpan}`,
+                            backgroundColor: first.category?.color || "#64748b",
+                            // Offset layers behind the box hint that the cell holds more than one item
+                            boxShadow: isStacked ? "3px 3px 0 -1px #fff, 4px 4px 0 -1px #94a3b8, 6px 6px 0 -2px #fff, 7px 7px 0 -2px #94a3b8" : undefined,
+                          }}
+                          onClick={isStacked ? undefined : () => onEditItem(first)}
                           draggable
-                          onDragStart={(e) => handleDragStart(e, item)}
+                          onDragStart={(e) => handleDragStart(e, cellItems, position)}
                           onDragOver={(e) => handleDragOver(e, rowIndex, columnIndex)}
                           onDragLeave={handleDragLeave}
                           onDrop={(e) => handleDrop(e, rowIndex, columnIndex)}
                         >
                           {/* Status indicators */}
                           <div className="absolute top-1 right-1 flex gap-1">
-                            {item.checkedOutTo && (
-                              <div className="w-3 h-3 bg-orange-500 rounded-full border border-white shadow-sm" title={`Checked out to: ${item.checkedOutTo}`} />
+                            {isStacked && (
+                              <div className="px-1.5 h-4 bg-white text-slate-700 text-[10px] font-semibold rounded-full shadow-sm flex items-center" title={`${cellItems.length} items in this cell`}>
+                                {cellItems.length}
+                              </div>
+                            )}
+                            {checkedOut.length > 0 && (
+                              <div className="w-3 h-3 bg-orange-500 rounded-full border border-white shadow-sm" title={checkedOut.map(item => `${item.name} checked out to: ${item.checkedOutTo}`).join("\n")} />
                             )}
-                            {item.lowQuantityThreshold && item.quantity !== null && item.quantity !== undefined && item.quantity <= item.lowQuantityThreshold && (
-                              <div className="w-3 h-3 bg-red-500 rounded-full border border-white shadow-sm" title={`Low quantity: ${item.quantity}/${item.lowQuantityThreshold}`} />
+                            {lowQuantity.length > 0 && (
+                              <div className="w-3 h-3 bg-red-500 rounded-full border border-white shadow-sm" title={lowQuantity.map(lowQuantityTitle).join("\n")} />
+                            )}
+                            {expiring.length > 0 && (
+                              <div className={`w-3 h-3 ${expired ? "bg-purple-800" : "bg-purple-500"} rounded-full border border-white shadow-sm`} title={expiring.map(expiryTitle).join("\n")} />
                             )}
                           </div>
 
-                          <div className="absolute top-1 left-1">
-                            <h4 className="font-medium text-white text-xs mb-0 line-clamp-2 leading-tight">
-                              {item.name}
-                            </h4>
-                            {item.size && (
-                              <p className="text-white text-opacity-80 text-xs leading-none">
-                                {getSizeDisplay(item.size)}
-                              </p>
+                          {cellParts.length > 0 && (
+                            <Popover>
+                              <PopoverTrigger asChild>
+                                <button
+                                  type="button"
+                                  className="absolute bottom-1 left-1 w-5 h-5 rounded-full bg-white text-slate-700 shadow-sm flex items-center justify-center z-10"
+                                  onClick={(e) => e.stopPropagation()}
+                                  title="Also stocked elsewhere"
+                                >
+                                  <Boxes className="w-3 h-3" />
+                                </button>
+                              </PopoverTrigger>
+                              <PopoverContent className="w-72 p-2" onClick={(e) => e.stopPropagation()}>
+                                {cellParts.map(part => (
+                                  <div key={part.id} className="mb-1 last:mb-0">
+                                    <p className="text-xs font-medium text-slate-500 px-1 mb-1">
+                                      {part.name} · {formatQuantity(part.totalQuantity, units.find(unit => unit.id === part.unitId))} in total
+                                    </p>
+                                    {part.locations.map(location => (
+                                      <button
+                                        key={location.itemId}
+                                        type="button"
+                                        className="w-full flex items-center justify-between gap-2 rounded px-1 py-1 text-left text-sm hover:bg-slate-100"
+                                        onClick={() => showPartLocations(part, location.containerId)}
+                                      >
+                                        <span className="truncate">{location.locationPath}</span>
+                                        <span className="text-xs text-slate-500 shrink-0">
+                                          ×{formatQuantity(location.quantity, units.find(unit => unit.id === part.unitId))}
+                                        </span>
+                                      </button>
+                                    ))}
+                                  </div>
+                                ))}
+                              </PopoverContent>
+                            </Popover>
+                          )}
+
+                          <div className="absolute top-1 left-1 right-8">
+                            {isStacked ? (
+                              cellItems.slice(0, 3).map(item => (
+                                <h4 key={item.id} className="font-medium text-white text-xs mb-0 truncate leading-tight">
+                                  {item.name}
+                                </h4>
+                              ))
+                            ) : (
+                              <>
+                                <h4 className="font-medium text-white text-xs mb-0 line-clamp-2 leading-tight">
+                                  {first.name}
+                                </h4>
+                                {first.size && (
+                                  <p className="text-white text-opacity-80 text-xs leading-none">
+                                    {getSizeDisplay(first.size)}
+                                  </p>
+                                )}
+                              </>
+                            )}
+                            {cellItems.length > 3 && (
+                              <p className="text-white text-opacity-80 text-xs leading-none">+{cellItems.length - 3} more</p>
                             )}
                           </div>
-                          {item.category?.icon && (
+                          {!isStacked && first.photo ? (
+                            <div className="absolute inset-x-1 bottom-1 top-8 flex items-end justify-center pointer-events-none">
+                              <img
+                                src={thumbnailUrl(first.photo)}
+                                alt=""
+                                draggable={false}
+                                className="max-h-full max-w-full rounded-sm object-cover shadow-sm"
+                              />
+                            </div>
+                          ) : first.category?.icon && (
                             <div className="absolute inset-0 flex items-end justify-center pb-2 opacity-50">
                               <Icon 
-                                name={item.category.icon}
+                                name={first.category.icon}
                                 size={48}
                                 className="text-white"
                               />
                             </div>
                           )}
+                          {!isStacked && (
+                            <button
+                              type="button"
+                              className="absolute bottom-1 right-1 w-5 h-5 rounded-full bg-white text-slate-700 shadow-sm flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity"
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                onAddItem(rowIndex, columnIndex);
+                              }}
+                              title="Add another item to this cell"
+                            >
+                              <Plus className="w-3 h-3" />
+                            </button>
+                          )}
                         </div>
                       );
+
+                      if (!isStacked) return cell;
+
+                      return (
+                        <Popover key={`${rowIndex}-${columnIndex}`}>
+                          <PopoverTrigger asChild>{cell}</PopoverTrigger>
+                          <PopoverContent className="w-64 p-2">
+                            <p className="text-xs font-medium text-slate-500 px-1 mb-1">
+                              Row {rowIndex + 1}, Column {columnIndex + 1} · {cellItems.length} items
+                            </p>
+                            <div className="space-y-1">
+                              {cellItems.map(item => (
+                                <div
+                                  key={item.id}
+                                  className="flex items-center gap-2 rounded px-1 py-1 cursor-pointer hover:bg-slate-100"
+                                  onClick={() => onEditItem(item)}
+                                  draggable
+                                  onDragStart={(e) => handleDragStart(e, [item], position)}
+                                  title="Click to edit, drag to move just this item"
+                                >
+                                  <GripVertical className="w-3 h-3 text-slate-400 shrink-0" />
+                                  {item.photo ? (
+                                    <img
+                                      src={thumbnailUrl(item.photo)}
+                                      alt=""
+                                      draggable={false}
+                                      className="w-6 h-6 rounded-sm object-cover shrink-0"
+                                    />
+                                  ) : (
+                                    <div
+                                      className="w-3 h-3 rounded-sm shrink-0"
+                                      style={{ backgroundColor: item.category?.color || "#64748b" }}
+                                    />
+                                  )}
+                                  <span className="text-sm text-slate-900 truncate flex-1">{item.name}</span>
+                                  {item.size && (
+                                    <span className="text-xs text-slate-500">{getSizeDisplay(item.size)}</span>
+                                  )}
+                                  {item.quantity !== null && item.quantity !== undefined && (
+                                    <span className={`text-xs ${isLow(item) ? 'text-red-600' : 'text-slate-500'}`}>×{formatQuantity(item.quantity, unitOf(item))}</span>
+                                  )}
+                                </div>
+                              ))}
+                            </div>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="w-full mt-1 justify-start"
+                              onClick={() => onAddItem(rowIndex, columnIndex)}
+                            >
+                              <Plus className="w-4 h-4 mr-2" />
+                              Add Item
+                            </Button>
+                          </PopoverContent>
+                        </Popover>
+                      );
                     }
 
                     return (
                       <div
                         key={`${rowIndex}-${columnIndex}`}
+                        style={cellStyle}
                         className={`border-2 border-dashed border-slate-300 p-3 cursor-pointer relative min-h-[80px] flex items-center justify-center hover:border-blue-600 hover:bg-blue-50 transition-all duration-200 ${
                           dragOverPosition?.row === rowIndex && dragOverPosition?.column === columnIndex ? 'border-blue-500 bg-blue-100' : ''
                         }`}
@@ -217,7 +577,7 @@ export function StorageGrid({ container, onAddItem, onEditItem }: StorageGridPro
                         </div>
                       </div>
                     );
-                  })}
+                  }))}
                 </div>
               </div>
             );
@@ -3,9 +3,11 @@ import { useQuery } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import { Plus, Search, Settings, ChevronRight, Download, Upload, Map } from "lucide-react";
+import { Plus, Search, Settings, ChevronRight, Download, Upload, Map, HandHelping, Users, LogOut, History, Trash2, Truck, Ruler, Boxes, ShoppingCart, Bell, Webhook } from "lucide-react";
 import { Link } from "wouter";
-import type { StorageContainer, ItemSearchResult } from "@shared/schema";
+import { useAuth } from "@/hooks/use-auth";
+import { NotificationBell } from "@/components/notification-bell";
+import { hasRole, type StorageContainer, type ItemSearchResult } from "@shared/schema";
 
 interface StorageSidebarProps {
   containers: StorageContainer[];
@@ -14,8 +16,13 @@ interface StorageSidebarProps {
   onAddContainer: () => void;
   onManageCategories: () => void;
   onManageSizes: () => void;
+  onManageSuppliers: () => void;
+  onManageUnits: () => void;
+  onManageParts: () => void;
   onSearch: () => void;
   onManageContainers: () => void;
+  onManageUsers: () => void;
+  onManageNotifications: () => void;
   onExport: () => void;
   onImport: () => void;
 }
@@ -27,17 +34,41 @@ export function StorageSidebar({
   onAddContainer,
   onManageCategories,
   onManageSizes,
+  onManageSuppliers,
+  onManageUnits,
+  onManageParts,
   onSearch,
   onManageContainers,
+  onManageUsers,
+  onManageNotifications,
   onExport,
   onImport,
 }: StorageSidebarProps) {
+  const { user, logoutMutation } = useAuth();
+
+  // Top-level containers, each followed by the containers nested inside it
+  const orderedContainers: Array<{ container: StorageContainer; depth: number }> = [];
+  const addContainers = (parentId: number | null, depth: number) => {
+    containers
+      .filter(c => parentId === null
+        ? !c.parentContainerId || !containers.some(p => p.id === c.parentContainerId)
+        : c.parentContainerId === parentId)
+      .forEach(container => {
+        if (orderedContainers.some(o => o.container.id === container.id)) return;
+        orderedContainers.push({ container, depth });
+        addContainers(container.id, depth + 1);
+      });
+  };
+  addContainers(null, 0);
 
   return (
     <div className="w-80 bg-white border-r border-slate-200 flex flex-col">
       {/* Header */}
       <div className="p-6 border-b border-slate-200">
-        <h1 className="text-2xl font-bold text-slate-900 mb-4">Storage Tracker</h1>
+        <div className="flex items-center justify-between mb-4">
+          <h1 className="text-2xl font-bold text-slate-900">Storage Tracker</h1>
+          <NotificationBell />
+        </div>
         <Button onClick={onAddContainer} className="w-full bg-blue-600 hover:bg-blue-700 mb-3">
           <Plus className="w-4 h-4 mr-2" />
           Add Storage Container
@@ -63,6 +94,62 @@ export function StorageSidebar({
               Container Floorplan
             </Button>
           </Link>
+
+          <Link href="/loans">
+            <Button 
+              variant="outline" 
+              className="w-full"
+            >
+              <HandHelping className="w-4 h-4 mr-2" />
+              Outstanding Loans
+            </Button>
+          </Link>
+
+          <Link href="/reorder">
+            <Button 
+              variant="outline" 
+              className="w-full"
+            >
+              <ShoppingCart className="w-4 h-4 mr-2" />
+              Reorder
+            </Button>
+          </Link>
+
+          {hasRole(user, "editor") && (
+            <Link href="/audit">
+              <Button 
+                variant="outline" 
+                className="w-full"
+              >
+                <History className="w-4 h-4 mr-2" />
+                Audit Log
+              </Button>
+            </Link>
+          )}
+
+          {hasRole(user, "editor") && (
+            <Link href="/trash">
+              <Button 
+                variant="outline" 
+                className="w-full"
+              >
+                <Trash2 className="w-4 h-4 mr-2" />
+                Trash
+              </Button>
+            </Link>
+          )}
+
+          {hasRole(user, "admin") && (
+            <Link href="/webhooks">
+              <Button 
+                variant="outline" 
+                className="w-full"
+              >
+                <Webhook className="w-4 h-4 mr-2" />
+                Webhooks
+              </Button>
+            </Link>
+          )}
           
           <Button 
             onClick={onManageContainers} 
@@ -83,7 +170,7 @@ export function StorageSidebar({
           </h3>
           
           <div className="space-y-2">
-            {containers.map((container) => {
+            {orderedContainers.map(({ container, depth }) => {
               const isSelected = container.id === selectedContainerId;
               const totalSlots = container.gridConfig.rows.reduce(
                 (sum, row) => sum + (row.isDivider ? 0 : row.columns), 
@@ -98,6 +185,7 @@ export function StorageSidebar({
                       ? "bg-blue-50 border-blue-200 hover:bg-blue-100"
                       : "bg-slate-50 border-transparent hover:bg-slate-100 hover:border-blue-200"
                   }`}
+                  style={{ marginLeft: depth * 16 }}
                   onClick={() => onContainerSelect(container.id)}
                 >
                   <div className="flex items-center justify-between">
@@ -141,6 +229,36 @@ export function StorageSidebar({
           <Settings className="w-4 h-4 mr-2" />
           Manage Sizes
         </Button>
+        {hasRole(user, "admin") && (
+          <Button
+            variant="ghost"
+            onClick={onManageUnits}
+            className="w-full justify-start text-slate-600 hover:text-slate-900"
+          >
+            <Ruler className="w-4 h-4 mr-2" />
+            Manage Units
+          </Button>
+        )}
+        {hasRole(user, "editor") && (
+          <Button
+            variant="ghost"
+            onClick={onManageSuppliers}
+            className="w-full justify-start text-slate-600 hover:text-slate-900"
+          >
+            <Truck className="w-4 h-4 mr-2" />
+            Manage Suppliers
+          </Button>
+        )}
+        {hasRole(user, "editor") && (
+          <Button
+            variant="ghost"
+            onClick={onManageParts}
+            className="w-full justify-start text-slate-600 hover:text-slate-900"
+          >
+            <Boxes className="w-4 h-4 mr-2" />
+            Manage Parts
+          </Button>
+        )}
         
         <div className="border-t border-slate-200 pt-2 mt-2 space-y-2">
           <Button
@@ -161,6 +279,38 @@ export function StorageSidebar({
             Import Data
           </Button>
         </div>
+
+        <div className="border-t border-slate-200 pt-2 mt-2 space-y-2">
+          <Button
+            variant="ghost"
+            onClick={onManageNotifications}
+            className="w-full justify-start text-slate-600 hover:text-slate-900"
+          >
+            <Bell className="w-4 h-4 mr-2" />
+            Notification Settings
+          </Button>
+
+          {hasRole(user, "admin") && (
+            <Button
+              variant="ghost"
+              onClick={onManageUsers}
+              className="w-full justify-start text-slate-600 hover:text-slate-900"
+            >
+              <Users className="w-4 h-4 mr-2" />
+              Manage Users
+            </Button>
+          )}
+
+          <Button
+            variant="ghost"
+            onClick={() => logoutMutation.mutate()}
+            disabled={logoutMutation.isPending}
+            className="w-full justify-start text-slate-600 hover:text-slate-900"
+          >
+            <LogOut className="w-4 h-4 mr-2" />
+            Sign Out{user && ` (${user.username})`}
+          </Button>
+        </div>
       </div>
     </div>
   );
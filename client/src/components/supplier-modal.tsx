@@ -0,0 +1,266 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Card, CardContent } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, apiErrorMessage } from "@/lib/queryClient";
+import { undoAction } from "@/lib/undo";
+import { Plus, Edit2, Trash2, ExternalLink } from "lucide-react";
+import type { Supplier } from "@shared/schema";
+
+const formSchema = z.object({
+  name: z.string().trim().min(1, "Name is required"),
+  website: z.union([z.literal(""), z.string().trim().url("Website must be a URL")]),
+  notes: z.string(),
+});
+
+type FormData = z.infer<typeof formSchema>;
+
+const emptyForm: FormData = { name: "", website: "", notes: "" };
+
+interface SupplierModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function SupplierModal({ open, onOpenChange }: SupplierModalProps) {
+  const [editingSupplier, setEditingSupplier] = useState<Supplier | null>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: suppliers = [] } = useQuery<Supplier[]>({
+    queryKey: ["/api/suppliers"],
+  });
+
+  const form = useForm<FormData>({
+    resolver: zodResolver(formSchema),
+    defaultValues: emptyForm,
+  });
+
+  const toRequest = (data: FormData) => ({
+    name: data.name,
+    website: data.website || null,
+    notes: data.notes || null,
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async (data: FormData) => {
+      const response = await apiRequest("POST", "/api/suppliers", toRequest(data));
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/suppliers"] });
+      toast({ title: "Supplier created successfully", action: undoAction() });
+      form.reset(emptyForm);
+    },
+    onError: (error) => {
+      toast({ title: "Failed to create supplier", description: apiErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async (data: FormData) => {
+      const response = await apiRequest("PATCH", `/api/suppliers/${editingSupplier!.id}`, toRequest(data));
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/suppliers"] });
+      toast({ title: "Supplier updated successfully", action: undoAction() });
+      form.reset(emptyForm);
+      setEditingSupplier(null);
+    },
+    onError: (error) => {
+      toast({ title: "Failed to update supplier", description: apiErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/suppliers/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/suppliers"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/items"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/containers"] });
+      toast({ title: "Supplier deleted successfully", action: undoAction() });
+    },
+    onError: () => {
+      toast({ title: "Failed to delete supplier", variant: "destructive" });
+    },
+  });
+
+  const onSubmit = (data: FormData) => {
+    if (editingSupplier) {
+      updateMutation.mutate(data);
+    } else {
+      createMutation.mutate(data);
+    }
+  };
+
+  const handleEdit = (supplier: Supplier) => {
+    setEditingSupplier(supplier);
+    form.reset({
+      name: supplier.name,
+      website: supplier.website || "",
+      notes: supplier.notes || "",
+    });
+  };
+
+  const handleDelete = (supplier: Supplier) => {
+    if (confirm(`Delete "${supplier.name}"? Items bought there keep their part numbers and prices.`)) {
+      deleteMutation.mutate(supplier.id);
+    }
+  };
+
+  const handleCancel = () => {
+    setEditingSupplier(null);
+    form.reset(emptyForm);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh]">
+        <DialogHeader>
+          <DialogTitle>Manage Suppliers</DialogTitle>
+        </DialogHeader>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          {/* Form */}
+          <div>
+            <h3 className="font-medium mb-4">
+              {editingSupplier ? "Edit Supplier" : "Add New Supplier"}
+            </h3>
+
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+                <FormField
+                  control={form.control}
+                  name="name"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>
+                        Name <span className="text-red-500">*</span>
+                      </FormLabel>
+                      <FormControl>
+                        <Input placeholder="e.g., Mouser, DigiKey, LCSC" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="website"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Website</FormLabel>
+                      <FormControl>
+                        <Input placeholder="https://" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="notes"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Notes</FormLabel>
+                      <FormControl>
+                        <Textarea
+                          rows={3}
+                          placeholder="Account number, shipping costs, ..."
+                          className="resize-none"
+                          {...field}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <div className="flex gap-3 pt-4">
+                  {editingSupplier && (
+                    <Button type="button" variant="outline" onClick={handleCancel}>
+                      Cancel
+                    </Button>
+                  )}
+                  <Button
+                    type="submit"
+                    className="flex-1 bg-blue-600 hover:bg-blue-700"
+                    disabled={createMutation.isPending || updateMutation.isPending}
+                  >
+                    <Plus className="w-4 h-4 mr-2" />
+                    {editingSupplier ? "Update" : "Add"} Supplier
+                  </Button>
+                </div>
+              </form>
+            </Form>
+          </div>
+
+          {/* Suppliers List */}
+          <div>
+            <h3 className="font-medium mb-4">Existing Suppliers</h3>
+            <ScrollArea className="h-96">
+              <div className="space-y-2">
+                {suppliers.map((supplier) => (
+                  <Card key={supplier.id}>
+                    <CardContent className="p-3">
+                      <div className="flex items-center justify-between gap-2">
+                        <div className="min-w-0">
+                          <span className="font-medium">{supplier.name}</span>
+                          {supplier.website && (
+                            <a
+                              href={supplier.website}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="flex items-center gap-1 text-sm text-blue-600 hover:underline truncate"
+                            >
+                              <ExternalLink className="w-3 h-3 shrink-0" />
+                              {supplier.website}
+                            </a>
+                          )}
+                        </div>
+                        <div className="flex gap-1">
+                          <Button size="sm" variant="ghost" onClick={() => handleEdit(supplier)}>
+                            <Edit2 className="w-3 h-3" />
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => handleDelete(supplier)}
+                            disabled={deleteMutation.isPending}
+                          >
+                            <Trash2 className="w-3 h-3" />
+                          </Button>
+                        </div>
+                      </div>
+                    </CardContent>
+                  </Card>
+                ))}
+
+                {suppliers.length === 0 && (
+                  <div className="text-center py-8 text-slate-500">
+                    <p>No suppliers yet</p>
+                    <p className="text-sm mt-1">Add the shops you buy parts from</p>
+                  </div>
+                )}
+              </div>
+            </ScrollArea>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
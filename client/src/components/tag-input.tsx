@@ -0,0 +1,101 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { X } from "lucide-react";
+import type { TagWithCount } from "@shared/schema";
+
+interface TagInputProps {
+  value: string[];
+  onChange: (tags: string[]) => void;
+  placeholder?: string;
+}
+
+// Tag chips with suggestions from the tags already in use; Enter or comma adds what was typed
+export function TagInput({ value, onChange, placeholder = "Add a tag..." }: TagInputProps) {
+  const [input, setInput] = useState("");
+  const [focused, setFocused] = useState(false);
+
+  const { data: tags = [] } = useQuery<TagWithCount[]>({
+    queryKey: ["/api/tags"],
+  });
+
+  const has = (name: string) => value.some(tag => tag.toLowerCase() === name.toLowerCase());
+
+  const addTag = (name: string) => {
+    const trimmed = name.trim();
+    if (trimmed && !has(trimmed)) {
+      // Reuse the existing tag's spelling
+      const existing = tags.find(tag => tag.name.toLowerCase() === trimmed.toLowerCase());
+      onChange([...value, existing ? existing.name : trimmed]);
+    }
+    setInput("");
+  };
+
+  const removeTag = (name: string) => {
+    onChange(value.filter(tag => tag !== name));
+  };
+
+  const suggestions = tags
+    .filter(tag => !has(tag.name) && tag.name.toLowerCase().includes(input.trim().toLowerCase()))
+    .slice(0, 8);
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === "Enter" || event.key === ",") {
+      event.preventDefault();
+      addTag(input);
+    } else if (event.key === "Backspace" && !input && value.length > 0) {
+      removeTag(value[value.length - 1]);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <div className="flex flex-wrap items-center gap-1 rounded-md border border-input px-2 py-1.5 min-h-10">
+        {value.map(tag => (
+          <Badge key={tag} variant="secondary" className="gap-1">
+            {tag}
+            <button
+              type="button"
+              onClick={() => removeTag(tag)}
+              className="text-slate-500 hover:text-slate-900"
+              aria-label={`Remove ${tag}`}
+            >
+              <X className="w-3 h-3" />
+            </button>
+          </Badge>
+        ))}
+        <Input
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          onKeyDown={handleKeyDown}
+          onFocus={() => setFocused(true)}
+          onBlur={() => {
+            setFocused(false);
+            addTag(input);
+          }}
+          placeholder={value.length === 0 ? placeholder : ""}
+          maxLength={50}
+          className="flex-1 min-w-24 h-7 border-0 p-0 shadow-none focus-visible:ring-0 focus-visible:ring-offset-0"
+        />
+      </div>
+      {focused && suggestions.length > 0 && (
+        <div className="absolute z-50 mt-1 w-full rounded-md border bg-white shadow-md py-1">
+          {suggestions.map(tag => (
+            <button
+              key={tag.id}
+              type="button"
+              // Keeps the input focused so the blur doesn't add the half-typed text
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => addTag(tag.name)}
+              className="w-full flex items-center justify-between px-3 py-1.5 text-sm hover:bg-slate-100"
+            >
+              <span>{tag.name}</span>
+              <span className="text-xs text-slate-400">{tag.itemCount}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
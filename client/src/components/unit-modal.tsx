@@ -0,0 +1,251 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Card, CardContent } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, apiErrorMessage } from "@/lib/queryClient";
+import { undoAction } from "@/lib/undo";
+import { Plus, Edit2, Trash2 } from "lucide-react";
+import { MAX_UNIT_PRECISION, type Unit } from "@shared/schema";
+
+const formSchema = z.object({
+  name: z.string().trim().min(1, "Name is required"),
+  symbol: z.string().trim().min(1, "Symbol is required").max(10),
+  precision: z.number().int().min(0).max(MAX_UNIT_PRECISION, `At most ${MAX_UNIT_PRECISION} decimals`),
+});
+
+type FormData = z.infer<typeof formSchema>;
+
+const emptyForm: FormData = { name: "", symbol: "", precision: 0 };
+
+interface UnitModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function UnitModal({ open, onOpenChange }: UnitModalProps) {
+  const [editingUnit, setEditingUnit] = useState<Unit | null>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: units = [] } = useQuery<Unit[]>({
+    queryKey: ["/api/units"],
+  });
+
+  const form = useForm<FormData>({
+    resolver: zodResolver(formSchema),
+    defaultValues: emptyForm,
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async (data: FormData) => {
+      const response = await apiRequest("POST", "/api/units", data);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/units"] });
+      toast({ title: "Unit created successfully", action: undoAction() });
+      form.reset(emptyForm);
+    },
+    onError: (error) => {
+      toast({ title: "Failed to create unit", description: apiErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async (data: FormData) => {
+      const response = await apiRequest("PATCH", `/api/units/${editingUnit!.id}`, data);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/units"] });
+      toast({ title: "Unit updated successfully", action: undoAction() });
+      form.reset(emptyForm);
+      setEditingUnit(null);
+    },
+    onError: (error) => {
+      toast({ title: "Failed to update unit", description: apiErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/units/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/units"] });
+      toast({ title: "Unit deleted successfully", action: undoAction() });
+    },
+    onError: (error) => {
+      toast({ title: "Failed to delete unit", description: apiErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const onSubmit = (data: FormData) => {
+    if (editingUnit) {
+      updateMutation.mutate(data);
+    } else {
+      createMutation.mutate(data);
+    }
+  };
+
+  const handleEdit = (unit: Unit) => {
+    setEditingUnit(unit);
+    form.reset({ name: unit.name, symbol: unit.symbol, precision: unit.precision });
+  };
+
+  const handleDelete = (unit: Unit) => {
+    if (confirm(`Delete "${unit.name}"?`)) {
+      deleteMutation.mutate(unit.id);
+    }
+  };
+
+  const handleCancel = () => {
+    setEditingUnit(null);
+    form.reset(emptyForm);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh]">
+        <DialogHeader>
+          <DialogTitle>Manage Units</DialogTitle>
+        </DialogHeader>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          {/* Form */}
+          <div>
+            <h3 className="font-medium mb-4">
+              {editingUnit ? "Edit Unit" : "Add New Unit"}
+            </h3>
+
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+                <FormField
+                  control={form.control}
+                  name="name"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>
+                        Name <span className="text-red-500">*</span>
+                      </FormLabel>
+                      <FormControl>
+                        <Input placeholder="e.g., Metre, Gram, Roll" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="symbol"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>
+                        Symbol <span className="text-red-500">*</span>
+                      </FormLabel>
+                      <FormControl>
+                        <Input placeholder="e.g., m, g, rolls" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="precision"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Decimals</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          min="0"
+                          max={MAX_UNIT_PRECISION}
+                          {...field}
+                          onChange={(e) => field.onChange(parseInt(e.target.value) || 0)}
+                        />
+                      </FormControl>
+                      <FormDescription>
+                        How precisely quantities are kept, e.g. 2 for 1.25 m
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <div className="flex gap-3 pt-4">
+                  {editingUnit && (
+                    <Button type="button" variant="outline" onClick={handleCancel}>
+                      Cancel
+                    </Button>
+                  )}
+                  <Button
+                    type="submit"
+                    className="flex-1 bg-blue-600 hover:bg-blue-700"
+                    disabled={createMutation.isPending || updateMutation.isPending}
+                  >
+                    <Plus className="w-4 h-4 mr-2" />
+                    {editingUnit ? "Update" : "Add"} Unit
+                  </Button>
+                </div>
+              </form>
+            </Form>
+          </div>
+
+          {/* Units List */}
+          <div>
+            <h3 className="font-medium mb-4">Existing Units</h3>
+            <ScrollArea className="h-96">
+              <div className="space-y-2">
+                {units.map((unit) => (
+                  <Card key={unit.id}>
+                    <CardContent className="p-3">
+                      <div className="flex items-center justify-between gap-2">
+                        <div className="min-w-0">
+                          <span className="font-medium">{unit.name}</span>
+                          <p className="text-sm text-slate-500">
+                            {unit.symbol} · {unit.precision === 0 ? "whole numbers" : `${unit.precision} decimals`}
+                          </p>
+                        </div>
+                        <div className="flex gap-1">
+                          <Button size="sm" variant="ghost" onClick={() => handleEdit(unit)}>
+                            <Edit2 className="w-3 h-3" />
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => handleDelete(unit)}
+                            disabled={deleteMutation.isPending}
+                          >
+                            <Trash2 className="w-3 h-3" />
+                          </Button>
+                        </div>
+                      </div>
+                    </CardContent>
+                  </Card>
+                ))}
+
+                {units.length === 0 && (
+                  <div className="text-center py-8 text-slate-500">
+                    <p>No units yet</p>
+                    <p className="text-sm mt-1">Items without a unit are counted in pieces</p>
+                  </div>
+                )}
+              </div>
+            </ScrollArea>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,171 @@
+import { useEffect } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, apiErrorMessage } from "@/lib/queryClient";
+import { webhookEvents, type Webhook } from "@shared/schema";
+
+const formSchema = z.object({
+  url: z.string().trim().url("Webhook must be a URL"),
+  description: z.string(),
+  secret: z.string().trim().min(16, "Use at least 16 characters").or(z.literal("")),
+  events: z.array(z.enum(webhookEvents)).min(1, "Pick at least one event"),
+});
+
+type FormData = z.infer<typeof formSchema>;
+
+const emptyForm: FormData = { url: "", description: "", secret: "", events: [...webhookEvents] };
+
+interface WebhookModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  editingWebhook: Webhook | null;
+}
+
+export function WebhookModal({ open, onOpenChange, editingWebhook }: WebhookModalProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const form = useForm<FormData>({
+    resolver: zodResolver(formSchema),
+    defaultValues: emptyForm,
+  });
+
+  useEffect(() => {
+    if (!open) return;
+    form.reset(editingWebhook
+      ? { url: editingWebhook.url, description: editingWebhook.description || "", secret: "", events: editingWebhook.events }
+      : emptyForm);
+  }, [open, editingWebhook, form]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: FormData) => {
+      const body = { ...data, description: data.description || null, secret: data.secret || undefined };
+      const response = editingWebhook
+        ? await apiRequest("PATCH", `/api/webhooks/${editingWebhook.id}`, body)
+        : await apiRequest("POST", "/api/webhooks", body);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/webhooks"] });
+      toast({ title: editingWebhook ? "Webhook updated successfully" : "Webhook created successfully" });
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      toast({
+        title: editingWebhook ? "Failed to update webhook" : "Failed to create webhook",
+        description: apiErrorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{editingWebhook ? "Edit Webhook" : "Add Webhook"}</DialogTitle>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit((data) => saveMutation.mutate(data))} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="url"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>
+                    URL <span className="text-red-500">*</span>
+                  </FormLabel>
+                  <FormControl>
+                    <Input placeholder="https://example.com/hooks/inventory" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="description"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Description</FormLabel>
+                  <FormControl>
+                    <Input placeholder="e.g., Label printer" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="secret"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Secret</FormLabel>
+                  <FormControl>
+                    <Input
+                      placeholder={editingWebhook ? "Leave empty to keep the current secret" : "Leave empty to generate one"}
+                      autoComplete="off"
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormDescription>
+                    Each delivery carries an X-Webhook-Signature header, sha256= and the HMAC-SHA256 of the body with this secret
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="events"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Events</FormLabel>
+                  <div className="grid grid-cols-2 gap-2">
+                    {webhookEvents.map((event) => (
+                      <label key={event} className="flex items-center gap-2 text-sm font-mono">
+                        <Checkbox
+                          checked={field.value.includes(event)}
+                          onCheckedChange={(checked) => field.onChange(checked === true
+                            ? [...field.value, event]
+                            : field.value.filter((e) => e !== event))}
+                        />
+                        {event}
+                      </label>
+                    ))}
+                  </div>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="flex gap-3 pt-4">
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                className="flex-1 bg-blue-600 hover:bg-blue-700"
+                disabled={saveMutation.isPending}
+              >
+                {editingWebhook ? "Update" : "Add"} Webhook
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,18 @@
+import { apiRequest } from "./queryClient";
+
+export function photoUrl(photo: string) {
+  return `/api/photos/${encodeURIComponent(photo)}`;
+}
+
+export function thumbnailUrl(photo: string) {
+  return `/api/photos/${encodeURIComponent(photo)}/thumbnail`;
+}
+
+// Uploads a photo and returns the name to save as an item's photo
+export async function uploadPhoto(file: File): Promise<string> {
+  const body = new FormData();
+  body.append("photo", file);
+  const response = await apiRequest("POST", "/api/photos", body);
+  const { photo } = await response.json();
+  return photo;
+}
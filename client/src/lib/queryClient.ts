@@ -1,5 +1,17 @@
 import { QueryClient, QueryFunction } from "@tanstack/react-query";
 
+// The change set of the newest change made from this tab, which the server names in a header
+let lastChangeSet: string | undefined;
+
+export function latestChangeSet(): string | undefined {
+  return lastChangeSet;
+}
+
+// Requests made without apiRequest call this themselves
+export function noteChangeSet(res: Response) {
+  lastChangeSet = res.headers.get("X-Change-Set") ?? lastChangeSet;
+}
+
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
     const text = (await res.text()) || res.statusText;
@@ -7,19 +19,33 @@ async function throwIfResNotOk(res: Response) {
   }
 }
 
+// The server's explanation for a rejected request, when it sent one
+export function apiErrorMessage(error: unknown): string | undefined {
+  const message = error instanceof Error ? error.message : "";
+  const body = message.slice(message.indexOf(":") + 1);
+  try {
+    return JSON.parse(body).message;
+  } catch {
+    return undefined;
+  }
+}
+
 export async function apiRequest(
   method: string,
   url: string,
   data?: unknown | undefined,
 ): Promise<Response> {
+  // Form data (file uploads) is sent as is so the browser can set the multipart boundary
+  const isFormData = data instanceof FormData;
   const res = await fetch(url, {
     method,
-    headers: data ? { "Content-Type": "application/json" } : {},
-    body: data ? JSON.stringify(data) : undefined,
+    headers: data && !isFormData ? { "Content-Type": "application/json" } : {},
+    body: isFormData ? data : data ? JSON.stringify(data) : undefined,
     credentials: "include",
   });
 
   await throwIfResNotOk(res);
+  noteChangeSet(res);
   return res;
 }
 
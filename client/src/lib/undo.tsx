@@ -0,0 +1,48 @@
+import { ToastAction } from "@/components/ui/toast";
+import { toast } from "@/hooks/use-toast";
+import { apiRequest, latestChangeSet, queryClient } from "./queryClient";
+
+// Without a change set this steps back or forward through the session's history
+async function step(direction: "undo" | "redo", changeSet?: string) {
+  try {
+    await apiRequest("POST", `/api/${direction}`, changeSet ? { changeSet } : undefined);
+  } catch (error) {
+    // apiRequest errors start with the status code
+    const status = (error as Error).message.split(":")[0];
+    toast({
+      title: status === "400"
+        ? `Nothing to ${direction}`
+        : status === "409"
+          ? `That change can no longer be ${direction === "undo" ? "undone" : "redone"}`
+          : `Failed to ${direction}`,
+      variant: status === "400" ? "default" : "destructive",
+    });
+    return;
+  }
+
+  // An undo can touch any entity, so refresh everything
+  queryClient.invalidateQueries();
+  toast(direction === "undo"
+    ? { title: "Change undone", action: redoAction() }
+    : { title: "Change redone", action: undoAction() });
+}
+
+export function undo() {
+  return step("undo");
+}
+
+export function redo() {
+  return step("redo");
+}
+
+// Action buttons for success toasts. They are made right after the change the toast reports,
+// so they revert that change even if others were made since.
+export function undoAction() {
+  const changeSet = latestChangeSet();
+  return <ToastAction altText="Undo" onClick={() => step("undo", changeSet)}>Undo</ToastAction>;
+}
+
+export function redoAction() {
+  const changeSet = latestChangeSet();
+  return <ToastAction altText="Redo" onClick={() => step("redo", changeSet)}>Redo</ToastAction>;
+}
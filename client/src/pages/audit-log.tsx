@@ -0,0 +1,186 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ArrowLeft } from "lucide-react";
+import { Link } from "wouter";
+import { auditEntityTypes, auditActions, type AuditEvent, type AuditEntityType } from "@shared/schema";
+
+const entityLabels: Record<AuditEntityType, string> = {
+  container: "Container",
+  category: "Category",
+  sizeOption: "Size option",
+  item: "Item",
+  supplier: "Supplier",
+  unit: "Unit",
+  part: "Part",
+  lot: "Lot",
+  checkout: "Checkout",
+};
+
+const actionStyles: Record<AuditEvent["action"], string> = {
+  create: "bg-emerald-100 text-emerald-700",
+  update: "bg-blue-100 text-blue-700",
+  delete: "bg-red-100 text-red-700",
+  restore: "bg-amber-100 text-amber-700",
+  purge: "bg-red-200 text-red-800",
+};
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === "") return "—";
+  if (Array.isArray(value) && value.every(entry => typeof entry === "string")) return value.join(", ") || "—";
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+// One line per field, "field: before → after" for updates
+function describeChanges(event: AuditEvent): string[] {
+  const record = event.after || event.before || {};
+  if (event.action === "create" || event.action === "delete" || event.action === "purge") {
+    return Object.entries(record)
+      .filter(([key, value]) => key !== "id" && value !== null && value !== undefined)
+      .map(([key, value]) => `${key}: ${formatValue(value)}`);
+  }
+  return Object.keys(event.after || {}).map(key =>
+    `${key}: ${formatValue(event.before?.[key])} → ${formatValue(event.after?.[key])}`
+  );
+}
+
+export default function AuditLog() {
+  const [entityType, setEntityType] = useState("all");
+  const [action, setAction] = useState("all");
+  const [entityId, setEntityId] = useState("");
+  const [username, setUsername] = useState("");
+
+  const filters = {
+    entityType: entityType === "all" ? "" : entityType,
+    action: action === "all" ? "" : action,
+    entityId: entityId.trim(),
+    username: username.trim(),
+  };
+
+  const { data: events = [], isLoading } = useQuery<AuditEvent[]>({
+    queryKey: ["/api/audit", filters],
+    queryFn: async () => {
+      const params = new URLSearchParams(
+        Object.entries(filters).filter(([, value]) => value !== "")
+      );
+      const response = await fetch(`/api/audit?${params}`);
+      if (!response.ok) throw new Error("Failed to fetch audit log");
+      return response.json();
+    },
+  });
+
+  return (
+    <div className="flex flex-col h-screen bg-gray-50">
+      {/* Header */}
+      <div className="bg-white border-b border-slate-200 p-4">
+        <div className="flex items-center justify-between gap-4">
+          <div className="flex items-center gap-4">
+            <Link href="/">
+              <Button variant="ghost" size="sm">
+                <ArrowLeft className="w-4 h-4 mr-2" />
+                Back to Storage
+              </Button>
+            </Link>
+            <div>
+              <h1 className="text-2xl font-semibold text-slate-900">Audit Log</h1>
+              <p className="text-slate-500">Every change to containers, categories, sizes and items</p>
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            <Select value={entityType} onValueChange={setEntityType}>
+              <SelectTrigger className="w-36">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All types</SelectItem>
+                {auditEntityTypes.map((type) => (
+                  <SelectItem key={type} value={type}>{entityLabels[type]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={action} onValueChange={setAction}>
+              <SelectTrigger className="w-32">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All actions</SelectItem>
+                {auditActions.map((value) => (
+                  <SelectItem key={value} value={value} className="capitalize">{value}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              type="number"
+              placeholder="ID"
+              value={entityId}
+              onChange={(e) => setEntityId(e.target.value)}
+              className="w-20"
+            />
+            <Input
+              placeholder="User"
+              value={username}
+              onChange={(e) => setUsername(e.target.value)}
+              className="w-32"
+            />
+          </div>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-auto p-6">
+        <div className="max-w-6xl mx-auto bg-white rounded-lg border border-slate-200">
+          {isLoading ? (
+            <div className="text-center py-12 text-slate-500">Loading audit log...</div>
+          ) : events.length === 0 ? (
+            <div className="text-center py-12 text-slate-500">No changes match these filters</div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-40">When</TableHead>
+                  <TableHead className="w-28">User</TableHead>
+                  <TableHead className="w-40">Entity</TableHead>
+                  <TableHead className="w-24">Action</TableHead>
+                  <TableHead>Changes</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {events.map((event) => (
+                  <TableRow key={event.id}>
+                    <TableCell className="text-sm text-slate-500 whitespace-nowrap">
+                      {format(new Date(event.createdAt), "MMM d, yyyy HH:mm")}
+                    </TableCell>
+                    <TableCell className="text-sm">{event.username || "—"}</TableCell>
+                    <TableCell className="text-sm">
+                      {entityLabels[event.entityType]} #{event.entityId}
+                      {typeof (event.after || event.before)?.name === "string" && (
+                        <span className="block text-slate-500 truncate">
+                          {String((event.after || event.before)?.name)}
+                        </span>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="secondary" className={`capitalize ${actionStyles[event.action]}`}>
+                        {event.action}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-xs text-slate-600 font-mono">
+                      {describeChanges(event).map((line, index) => (
+                        <div key={index} className="break-all">{line}</div>
+                      ))}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -2,22 +2,31 @@ import { useState, useEffect } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { RotateCcw, Save, ArrowLeft } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { RotateCcw, RotateCw, Save, ArrowLeft, Plus, Trash2, X } from "lucide-react";
 import { Link } from "wouter";
 import { apiRequest } from "@/lib/queryClient";
-import type { StorageContainer } from "@shared/schema";
+import type { StorageContainer, StorageLocation, FloorplanPlacement } from "@shared/schema";
 
 interface ContainerPosition {
   id: number;
   x: number;
   y: number;
+  width: number | null;
+  height: number | null;
+  rotation: number;
 }
 
+const DEFAULT_WIDTH = 150;
+
 export default function Floorplan() {
   const queryClient = useQueryClient();
   const { toast } = useToast();
+  const [selectedLocationId, setSelectedLocationId] = useState<number | null>(null);
+  const [newLocationName, setNewLocationName] = useState("");
   const [containerPositions, setContainerPositions] = useState<ContainerPosition[]>([]);
   const [draggedContainer, setDraggedContainer] = useState<StorageContainer | null>(null);
   const [isDragging, setIsDragging] = useState(false);
@@ -26,19 +35,107 @@ export default function Floorplan() {
     queryKey: ["/api/containers"],
   });
 
-  // Initialize positions for containers that don't have them
-  const getContainerPosition = (containerId: number): { x: number; y: number } => {
-    const existing = containerPositions.find(p => p.id === containerId);
-    if (existing) return { x: existing.x, y: existing.y };
-    
-    // Default positioning - arrange in a grid
-    const index = containers.findIndex(c => c.id === containerId);
-    const cols = 4;
-    const spacing = 200;
-    return {
-      x: (index % cols) * spacing + 50,
-      y: Math.floor(index / cols) * spacing + 50
-    };
+  const { data: locations = [] } = useQuery<StorageLocation[]>({
+    queryKey: ["/api/locations"],
+  });
+
+  const { data: allPlacements = [] } = useQuery<FloorplanPlacement[]>({
+    queryKey: ["/api/placements"],
+  });
+
+  const { data: placements } = useQuery<FloorplanPlacement[]>({
+    queryKey: ["/api/locations", selectedLocationId, "placements"],
+    queryFn: () => fetch(`/api/locations/${selectedLocationId}/placements`).then(res => res.json()),
+    enabled: selectedLocationId !== null,
+  });
+
+  const selectedLocation = locations.find(l => l.id === selectedLocationId);
+
+  // Nested containers move with the container they sit in
+  const topLevelContainers = containers.filter(c => !c.parentContainerId);
+
+  // Default to the first location once they are loaded
+  useEffect(() => {
+    if (selectedLocationId === null && locations.length > 0) {
+      setSelectedLocationId(locations[0].id);
+    }
+  }, [locations, selectedLocationId]);
+
+  // Load saved positions whenever the selected location's layout arrives
+  useEffect(() => {
+    if (!placements) return;
+    setContainerPositions(placements.map(p => ({
+      id: p.containerId,
+      x: p.x,
+      y: p.y,
+      width: p.width,
+      height: p.height,
+      rotation: p.rotation || 0,
+    })));
+  }, [placements]);
+
+  const createLocationMutation = useMutation({
+    mutationFn: async (name: string) => {
+      const response = await apiRequest("POST", "/api/locations", { name });
+      return response.json();
+    },
+    onSuccess: (location: StorageLocation) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/locations"] });
+      setSelectedLocationId(location.id);
+      setNewLocationName("");
+      toast({ title: "Location created successfully" });
+    },
+    onError: () => {
+      toast({ title: "Failed to create location", variant: "destructive" });
+    },
+  });
+
+  const deleteLocationMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/locations/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/locations"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/placements"] });
+      setSelectedLocationId(null);
+      setContainerPositions([]);
+      toast({ title: "Location deleted successfully" });
+    },
+    onError: () => {
+      toast({ title: "Failed to delete location", variant: "destructive" });
+    },
+  });
+
+  const saveLayoutMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("PUT", `/api/locations/${selectedLocationId}/placements`, {
+        placements: containerPositions.map(p => ({
+          containerId: p.id,
+          x: p.x,
+          y: p.y,
+          width: p.width,
+          height: p.height,
+          rotation: p.rotation,
+        })),
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/locations"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/placements"] });
+      toast({ title: "Floorplan layout saved" });
+    },
+    onError: () => {
+      toast({ title: "Failed to save floorplan layout", variant: "destructive" });
+    },
+  });
+
+  // Containers saved in a different location than the one being edited
+  const getOtherLocationName = (containerId: number) => {
+    if (containerPositions.some(p => p.id === containerId)) return null;
+    const placement = allPlacements.find(p => p.containerId === containerId);
+    if (!placement || placement.locationId === selectedLocationId) return null;
+    return locations.find(l => l.id === placement.locationId)?.name || null;
   };
 
   const handleContainerDragStart = (e: React.DragEvent, container: StorageContainer) => {
@@ -54,15 +151,23 @@ export default function Floorplan() {
 
   const handleFloorplanDrop = (e: React.DragEvent) => {
     e.preventDefault();
-    if (!draggedContainer) return;
+    if (!draggedContainer || !selectedLocationId) return;
 
     const rect = e.currentTarget.getBoundingClientRect();
     const x = e.clientX - rect.left - 75; // Center the container
     const y = e.clientY - rect.top - 50;
 
     setContainerPositions(prev => {
+      const existing = prev.find(p => p.id === draggedContainer.id);
       const filtered = prev.filter(p => p.id !== draggedContainer.id);
-      return [...filtered, { id: draggedContainer.id, x: Math.max(0, x), y: Math.max(0, y) }];
+      return [...filtered, {
+        id: draggedContainer.id,
+        x: Math.max(0, x),
+        y: Math.max(0, y),
+        width: existing?.width ?? null,
+        height: existing?.height ?? null,
+        rotation: existing?.rotation ?? 0,
+      }];
     });
 
     setDraggedContainer(null);
@@ -74,32 +179,32 @@ export default function Floorplan() {
     e.dataTransfer.dropEffect = 'move';
   };
 
+  const rotateContainer = (containerId: number) => {
+    setContainerPositions(prev => prev.map(p =>
+      p.id === containerId ? { ...p, rotation: (p.rotation + 90) % 360 } : p
+    ));
+  };
+
+  const removeContainer = (containerId: number) => {
+    setContainerPositions(prev => prev.filter(p => p.id !== containerId));
+  };
+
   const resetLayout = () => {
     setContainerPositions([]);
-    toast({ title: "Layout reset to default grid" });
+    toast({ title: "Layout cleared, save to apply" });
   };
 
-  const saveLayout = () => {
-    // For now, just save to local storage
-    localStorage.setItem('containerPositions', JSON.stringify(containerPositions));
-    toast({ title: "Floorplan layout saved" });
+  const handleAddLocation = () => {
+    const name = newLocationName.trim();
+    if (name) {
+      createLocationMutation.mutate(name);
+    }
   };
 
-  // Load saved positions on mount
-  useEffect(() => {
-    const saved = localStorage.getItem('containerPositions');
-    if (saved) {
-      try {
-        setContainerPositions(JSON.parse(saved));
-      } catch (e) {
-        console.error('Failed to load saved positions');
-      }
+  const handleDeleteLocation = () => {
+    if (selectedLocation && confirm(`Are you sure you want to delete "${selectedLocation.name}"? Its containers will become unplaced.`)) {
+      deleteLocationMutation.mutate(selectedLocation.id);
     }
-  }, []);
-
-  const getItemCount = (container: StorageContainer) => {
-    // This would ideally come from the items query
-    return 0; // Placeholder
   };
 
   return (
@@ -120,11 +225,37 @@ export default function Floorplan() {
             </div>
           </div>
           <div className="flex gap-2">
-            <Button variant="outline" onClick={resetLayout}>
+            <Select
+              value={selectedLocationId?.toString() || ""}
+              onValueChange={(value) => setSelectedLocationId(parseInt(value))}
+            >
+              <SelectTrigger className="w-48">
+                <SelectValue placeholder="Select location" />
+              </SelectTrigger>
+              <SelectContent>
+                {locations.map((location) => (
+                  <SelectItem key={location.id} value={location.id.toString()}>
+                    {location.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              variant="outline"
+              onClick={handleDeleteLocation}
+              disabled={!selectedLocation || deleteLocationMutation.isPending}
+              className="text-red-600 hover:text-red-700 hover:bg-red-50"
+            >
+              <Trash2 className="w-4 h-4" />
+            </Button>
+            <Button variant="outline" onClick={resetLayout} disabled={!selectedLocation}>
               <RotateCcw className="w-4 h-4 mr-2" />
               Reset Layout
             </Button>
-            <Button onClick={saveLayout}>
+            <Button
+              onClick={() => saveLayoutMutation.mutate()}
+              disabled={!selectedLocation || saveLayoutMutation.isPending}
+            >
               <Save className="w-4 h-4 mr-2" />
               Save Layout
             </Button>
@@ -135,106 +266,181 @@ export default function Floorplan() {
       <div className="flex flex-1 overflow-hidden">
         {/* Container List Sidebar */}
         <div className="w-80 bg-white border-r border-slate-200 flex flex-col">
+          <div className="p-4 border-b border-slate-200 space-y-3">
+            <div>
+              <h2 className="font-medium text-slate-900">Locations</h2>
+              <p className="text-sm text-slate-500">Add a room such as garage, lab or shed</p>
+            </div>
+            <div className="flex gap-2">
+              <Input
+                placeholder="Location name"
+                value={newLocationName}
+                onChange={(e) => setNewLocationName(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") {
+                    e.preventDefault();
+                    handleAddLocation();
+                  }
+                }}
+              />
+              <Button
+                variant="outline"
+                onClick={handleAddLocation}
+                disabled={!newLocationName.trim() || createLocationMutation.isPending}
+              >
+                <Plus className="w-4 h-4" />
+              </Button>
+            </div>
+          </div>
+
           <div className="p-4 border-b border-slate-200">
             <h2 className="font-medium text-slate-900">Storage Containers</h2>
             <p className="text-sm text-slate-500">Drag containers to the floorplan</p>
           </div>
-          
+
           <div className="flex-1 overflow-auto p-4 space-y-2">
-            {containers.map((container) => (
-              <Card 
-                key={container.id} 
-                className={`cursor-move hover:shadow-md transition-shadow ${
-                  draggedContainer?.id === container.id ? 'opacity-50' : ''
-                }`}
-                draggable
-                onDragStart={(e) => handleContainerDragStart(e, container)}
-                onDragEnd={handleContainerDragEnd}
-              >
-                <CardContent className="p-3">
-                  <div className="flex items-center justify-between">
-                    <div>
-                      <h3 className="font-medium text-slate-900">{container.name}</h3>
-                      {container.description && (
-                        <p className="text-xs text-slate-500 mt-1">{container.description}</p>
-                      )}
-                    </div>
-                    <div className="text-right">
-                      <Badge variant="secondary" className="text-xs">
-                        {container.gridConfig.rows.filter(r => !r.isDivider).length} rows
-                      </Badge>
-                    </div>
-                  </div>
-                </CardContent>
-              </Card>
-            ))}
-          </div>
-        </div>
+            {topLevelContainers.map((container) => {
+              const otherLocationName = getOtherLocationName(container.id);
+              const isPlacedHere = containerPositions.some(p => p.id === container.id);
 
-        {/* Floorplan Area */}
-        <div className="flex-1 relative overflow-auto">
-          <div 
-            className={`min-h-full min-w-full relative ${
-              isDragging ? 'bg-blue-50' : 'bg-gray-50'
-            }`}
-            onDrop={handleFloorplanDrop}
-            onDragOver={handleFloorplanDragOver}
-            style={{ minHeight: '800px', minWidth: '1200px' }}
-          >
-            {/* Grid Pattern */}
-            <div 
-              className="absolute inset-0 opacity-20"
-              style={{
-                backgroundImage: `
-                  linear-gradient(to right, #e5e7eb 1px, transparent 1px),
-                  linear-gradient(to bottom, #e5e7eb 1px, transparent 1px)
-                `,
-                backgroundSize: '50px 50px'
-              }}
-            />
-
-            {/* Container Icons */}
-            {containers.map((container) => {
-              const position = getContainerPosition(container.id);
               return (
-                <div
+                <Card
                   key={container.id}
-                  className="absolute transform hover:scale-105 transition-transform cursor-move"
-                  style={{
-                    left: position.x,
-                    top: position.y,
-                    width: '150px'
-                  }}
-                  draggable
+                  className={`cursor-move hover:shadow-md transition-shadow ${
+                    draggedContainer?.id === container.id ? 'opacity-50' : ''
+                  }`}
+                  draggable={!!selectedLocation}
                   onDragStart={(e) => handleContainerDragStart(e, container)}
                   onDragEnd={handleContainerDragEnd}
                 >
-                  <Card className="shadow-lg border-2 border-slate-300 hover:border-blue-400 transition-colors">
-                    <CardContent className="p-4 text-center">
-                      <div className="w-16 h-16 mx-auto mb-2 bg-slate-100 rounded-lg flex items-center justify-center">
-                        <div className="text-2xl">📦</div>
+                  <CardContent className="p-3">
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <h3 className="font-medium text-slate-900">{container.name}</h3>
+                        {container.description && (
+                          <p className="text-xs text-slate-500 mt-1">{container.description}</p>
+                        )}
                       </div>
-                      <h3 className="font-medium text-slate-900 text-sm mb-1">{container.name}</h3>
-                      <Badge variant="outline" className="text-xs">
-                        {container.gridConfig.rows.filter(r => !r.isDivider).length} rows
-                      </Badge>
-                    </CardContent>
-                  </Card>
-                </div>
+                      <div className="text-right space-y-1">
+                        <Badge variant="secondary" className="text-xs">
+                          {container.gridConfig.rows.filter(r => !r.isDivider).length} rows
+                        </Badge>
+                        {isPlacedHere && (
+                          <Badge variant="outline" className="text-xs block">Placed</Badge>
+                        )}
+                        {otherLocationName && (
+                          <Badge variant="outline" className="text-xs block">In {otherLocationName}</Badge>
+                        )}
+                      </div>
+                    </div>
+                  </CardContent>
+                </Card>
               );
             })}
+          </div>
+        </div>
 
-            {/* Drop zone indicator */}
-            {isDragging && (
-              <div className="absolute inset-4 border-2 border-dashed border-blue-400 rounded-lg bg-blue-50 bg-opacity-50 flex items-center justify-center">
-                <div className="text-blue-600 text-lg font-medium">
-                  Drop container here to position it
-                </div>
+        {/* Floorplan Area */}
+        <div className="flex-1 relative overflow-auto">
+          {!selectedLocation ? (
+            <div className="flex items-center justify-center h-full">
+              <div className="text-center">
+                <h2 className="text-xl font-semibold text-slate-900 mb-2">
+                  No Location Selected
+                </h2>
+                <p className="text-slate-500">
+                  Create a location in the sidebar to start laying out containers
+                </p>
               </div>
-            )}
-          </div>
+            </div>
+          ) : (
+            <div
+              className={`min-h-full min-w-full relative ${
+                isDragging ? 'bg-blue-50' : 'bg-gray-50'
+              }`}
+              onDrop={handleFloorplanDrop}
+              onDragOver={handleFloorplanDragOver}
+              style={{ minHeight: '800px', minWidth: '1200px' }}
+            >
+              {/* Grid Pattern */}
+              <div
+                className="absolute inset-0 opacity-20"
+                style={{
+                  backgroundImage: `
+                    linear-gradient(to right, #e5e7eb 1px, transparent 1px),
+                    linear-gradient(to bottom, #e5e7eb 1px, transparent 1px)
+                  `,
+                  backgroundSize: '50px 50px'
+                }}
+              />
+
+              {/* Container Icons */}
+              {containerPositions.map((position) => {
+                const container = containers.find(c => c.id === position.id);
+                if (!container) return null;
+
+                return (
+                  <div
+                    key={container.id}
+                    className="absolute group cursor-move"
+                    style={{
+                      left: position.x,
+                      top: position.y,
+                      width: position.width ?? DEFAULT_WIDTH,
+                      height: position.height ?? undefined,
+                      transform: `rotate(${position.rotation}deg)`,
+                    }}
+                    draggable
+                    onDragStart={(e) => handleContainerDragStart(e, container)}
+                    onDragEnd={handleContainerDragEnd}
+                  >
+                    <Card className="h-full shadow-lg border-2 border-slate-300 hover:border-blue-400 transition-colors">
+                      <CardContent className="p-4 text-center">
+                        <div className="w-16 h-16 mx-auto mb-2 bg-slate-100 rounded-lg flex items-center justify-center">
+                          <div className="text-2xl">📦</div>
+                        </div>
+                        <h3 className="font-medium text-slate-900 text-sm mb-1">{container.name}</h3>
+                        <Badge variant="outline" className="text-xs">
+                          {container.gridConfig.rows.filter(r => !r.isDivider).length} rows
+                        </Badge>
+                      </CardContent>
+                    </Card>
+                    <div className="absolute -top-3 -right-3 hidden group-hover:flex gap-1">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        className="h-6 w-6 p-0 bg-white"
+                        onClick={() => rotateContainer(container.id)}
+                        title="Rotate"
+                      >
+                        <RotateCw className="w-3 h-3" />
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        className="h-6 w-6 p-0 bg-white"
+                        onClick={() => removeContainer(container.id)}
+                        title="Remove from location"
+                      >
+                        <X className="w-3 h-3" />
+                      </Button>
+                    </div>
+                  </div>
+                );
+              })}
+
+              {/* Drop zone indicator */}
+              {isDragging && (
+                <div className="absolute inset-4 border-2 border-dashed border-blue-400 rounded-lg bg-blue-50 bg-opacity-50 flex items-center justify-center pointer-events-none">
+                  <div className="text-blue-600 text-lg font-medium">
+                    Drop container here to place it in {selectedLocation.name}
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
         </div>
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,153 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { format, isPast, formatDistanceToNow } from "date-fns";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { ArrowLeft, User } from "lucide-react";
+import { Link } from "wouter";
+import { apiRequest } from "@/lib/queryClient";
+import { formatQuantity, type CheckoutWithItem, type Unit } from "@shared/schema";
+
+export default function Loans() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [overdueOnly, setOverdueOnly] = useState(false);
+
+  const { data: checkouts = [], isLoading } = useQuery<CheckoutWithItem[]>({
+    queryKey: ["/api/checkouts"],
+  });
+
+  const { data: units = [] } = useQuery<Unit[]>({
+    queryKey: ["/api/units"],
+  });
+
+  const returnMutation = useMutation({
+    mutationFn: async (checkout: CheckoutWithItem) => {
+      const response = await apiRequest("POST", `/api/items/${checkout.itemId}/return`, {
+        checkoutId: checkout.id,
+      });
+      return response.json();
+    },
+    onSuccess: (_, checkout) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/checkouts"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/items", checkout.itemId, "checkouts"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/containers", checkout.containerId, "items"] });
+      toast({ title: "Item returned successfully" });
+    },
+    onError: () => {
+      toast({ title: "Failed to return item", variant: "destructive" });
+    },
+  });
+
+  const isOverdue = (checkout: CheckoutWithItem) => !!checkout.dueAt && isPast(new Date(checkout.dueAt));
+
+  const visibleCheckouts = overdueOnly ? checkouts.filter(isOverdue) : checkouts;
+
+  // Group loans by borrower, borrowers with overdue items first
+  const borrowers = Array.from(new Set(visibleCheckouts.map(c => c.borrower)))
+    .map(borrower => {
+      const loans = visibleCheckouts.filter(c => c.borrower === borrower);
+      return { borrower, loans, overdueCount: loans.filter(isOverdue).length };
+    })
+    .sort((a, b) => b.overdueCount - a.overdueCount || a.borrower.localeCompare(b.borrower));
+
+  const overdueTotal = checkouts.filter(isOverdue).length;
+
+  return (
+    <div className="flex flex-col h-screen bg-gray-50">
+      {/* Header */}
+      <div className="bg-white border-b border-slate-200 p-4">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-4">
+            <Link href="/">
+              <Button variant="ghost" size="sm">
+                <ArrowLeft className="w-4 h-4 mr-2" />
+                Back to Storage
+              </Button>
+            </Link>
+            <div>
+              <h1 className="text-2xl font-semibold text-slate-900">Outstanding Loans</h1>
+              <p className="text-slate-500">
+                {checkouts.length} out, {overdueTotal} overdue
+              </p>
+            </div>
+          </div>
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id="overdue-only"
+              checked={overdueOnly}
+              onCheckedChange={(checked) => setOverdueOnly(checked as boolean)}
+            />
+            <Label htmlFor="overdue-only" className="text-sm">Overdue only</Label>
+          </div>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-auto p-6">
+        <div className="max-w-4xl mx-auto space-y-4">
+          {isLoading ? (
+            <div className="text-center py-12 text-slate-500">Loading loans...</div>
+          ) : borrowers.length === 0 ? (
+            <div className="text-center py-12">
+              <h3 className="text-lg font-medium text-slate-900 mb-2">
+                {overdueOnly ? "Nothing Overdue" : "Nothing Checked Out"}
+              </h3>
+              <p className="text-slate-500">
+                {overdueOnly ? "Every loan is within its due date" : "All items are back in storage"}
+              </p>
+            </div>
+          ) : (
+            borrowers.map(({ borrower, loans, overdueCount }) => (
+              <Card key={borrower}>
+                <CardHeader className="pb-3">
+                  <CardTitle className="flex items-center gap-2 text-lg">
+                    <User className="w-5 h-5 text-slate-500" />
+                    {borrower}
+                    {overdueCount > 0 && (
+                      <Badge variant="destructive" className="text-xs">
+                        {overdueCount} overdue
+                      </Badge>
+                    )}
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-2">
+                  {loans.map((loan) => (
+                    <div
+                      key={loan.id}
+                      className={`flex items-center justify-between gap-4 border rounded p-3 ${
+                        isOverdue(loan) ? "border-red-200 bg-red-50" : ""
+                      }`}
+                    >
+                      <div className="min-w-0">
+                        <p className="font-medium text-slate-900">
+                          {loan.itemName} <span className="text-slate-500 font-normal">× {formatQuantity(loan.quantity, units.find(unit => unit.id === loan.unitId))}</span>
+                        </p>
+                        <p className="text-sm text-slate-500">
+                          {loan.containerName} · Out {formatDistanceToNow(new Date(loan.checkedOutAt), { addSuffix: true })}
+                          {loan.dueAt && <> · Due {format(new Date(loan.dueAt), "MMM d, yyyy")}</>}
+                        </p>
+                      </div>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        className="bg-orange-100 text-orange-700 hover:bg-orange-200"
+                        onClick={() => returnMutation.mutate(loan)}
+                        disabled={returnMutation.isPending}
+                      >
+                        Return
+                      </Button>
+                    </div>
+                  ))}
+                </CardContent>
+              </Card>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,151 @@
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { ArrowLeft, Download, ExternalLink, Truck } from "lucide-react";
+import { Link } from "wouter";
+import { formatQuantity, type LowStockEntry } from "@shared/schema";
+
+// Entries arrive sorted by category, then supplier
+function groupEntries(entries: LowStockEntry[]) {
+  const categories: { name: string; suppliers: { name: string | null; entries: LowStockEntry[] }[] }[] = [];
+  for (const entry of entries) {
+    const categoryName = entry.categoryPath ?? "Uncategorized";
+    let category = categories[categories.length - 1];
+    if (!category || category.name !== categoryName) {
+      category = { name: categoryName, suppliers: [] };
+      categories.push(category);
+    }
+    let supplier = category.suppliers[category.suppliers.length - 1];
+    if (!supplier || supplier.name !== entry.supplierName) {
+      supplier = { name: entry.supplierName, entries: [] };
+      category.suppliers.push(supplier);
+    }
+    supplier.entries.push(entry);
+  }
+  return categories;
+}
+
+export default function Reorder() {
+  const { data: entries = [], isLoading } = useQuery<LowStockEntry[]>({
+    queryKey: ["/api/reports/low-stock"],
+    // Stock changes all over the app, so always start from the current numbers
+    refetchOnMount: "always",
+  });
+
+  const categories = groupEntries(entries);
+
+  return (
+    <div className="flex flex-col h-screen bg-gray-50">
+      {/* Header */}
+      <div className="bg-white border-b border-slate-200 p-4">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-4">
+            <Link href="/">
+              <Button variant="ghost" size="sm">
+                <ArrowLeft className="w-4 h-4 mr-2" />
+                Back to Storage
+              </Button>
+            </Link>
+            <div>
+              <h1 className="text-2xl font-semibold text-slate-900">Reorder</h1>
+              <p className="text-slate-500">
+                {entries.length} {entries.length === 1 ? "item" : "items"} at or under their low quantity alert
+              </p>
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button asChild variant="outline" size="sm">
+              <a href="/api/reports/low-stock?format=csv" download>
+                <Download className="w-4 h-4 mr-2" />
+                CSV
+              </a>
+            </Button>
+            <Button asChild variant="outline" size="sm">
+              <a href="/api/reports/low-stock?format=markdown" download>
+                <Download className="w-4 h-4 mr-2" />
+                Markdown
+              </a>
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-auto p-6">
+        <div className="max-w-4xl mx-auto space-y-4">
+          {isLoading ? (
+            <div className="text-center py-12 text-slate-500">Loading low stock...</div>
+          ) : categories.length === 0 ? (
+            <div className="text-center py-12">
+              <h3 className="text-lg font-medium text-slate-900 mb-2">Nothing to Reorder</h3>
+              <p className="text-slate-500">Every item with a low quantity alert is above it</p>
+            </div>
+          ) : (
+            categories.map((category) => (
+              <Card key={category.name}>
+                <CardHeader className="pb-3">
+                  <CardTitle className="text-lg">{category.name}</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  {category.suppliers.map((supplier) => (
+                    <div key={supplier.name ?? ""} className="space-y-2">
+                      <p className="flex items-center gap-2 text-sm font-medium text-slate-500">
+                        <Truck className="w-4 h-4" />
+                        {supplier.name ?? "No supplier"}
+                      </p>
+                      {supplier.entries.map((entry) => (
+                        <div
+                          key={entry.partId ? `part-${entry.partId}` : `item-${entry.itemId}`}
+                          className="flex items-center justify-between gap-4 border rounded p-3"
+                        >
+                          <div className="min-w-0">
+                            <p className="font-medium text-slate-900 flex items-center gap-2">
+                              {entry.name}
+                              {entry.partId && (
+                                <Badge variant="secondary" className="text-xs">
+                                  {entry.locations.length} locations
+                                </Badge>
+                              )}
+                            </p>
+                            <p className="text-sm text-slate-500">
+                              <span className="text-red-600">
+                                {formatQuantity(entry.quantity, entry.unit)} left
+                              </span>
+                              {" "}(alert at {formatQuantity(entry.threshold, entry.unit)})
+                              {entry.supplierSku && <> · SKU {entry.supplierSku}</>}
+                              {entry.manufacturerPartNumber && <> · MPN {entry.manufacturerPartNumber}</>}
+                            </p>
+                            <p className="text-xs text-slate-400 truncate">{entry.locations.join("; ")}</p>
+                          </div>
+                          <div className="flex items-center gap-3 shrink-0">
+                            <div className="text-right">
+                              <p className="font-medium text-slate-900">
+                                Order {formatQuantity(entry.suggestedQuantity, entry.unit)}
+                              </p>
+                              {entry.unitPrice !== null && (
+                                <p className="text-xs text-slate-500">
+                                  {entry.unitPrice} {entry.currency} each
+                                </p>
+                              )}
+                            </div>
+                            {entry.purchaseUrl && (
+                              <Button asChild size="sm" variant="ghost">
+                                <a href={entry.purchaseUrl} target="_blank" rel="noopener noreferrer" title="Order">
+                                  <ExternalLink className="w-4 h-4" />
+                                </a>
+                              </Button>
+                            )}
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  ))}
+                </CardContent>
+              </Card>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
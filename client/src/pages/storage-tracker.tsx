@@ -1,15 +1,22 @@
-import { useState, useRef } from "react";
+import { useState, useRef, useEffect } from "react";
 import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
+import { undo, redo, undoAction } from "@/lib/undo";
+import { noteChangeSet } from "@/lib/queryClient";
 import { StorageSidebar } from "@/components/storage-sidebar";
 import { StorageGrid } from "@/components/storage-grid";
 import { ItemModal } from "@/components/item-modal";
 import { CategoryModal } from "@/components/category-modal";
 import { ContainerModal } from "@/components/container-modal";
 import { SizeModal } from "@/components/size-modal";
+import { SupplierModal } from "@/components/supplier-modal";
+import { UnitModal } from "@/components/unit-modal";
+import { PartModal } from "@/components/part-modal";
 import { SearchModal } from "@/components/search-modal";
 import { ContainerManagementModal } from "@/components/container-management-modal";
-import type { StorageContainer, Item, Category } from "@shared/schema";
+import { UserManagementModal } from "@/components/user-management-modal";
+import { NotificationSettingsModal } from "@/components/notification-settings-modal";
+import type { StorageContainer, ItemWithCategory, ResolvedCategory, ItemSearchResult } from "@shared/schema";
 
 export default function StorageTracker() {
   const queryClient = useQueryClient();
@@ -20,51 +27,62 @@ export default function StorageTracker() {
   const [itemModalOpen, setItemModalOpen] = useState(false);
   const [categoryModalOpen, setCategoryModalOpen] = useState(false);
   const [sizeModalOpen, setSizeModalOpen] = useState(false);
+  const [supplierModalOpen, setSupplierModalOpen] = useState(false);
+  const [unitModalOpen, setUnitModalOpen] = useState(false);
+  const [partModalOpen, setPartModalOpen] = useState(false);
   const [containerModalOpen, setContainerModalOpen] = useState(false);
   const [searchModalOpen, setSearchModalOpen] = useState(false);
   const [containerManagementModalOpen, setContainerManagementModalOpen] = useState(false);
+  const [userManagementModalOpen, setUserManagementModalOpen] = useState(false);
+  const [notificationSettingsOpen, setNotificationSettingsOpen] = useState(false);
   const [selectedPosition, setSelectedPosition] = useState<{ row: number; column: number } | null>(null);
-  const [editingItem, setEditingItem] = useState<Item | null>(null);
+  const [editingItem, setEditingItem] = useState<ItemWithCategory | null>(null);
   const [editingContainer, setEditingContainer] = useState<StorageContainer | null>(null);
 
   const { data: containers = [] } = useQuery<StorageContainer[]>({
     queryKey: ["/api/containers"],
   });
 
-  const { data: categories = [] } = useQuery<Category[]>({
+  const { data: categories = [] } = useQuery<ResolvedCategory[]>({
     queryKey: ["/api/categories"],
   });
 
   const selectedContainer = containers.find(c => c.id === selectedContainerId);
 
+  // Ctrl+Z / Ctrl+Shift+Z, unless the user is typing in a field
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== "z") return;
+      const target = e.target as HTMLElement;
+      if (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName)) return;
+
+      e.preventDefault();
+      if (e.shiftKey) {
+        redo();
+      } else {
+        undo();
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, []);
+
   const handleAddItem = (row: number, column: number) => {
     setSelectedPosition({ row, column });
     setEditingItem(null);
     setItemModalOpen(true);
   };
 
-  const handleEditItem = (item: Item) => {
+  const handleEditItem = (item: ItemWithCategory) => {
     setEditingItem(item);
     setSelectedPosition(item.position);
     setItemModalOpen(true);
   };
 
-  const handleSearchItemClick = (searchResult: any) => {
-    // Find the full item data
-    const item = {
-      id: searchResult.id,
-      name: searchResult.name,
-      categoryId: searchResult.categoryId,
-      size: searchResult.size,
-      quantity: searchResult.quantity,
-      information: searchResult.information,
-      photo: searchResult.photo,
-      containerId: searchResult.containerId,
-      position: searchResult.position,
-      lowQuantityThreshold: searchResult.lowQuantityThreshold,
-      checkedOutTo: searchResult.checkedOutTo,
-      checkedOutAt: searchResult.checkedOutAt
-    };
+  const handleSearchItemClick = (searchResult: ItemSearchResult) => {
+    // The item itself, without what the search adds for display
+    const { category, containerName, locationPath, ...item } = searchResult;
     
     // Set the container to show the item
     setSelectedContainerId(searchResult.containerId);
@@ -86,7 +104,7 @@ export default function StorageTracker() {
       const url = window.URL.createObjectURL(blob);
       const a = document.createElement("a");
       a.href = url;
-      a.download = `storage-data-${new Date().toISOString().split('T')[0]}.json`;
+      a.download = `storage-data-${new Date().toISOString().split('T')[0]}.zip`;
       document.body.appendChild(a);
       a.click();
       window.URL.revokeObjectURL(url);
@@ -114,26 +132,36 @@ export default function StorageTracker() {
     if (!file) return;
 
     try {
-      const text = await file.text();
-      const data = JSON.parse(text);
-      
-      const response = await fetch("/api/import", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(data),
-      });
+      // The export zip goes up whole so its photos come along; a bare JSON file is sent as data
+      let response: Response;
+      if (file.name.toLowerCase().endsWith(".zip")) {
+        const formData = new FormData();
+        formData.append("file", file);
+        response = await fetch("/api/import", { method: "POST", body: formData });
+      } else {
+        const data = JSON.parse(await file.text());
+        response = await fetch("/api/import", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(data),
+        });
+      }
 
       const result = await response.json();
 
       if (!response.ok) {
         throw new Error(result.error || "Import failed");
       }
+      noteChangeSet(response);
 
       // Refresh all data
       queryClient.invalidateQueries({ queryKey: ["/api/containers"] });
       
       const { summary, errors } = result;
       let description = `Imported: ${summary.imported}, Updated: ${summary.updated}`;
+      if (summary.photos > 0) {
+        description += `, Photos: ${summary.photos}`;
+      }
       if (summary.failed > 0) {
         description += `, Failed: ${summary.failed}`;
       }
@@ -142,6 +170,7 @@ export default function StorageTracker() {
         title: "Import completed",
         description,
         variant: summary.failed > 0 ? "destructive" : "default",
+        action: summary.imported + summary.updated > 0 ? undoAction() : undefined,
       });
 
       // Show detailed errors if any
@@ -187,8 +216,13 @@ export default function StorageTracker() {
         onAddContainer={() => setContainerModalOpen(true)}
         onManageCategories={() => setCategoryModalOpen(true)}
         onManageSizes={() => setSizeModalOpen(true)}
+        onManageSuppliers={() => setSupplierModalOpen(true)}
+        onManageUnits={() => setUnitModalOpen(true)}
+        onManageParts={() => setPartModalOpen(true)}
         onSearch={() => setSearchModalOpen(true)}
         onManageContainers={() => setContainerManagementModalOpen(true)}
+        onManageUsers={() => setUserManagementModalOpen(true)}
+        onManageNotifications={() => setNotificationSettingsOpen(true)}
         onExport={handleExport}
         onImport={handleImport}
       />
@@ -199,6 +233,7 @@ export default function StorageTracker() {
             container={selectedContainer}
             onAddItem={handleAddItem}
             onEditItem={handleEditItem}
+            onOpenContainer={handleContainerSelect}
           />
         ) : (
           <div className="flex-1 flex items-center justify-center">
@@ -233,6 +268,21 @@ export default function StorageTracker() {
         onOpenChange={setSizeModalOpen}
       />
 
+      <SupplierModal
+        open={supplierModalOpen}
+        onOpenChange={setSupplierModalOpen}
+      />
+
+      <UnitModal
+        open={unitModalOpen}
+        onOpenChange={setUnitModalOpen}
+      />
+
+      <PartModal
+        open={partModalOpen}
+        onOpenChange={setPartModalOpen}
+      />
+
       <ContainerModal
         open={containerModalOpen}
         onOpenChange={handleContainerModalClose}
@@ -251,11 +301,21 @@ export default function StorageTracker() {
         onEditContainer={handleEditContainer}
       />
 
+      <NotificationSettingsModal
+        open={notificationSettingsOpen}
+        onOpenChange={setNotificationSettingsOpen}
+      />
+
+      <UserManagementModal
+        open={userManagementModalOpen}
+        onOpenChange={setUserManagementModalOpen}
+      />
+
       {/* Hidden file input for import */}
       <input
         ref={fileInputRef}
         type="file"
-        accept=".json"
+        accept=".zip,.json"
         style={{ display: "none" }}
         onChange={handleFileSelect}
       />
@@ -0,0 +1,208 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { ArrowLeft, Package, RotateCcw, Trash2 } from "lucide-react";
+import { Link } from "wouter";
+import { apiRequest, apiErrorMessage } from "@/lib/queryClient";
+import { undoAction } from "@/lib/undo";
+import { hasRole, type TrashContents } from "@shared/schema";
+
+type TrashEntry = { kind: "items" | "containers"; id: number; name: string };
+
+export default function Trash() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const isAdmin = hasRole(user, "admin");
+
+  const { data: trash, isLoading } = useQuery<TrashContents>({
+    queryKey: ["/api/trash"],
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/trash"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/containers"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/items"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/placements"] });
+  };
+
+  const restoreMutation = useMutation({
+    mutationFn: async ({ kind, id }: TrashEntry) => {
+      const response = await apiRequest("POST", `/api/trash/${kind}/${id}/restore`);
+      return response.json();
+    },
+    onSuccess: (_, entry) => {
+      invalidate();
+      toast({ title: `${entry.name} restored`, action: undoAction() });
+    },
+    onError: (error) => {
+      // The server explains why an item can't go back, e.g. its container is still in the trash
+      toast({ title: "Failed to restore", description: apiErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const purgeMutation = useMutation({
+    mutationFn: async ({ kind, id }: TrashEntry) => {
+      await apiRequest("DELETE", `/api/trash/${kind}/${id}`);
+    },
+    onSuccess: (_, entry) => {
+      invalidate();
+      toast({ title: `${entry.name} permanently deleted` });
+    },
+    onError: () => {
+      toast({ title: "Failed to delete permanently", variant: "destructive" });
+    },
+  });
+
+  const emptyMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("DELETE", "/api/trash");
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Trash emptied" });
+    },
+    onError: () => {
+      toast({ title: "Failed to empty trash", variant: "destructive" });
+    },
+  });
+
+  const handlePurge = (entry: TrashEntry) => {
+    if (confirm(`Permanently delete "${entry.name}"? This can't be undone.`)) {
+      purgeMutation.mutate(entry);
+    }
+  };
+
+  const handleEmpty = () => {
+    if (confirm("Permanently delete everything in the trash? This can't be undone.")) {
+      emptyMutation.mutate();
+    }
+  };
+
+  const containers = trash?.containers || [];
+  const items = trash?.items || [];
+  const isBusy = restoreMutation.isPending || purgeMutation.isPending || emptyMutation.isPending;
+
+  const renderActions = (entry: TrashEntry, canRestore: boolean) => (
+    <div className="flex gap-2 shrink-0">
+      {canRestore && (
+        <Button size="sm" variant="outline" onClick={() => restoreMutation.mutate(entry)} disabled={isBusy}>
+          <RotateCcw className="w-4 h-4 mr-1" />
+          Restore
+        </Button>
+      )}
+      {isAdmin && (
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => handlePurge(entry)}
+          disabled={isBusy}
+          className="text-red-600 hover:text-red-700 hover:bg-red-50"
+        >
+          <Trash2 className="w-4 h-4 mr-1" />
+          Delete Forever
+        </Button>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="flex flex-col h-screen bg-gray-50">
+      {/* Header */}
+      <div className="bg-white border-b border-slate-200 p-4">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-4">
+            <Link href="/">
+              <Button variant="ghost" size="sm">
+                <ArrowLeft className="w-4 h-4 mr-2" />
+                Back to Storage
+              </Button>
+            </Link>
+            <div>
+              <h1 className="text-2xl font-semibold text-slate-900">Trash</h1>
+              <p className="text-slate-500">
+                {trash ? `Deleted entries are removed for good after ${trash.retentionDays} days` : "Recently deleted"}
+              </p>
+            </div>
+          </div>
+          {isAdmin && (
+            <Button
+              variant="outline"
+              onClick={handleEmpty}
+              disabled={isBusy || (containers.length === 0 && items.length === 0)}
+              className="text-red-600 hover:text-red-700 hover:bg-red-50"
+            >
+              <Trash2 className="w-4 h-4 mr-2" />
+              Empty Trash
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-auto p-6">
+        <div className="max-w-4xl mx-auto space-y-4">
+          {isLoading ? (
+            <div className="text-center py-12 text-slate-500">Loading trash...</div>
+          ) : containers.length === 0 && items.length === 0 ? (
+            <div className="text-center py-12">
+              <h3 className="text-lg font-medium text-slate-900 mb-2">Trash is Empty</h3>
+              <p className="text-slate-500">Deleted containers and items show up here</p>
+            </div>
+          ) : (
+            <>
+              {containers.length > 0 && (
+                <Card>
+                  <CardHeader className="pb-3">
+                    <CardTitle className="text-lg">Containers</CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-2">
+                    {containers.map((container) => (
+                      <div key={container.id} className="flex items-center justify-between gap-4 border rounded p-3">
+                        <div className="flex items-center gap-3 min-w-0">
+                          <Package className="w-5 h-5 text-slate-400 shrink-0" />
+                          <div className="min-w-0">
+                            <p className="font-medium text-slate-900 truncate">{container.name}</p>
+                            <p className="text-sm text-slate-500">
+                              {container.itemCount} {container.itemCount === 1 ? "item" : "items"} · Deleted{" "}
+                              {formatDistanceToNow(new Date(container.deletedAt!), { addSuffix: true })}
+                            </p>
+                          </div>
+                        </div>
+                        {renderActions({ kind: "containers", id: container.id, name: container.name }, isAdmin)}
+                      </div>
+                    ))}
+                  </CardContent>
+                </Card>
+              )}
+
+              {items.length > 0 && (
+                <Card>
+                  <CardHeader className="pb-3">
+                    <CardTitle className="text-lg">Items</CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-2">
+                    {items.map((item) => (
+                      <div key={item.id} className="flex items-center justify-between gap-4 border rounded p-3">
+                        <div className="min-w-0">
+                          <p className="font-medium text-slate-900 truncate">{item.name}</p>
+                          <p className="text-sm text-slate-500">
+                            {item.containerName} · Row {item.position.row + 1}, Col {item.position.column + 1} · Deleted{" "}
+                            {formatDistanceToNow(new Date(item.deletedAt!), { addSuffix: true })}
+                          </p>
+                        </div>
+                        {renderActions({ kind: "items", id: item.id, name: item.name }, true)}
+                      </div>
+                    ))}
+                  </CardContent>
+                </Card>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
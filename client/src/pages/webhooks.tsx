@@ -0,0 +1,275 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { format, formatDistanceToNow } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Card, CardContent } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { WebhookModal } from "@/components/webhook-modal";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, apiErrorMessage } from "@/lib/queryClient";
+import { ArrowLeft, Plus, Edit2, Trash2, Copy, RotateCcw } from "lucide-react";
+import { Link } from "wouter";
+import type { Webhook, WebhookDeliveryWithUrl } from "@shared/schema";
+
+const statusStyles: Record<WebhookDeliveryWithUrl["status"], string> = {
+  pending: "bg-amber-100 text-amber-700",
+  succeeded: "bg-emerald-100 text-emerald-700",
+  failed: "bg-red-100 text-red-700",
+};
+
+export default function Webhooks() {
+  const [modalOpen, setModalOpen] = useState(false);
+  const [editingWebhook, setEditingWebhook] = useState<Webhook | null>(null);
+  const [webhookFilter, setWebhookFilter] = useState("all");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: webhooks = [], isLoading } = useQuery<Webhook[]>({
+    queryKey: ["/api/webhooks"],
+  });
+
+  const deliveriesUrl = webhookFilter === "all"
+    ? "/api/webhooks/deliveries"
+    : `/api/webhooks/deliveries?webhookId=${webhookFilter}`;
+  const { data: deliveries = [] } = useQuery<WebhookDeliveryWithUrl[]>({
+    queryKey: [deliveriesUrl],
+    // Deliveries and retries happen in the background
+    refetchInterval: 10 * 1000,
+  });
+
+  const invalidateDeliveries = () =>
+    queryClient.invalidateQueries({ predicate: (query) => String(query.queryKey[0]).startsWith("/api/webhooks/deliveries") });
+
+  const toggleMutation = useMutation({
+    mutationFn: async (webhook: Webhook) => {
+      const response = await apiRequest("PATCH", `/api/webhooks/${webhook.id}`, { active: !webhook.active });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/webhooks"] });
+    },
+    onError: (error) => {
+      toast({ title: "Failed to update webhook", description: apiErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/webhooks/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/webhooks"] });
+      invalidateDeliveries();
+      setWebhookFilter("all");
+      toast({ title: "Webhook deleted successfully" });
+    },
+    onError: (error) => {
+      toast({ title: "Failed to delete webhook", description: apiErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const redeliverMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequest("POST", `/api/webhooks/deliveries/${id}/redeliver`);
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidateDeliveries();
+      toast({ title: "Delivery queued again" });
+    },
+    onError: (error) => {
+      toast({ title: "Failed to redeliver", description: apiErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const handleAdd = () => {
+    setEditingWebhook(null);
+    setModalOpen(true);
+  };
+
+  const handleEdit = (webhook: Webhook) => {
+    setEditingWebhook(webhook);
+    setModalOpen(true);
+  };
+
+  const handleDelete = (webhook: Webhook) => {
+    if (confirm(`Delete the webhook to ${webhook.url} and its delivery log?`)) {
+      deleteMutation.mutate(webhook.id);
+    }
+  };
+
+  const handleCopySecret = async (webhook: Webhook) => {
+    try {
+      await navigator.clipboard.writeText(webhook.secret);
+      toast({ title: "Secret copied" });
+    } catch {
+      toast({ title: "Failed to copy secret", variant: "destructive" });
+    }
+  };
+
+  return (
+    <div className="flex flex-col h-screen bg-gray-50">
+      {/* Header */}
+      <div className="bg-white border-b border-slate-200 p-4">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-4">
+            <Link href="/">
+              <Button variant="ghost" size="sm">
+                <ArrowLeft className="w-4 h-4 mr-2" />
+                Back to Storage
+              </Button>
+            </Link>
+            <div>
+              <h1 className="text-2xl font-semibold text-slate-900">Webhooks</h1>
+              <p className="text-slate-500">Inventory changes sent as signed JSON POSTs to other tools</p>
+            </div>
+          </div>
+          <Button onClick={handleAdd} className="bg-blue-600 hover:bg-blue-700">
+            <Plus className="w-4 h-4 mr-2" />
+            Add Webhook
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-auto p-6">
+        <div className="max-w-6xl mx-auto space-y-6">
+          {/* Subscriptions */}
+          <div className="space-y-2">
+            {isLoading ? (
+              <div className="text-center py-12 text-slate-500">Loading webhooks...</div>
+            ) : webhooks.length === 0 ? (
+              <div className="text-center py-12">
+                <h3 className="text-lg font-medium text-slate-900 mb-2">No Webhooks</h3>
+                <p className="text-slate-500">Add a webhook to tell other tools about inventory changes</p>
+              </div>
+            ) : (
+              webhooks.map((webhook) => (
+                <Card key={webhook.id}>
+                  <CardContent className="p-4">
+                    <div className="flex items-start justify-between gap-4">
+                      <div className="min-w-0">
+                        <p className="font-medium text-slate-900 break-all">{webhook.url}</p>
+                        {webhook.description && (
+                          <p className="text-sm text-slate-500">{webhook.description}</p>
+                        )}
+                        <div className="flex flex-wrap gap-1 mt-2">
+                          {webhook.events.map((event) => (
+                            <Badge key={event} variant="secondary" className="text-xs font-mono">{event}</Badge>
+                          ))}
+                        </div>
+                      </div>
+                      <div className="flex items-center gap-1 shrink-0">
+                        <Switch
+                          checked={webhook.active}
+                          onCheckedChange={() => toggleMutation.mutate(webhook)}
+                          disabled={toggleMutation.isPending}
+                          title={webhook.active ? "Active" : "Paused"}
+                        />
+                        <Button size="sm" variant="ghost" onClick={() => handleCopySecret(webhook)} title="Copy secret">
+                          <Copy className="w-3 h-3" />
+                        </Button>
+                        <Button size="sm" variant="ghost" onClick={() => handleEdit(webhook)}>
+                          <Edit2 className="w-3 h-3" />
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => handleDelete(webhook)}
+                          disabled={deleteMutation.isPending}
+                        >
+                          <Trash2 className="w-3 h-3" />
+                        </Button>
+                      </div>
+                    </div>
+                  </CardContent>
+                </Card>
+              ))
+            )}
+          </div>
+
+          {/* Delivery log */}
+          <div className="bg-white rounded-lg border border-slate-200">
+            <div className="flex items-center justify-between gap-4 p-4 border-b border-slate-200">
+              <h2 className="text-lg font-semibold text-slate-900">Deliveries</h2>
+              <Select value={webhookFilter} onValueChange={setWebhookFilter}>
+                <SelectTrigger className="w-64">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All webhooks</SelectItem>
+                  {webhooks.map((webhook) => (
+                    <SelectItem key={webhook.id} value={String(webhook.id)}>
+                      {webhook.description || webhook.url}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {deliveries.length === 0 ? (
+              <div className="text-center py-12 text-slate-500">Nothing delivered yet</div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-40">When</TableHead>
+                    <TableHead className="w-44">Event</TableHead>
+                    <TableHead>Webhook</TableHead>
+                    <TableHead className="w-28">Status</TableHead>
+                    <TableHead>Result</TableHead>
+                    <TableHead className="w-12" />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {deliveries.map((delivery) => (
+                    <TableRow key={delivery.id}>
+                      <TableCell className="text-sm text-slate-500 whitespace-nowrap">
+                        {format(new Date(delivery.createdAt), "MMM d, yyyy HH:mm:ss")}
+                      </TableCell>
+                      <TableCell className="text-xs font-mono">{delivery.event}</TableCell>
+                      <TableCell className="text-sm text-slate-600 break-all">{delivery.url}</TableCell>
+                      <TableCell>
+                        <Badge variant="secondary" className={`capitalize ${statusStyles[delivery.status]}`}>
+                          {delivery.status}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-xs text-slate-600">
+                        {delivery.attempts} {delivery.attempts === 1 ? "attempt" : "attempts"}
+                        {delivery.error && <span className="block text-red-600 break-all">{delivery.error}</span>}
+                        {delivery.status === "succeeded" && delivery.responseStatus && (
+                          <span className="block">Answered {delivery.responseStatus}</span>
+                        )}
+                        {delivery.status === "pending" && delivery.nextAttemptAt && delivery.attempts > 0 && (
+                          <span className="block">
+                            Retrying {formatDistanceToNow(new Date(delivery.nextAttemptAt), { addSuffix: true })}
+                          </span>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {delivery.status !== "pending" && (
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => redeliverMutation.mutate(delivery.id)}
+                            disabled={redeliverMutation.isPending}
+                            title="Send again"
+                          >
+                            <RotateCcw className="w-3 h-3" />
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </div>
+        </div>
+      </div>
+
+      <WebhookModal open={modalOpen} onOpenChange={setModalOpen} editingWebhook={editingWebhook} />
+    </div>
+  );
+}
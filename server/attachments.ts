@@ -0,0 +1,149 @@
+import type { Express } from "express";
+import { randomUUID } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import multer from "multer";
+import { storage } from "./storage";
+import { requireRole } from "./auth";
+import { UPLOADS_DIR } from "./photos";
+import { attachmentFileTypes, MAX_ATTACHMENT_BYTES } from "@shared/schema";
+
+const ATTACHMENTS_DIR = path.join(UPLOADS_DIR, "attachments");
+
+// Files without an attachment row are left over from failed uploads or purged items.
+// The age check keeps an upload that is still being saved.
+const ORPHAN_AGE = 60 * 60 * 1000;
+const SWEEP_INTERVAL = 60 * 60 * 1000;
+
+// Raised for files we don't accept, before anything is written to disk
+class AttachmentTypeError extends Error {}
+
+const upload = multer({
+  storage: multer.diskStorage({
+    destination: ATTACHMENTS_DIR,
+    filename: (req, file, callback) => {
+      callback(null, `${randomUUID()}${path.extname(file.originalname).toLowerCase()}`);
+    },
+  }),
+  limits: { fileSize: MAX_ATTACHMENT_BYTES, files: 1 },
+  // The browser's MIME type has to be one we accept and agree with the extension
+  fileFilter: (req, file, callback) => {
+    const extensions = attachmentFileTypes[file.mimetype];
+    if (!extensions || !extensions.includes(path.extname(file.originalname).toLowerCase())) {
+      return callback(new AttachmentTypeError(`${file.originalname} isn't a file type that can be attached`));
+    }
+    callback(null, true);
+  },
+});
+
+async function removeOrphanedFiles() {
+  try {
+    const used = new Set(await storage.getAttachmentStoredNames());
+    const cutoff = Date.now() - ORPHAN_AGE;
+    for (const name of await fs.readdir(ATTACHMENTS_DIR)) {
+      if (used.has(name)) continue;
+      const file = path.join(ATTACHMENTS_DIR, name);
+      const { mtimeMs } = await fs.stat(file);
+      if (mtimeMs < cutoff) await fs.rm(file, { force: true });
+    }
+  } catch (error) {
+    console.error("Error removing orphaned attachments:", error);
+  }
+}
+
+// "inline; filename*=UTF-8''..." so names with accents or spaces survive
+function contentDisposition(type: "inline" | "attachment", fileName: string) {
+  return `${type}; filename*=UTF-8''${encodeURIComponent(fileName)}`;
+}
+
+export async function setupAttachments(app: Express) {
+  await fs.mkdir(ATTACHMENTS_DIR, { recursive: true });
+  removeOrphanedFiles();
+  setInterval(removeOrphanedFiles, SWEEP_INTERVAL);
+
+  app.get("/api/items/:id/attachments", async (req, res) => {
+    try {
+      const itemId = parseInt(req.params.id);
+      const attachments = await storage.getItemAttachments(itemId);
+      res.json(attachments);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch attachments" });
+    }
+  });
+
+  app.post("/api/items/:id/attachments", requireRole("editor"), (req, res, next) => {
+    upload.single("file")(req, res, (error: unknown) => {
+      if (error instanceof multer.MulterError) {
+        const message = error.code === "LIMIT_FILE_SIZE"
+          ? `Attachments can be at most ${MAX_ATTACHMENT_BYTES / 1024 / 1024} MB`
+          : error.message;
+        return res.status(400).json({ message });
+      }
+      if (error instanceof AttachmentTypeError) {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error) return next(error);
+      next();
+    });
+  }, async (req, res) => {
+    const file = req.file;
+    if (!file) {
+      return res.status(400).json({ message: "No file uploaded" });
+    }
+    try {
+      const itemId = parseInt(req.params.id);
+      const item = await storage.getItem(itemId);
+      if (!item) {
+        await fs.rm(file.path, { force: true });
+        return res.status(404).json({ message: "Item not found" });
+      }
+      const attachment = await storage.createAttachment({
+        itemId,
+        // Multipart headers carry the name as latin1 bytes of the UTF-8 original
+        fileName: Buffer.from(file.originalname, "latin1").toString("utf8"),
+        storedName: file.filename,
+        mimeType: file.mimetype,
+        size: file.size,
+        uploadedBy: req.user!.username,
+      });
+      res.status(201).json(attachment);
+    } catch (error) {
+      await fs.rm(file.path, { force: true });
+      res.status(500).json({ message: "Failed to save attachment" });
+    }
+  });
+
+  // Opens in the browser (PDFs and images) unless ?download is given
+  app.get("/api/attachments/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const attachment = await storage.getAttachment(id);
+      if (!attachment) {
+        return res.status(404).json({ message: "Attachment not found" });
+      }
+      const disposition = req.query.download !== undefined ? "attachment" : "inline";
+      res.setHeader("Content-Type", attachment.mimeType);
+      res.setHeader("Content-Disposition", contentDisposition(disposition, attachment.fileName));
+      res.setHeader("X-Content-Type-Options", "nosniff");
+      res.sendFile(path.join(ATTACHMENTS_DIR, attachment.storedName), error => {
+        if (error && !res.headersSent) res.status(404).json({ message: "Attachment file is missing" });
+      });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch attachment" });
+    }
+  });
+
+  app.delete("/api/attachments/:id", requireRole("editor"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const deleted = await storage.deleteAttachment(id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Attachment not found" });
+      }
+      await fs.rm(path.join(ATTACHMENTS_DIR, deleted.storedName), { force: true });
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete attachment" });
+    }
+  });
+}
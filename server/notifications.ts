@@ -0,0 +1,241 @@
+import type { Express } from "express";
+import nodemailer from "nodemailer";
+import { z } from "zod";
+import { differenceInDays, format } from "date-fns";
+import { storage } from "./storage";
+import { requireAuth } from "./auth";
+import {
+  formatQuantity,
+  notificationPreferencesSchema,
+  type InsertNotificationPreferences,
+  type NotificationChannel,
+  type NotificationPreferences,
+  type NotificationRule,
+  type User,
+} from "@shared/schema";
+
+const CHECK_INTERVAL = parseInt(process.env.NOTIFICATION_INTERVAL_MINUTES || "15") * 60 * 1000;
+const WEBHOOK_TIMEOUT = 10 * 1000;
+// How many notifications the bell shows
+const NOTIFICATION_LIMIT = 50;
+
+// Email goes out through SMTP_HOST; a local sink such as MailHog (SMTP_HOST=localhost, SMTP_PORT=1025)
+// is enough for trying it out. Without SMTP_HOST the email channel is off.
+const mailer = process.env.SMTP_HOST
+  ? nodemailer.createTransport({
+      host: process.env.SMTP_HOST,
+      port: parseInt(process.env.SMTP_PORT || "587"),
+      secure: process.env.SMTP_SECURE === "true",
+      auth: process.env.SMTP_USER ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASSWORD } : undefined,
+    })
+  : null;
+const MAIL_FROM = process.env.SMTP_FROM || "Storage Tracker <storage-tracker@localhost>";
+// Turns links into full URLs in emails and webhooks, e.g. https://storage.example.com
+const APP_URL = process.env.APP_URL?.replace(/\/$/, "");
+
+const defaultPreferences: InsertNotificationPreferences = {
+  email: null,
+  webhookUrl: null,
+  lowStockChannels: [],
+  longLoanChannels: [],
+  longLoanDays: 14,
+};
+
+interface Message {
+  rule: NotificationRule;
+  title: string;
+  body: string;
+  link: string;
+}
+
+type Recipient = { user: User; preferences: InsertNotificationPreferences };
+
+// Each channel sends one message to one user; a new channel only needs an entry here
+const channels: Record<NotificationChannel, (recipient: Recipient, message: Message) => Promise<void>> = {
+  inApp: async ({ user }, message) => {
+    await storage.createNotification({ userId: user.id, ...message });
+  },
+  email: async ({ preferences }, message) => {
+    if (!mailer) throw new Error("Email isn't set up on the server");
+    if (!preferences.email) throw new Error("No email address set");
+    await mailer.sendMail({
+      from: MAIL_FROM,
+      to: preferences.email,
+      subject: message.title,
+      text: APP_URL ? `${message.body}\n\n${APP_URL}${message.link}` : message.body,
+    });
+  },
+  webhook: async ({ user, preferences }, message) => {
+    if (!preferences.webhookUrl) throw new Error("No webhook set");
+    const response = await fetch(preferences.webhookUrl, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        ...message,
+        link: APP_URL ? `${APP_URL}${message.link}` : message.link,
+        username: user.username,
+        sentAt: new Date().toISOString(),
+      }),
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT),
+    });
+    if (!response.ok) throw new Error(`Webhook answered ${response.status}`);
+  },
+};
+
+// Sends through every channel it can; returns the ones that failed with why
+async function deliver(recipient: Recipient, selected: NotificationChannel[], message: Message) {
+  const failed: { channel: NotificationChannel; message: string }[] = [];
+  for (const channel of selected) {
+    try {
+      await channels[channel](recipient, message);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      console.error(`Error sending ${channel} notification to ${recipient.user.username}:`, reason);
+      failed.push({ channel, message: reason });
+    }
+  }
+  return failed;
+}
+
+// The messages each rule would send right now, keyed by the condition they are about
+async function currentAlerts(defaultCurrency: string) {
+  const [lowStock, loans] = await Promise.all([
+    storage.getLowStockReport(defaultCurrency),
+    storage.getOutstandingCheckouts(),
+  ]);
+
+  const lowStockAlerts = new Map<string, Message>(lowStock.map(entry => [
+    entry.partId ? `lowStock:part:${entry.partId}` : `lowStock:item:${entry.itemId}`,
+    {
+      rule: "lowStock",
+      title: `${entry.name} is running low`,
+      body: `${formatQuantity(entry.quantity, entry.unit)} left (alert at ${formatQuantity(entry.threshold, entry.unit)}) in ${entry.locations.join("; ")}`,
+      link: "/reorder",
+    },
+  ]));
+
+  // Depends on how many days each user counts as long
+  const longLoanAlerts = (days: number) => new Map<string, Message>(loans
+    .filter(loan => differenceInDays(new Date(), loan.checkedOutAt) >= days)
+    .map(loan => [
+      `longLoan:checkout:${loan.id}`,
+      {
+        rule: "longLoan",
+        title: `${loan.itemName} has been out for ${differenceInDays(new Date(), loan.checkedOutAt)} days`,
+        body: `Checked out to ${loan.borrower} from ${loan.containerName}` +
+          (loan.dueAt ? `, due ${format(loan.dueAt, "MMM d, yyyy")}` : ""),
+        link: "/loans",
+      },
+    ]));
+
+  return { lowStockAlerts, longLoanAlerts };
+}
+
+// Notifies each user of conditions that started since the last check and forgets the ones that ended
+async function checkNotifications(defaultCurrency: string) {
+  try {
+    const allPreferences = await storage.getAllNotificationPreferences();
+    if (allPreferences.length === 0) return;
+    const { lowStockAlerts, longLoanAlerts } = await currentAlerts(defaultCurrency);
+
+    for (const preferences of allPreferences) {
+      const user = await storage.getUser(preferences.userId);
+      if (!user) continue;
+
+      const active = new Map<string, { message: Message; channels: NotificationChannel[] }>();
+      if (preferences.lowStockChannels.length > 0) {
+        lowStockAlerts.forEach((message, key) => active.set(key, { message, channels: preferences.lowStockChannels }));
+      }
+      if (preferences.longLoanChannels.length > 0) {
+        longLoanAlerts(preferences.longLoanDays).forEach((message, key) => active.set(key, { message, channels: preferences.longLoanChannels }));
+      }
+
+      const known = await storage.getNotificationAlertKeys(user.id);
+      await storage.clearNotificationAlerts(user.id, known.filter(key => !active.has(key)));
+      for (const [key, alert] of Array.from(active)) {
+        if (known.includes(key)) continue;
+        // Recorded even if a channel fails, so a broken mail server doesn't repeat the in-app ones
+        await storage.addNotificationAlert(user.id, key);
+        await deliver({ user, preferences }, alert.channels, alert.message);
+      }
+    }
+  } catch (error) {
+    console.error("Error checking notifications:", error);
+  }
+}
+
+function withDefaults(preferences: NotificationPreferences | undefined): InsertNotificationPreferences {
+  if (!preferences) return defaultPreferences;
+  const { userId, ...rest } = preferences;
+  return rest;
+}
+
+export function setupNotifications(app: Express, defaultCurrency: string) {
+  checkNotifications(defaultCurrency);
+  setInterval(() => checkNotifications(defaultCurrency), CHECK_INTERVAL);
+
+  app.get("/api/notifications", requireAuth, async (req, res) => {
+    try {
+      const notifications = await storage.getNotifications(req.user!.id, NOTIFICATION_LIMIT);
+      res.json(notifications);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch notifications" });
+    }
+  });
+
+  // { ids } marks those notifications read; without it, all of them
+  app.post("/api/notifications/read", requireAuth, async (req, res) => {
+    try {
+      const { ids } = z.object({ ids: z.array(z.number().int()).min(1).optional() }).parse(req.body);
+      await storage.markNotificationsRead(req.user!.id, ids);
+      res.status(204).send();
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to mark notifications read" });
+    }
+  });
+
+  app.get("/api/notifications/preferences", requireAuth, async (req, res) => {
+    try {
+      const preferences = await storage.getNotificationPreferences(req.user!.id);
+      res.json({ ...withDefaults(preferences), emailAvailable: !!mailer });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch notification settings" });
+    }
+  });
+
+  app.put("/api/notifications/preferences", requireAuth, async (req, res) => {
+    try {
+      const validatedData = notificationPreferencesSchema.parse(req.body);
+      const preferences = await storage.saveNotificationPreferences(req.user!.id, validatedData);
+      res.json({ ...withDefaults(preferences), emailAvailable: !!mailer });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to save notification settings" });
+    }
+  });
+
+  // Sends a test message through every channel the user has picked
+  app.post("/api/notifications/test", requireAuth, async (req, res) => {
+    try {
+      const preferences = withDefaults(await storage.getNotificationPreferences(req.user!.id));
+      const selected = Array.from(new Set([...preferences.lowStockChannels, ...preferences.longLoanChannels]));
+      if (selected.length === 0) {
+        return res.status(400).json({ message: "Pick a channel for at least one rule first" });
+      }
+      const failed = await deliver({ user: req.user!, preferences }, selected, {
+        rule: "lowStock",
+        title: "Test notification",
+        body: "Notifications from Storage Tracker reach you here.",
+        link: "/",
+      });
+      res.json({ sent: selected.filter(channel => !failed.some(f => f.channel === channel)), failed });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to send test notification" });
+    }
+  });
+}
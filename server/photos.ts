@@ -0,0 +1,148 @@
+import type { Express } from "express";
+import { randomUUID } from "crypto";
+import { existsSync, promises as fs } from "fs";
+import path from "path";
+import multer from "multer";
+import sharp from "sharp";
+import { storage } from "./storage";
+import { requireRole } from "./auth";
+import { log } from "./vite";
+
+// Photos are kept as JPEG under <UPLOADS_DIR>/photos, with a small WebP copy under
+// <UPLOADS_DIR>/thumbnails for the grid and search results
+export const UPLOADS_DIR = path.resolve(process.env.UPLOADS_DIR || "uploads");
+const PHOTOS_DIR = path.join(UPLOADS_DIR, "photos");
+const THUMBNAILS_DIR = path.join(UPLOADS_DIR, "thumbnails");
+
+const MAX_UPLOAD_BYTES = 20 * 1024 * 1024;
+const MAX_PHOTO_SIZE = 2048;
+const THUMBNAIL_SIZE = 256;
+
+// Uploads nothing refers to are removed after a day; replaced photos stay that long so
+// undoing the change brings them back
+const UNUSED_PHOTO_AGE = 24 * 60 * 60 * 1000;
+const SWEEP_INTERVAL = 60 * 60 * 1000;
+
+const photoNamePattern = /^[0-9a-f-]+\.jpg$/;
+
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_UPLOAD_BYTES, files: 1 },
+});
+
+export function photoPath(name: string): string | null {
+  return photoNamePattern.test(name) ? path.join(PHOTOS_DIR, name) : null;
+}
+
+function thumbnailPath(name: string): string | null {
+  return photoNamePattern.test(name) ? path.join(THUMBNAILS_DIR, name.replace(/\.jpg$/, ".webp")) : null;
+}
+
+function saveThumbnail(image: ReturnType<typeof sharp>, name: string) {
+  return image
+    .clone()
+    .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: "cover" })
+    .webp({ quality: 75 })
+    .toFile(thumbnailPath(name)!);
+}
+
+// Turns the photo the right way up, since phone cameras only record the rotation
+async function savePhoto(buffer: Buffer): Promise<string> {
+  const name = `${randomUUID()}.jpg`;
+  const image = sharp(buffer).rotate();
+  await Promise.all([
+    image
+      .clone()
+      .resize(MAX_PHOTO_SIZE, MAX_PHOTO_SIZE, { fit: "inside", withoutEnlargement: true })
+      .jpeg({ quality: 85 })
+      .toFile(photoPath(name)!),
+    saveThumbnail(image, name),
+  ]);
+  return name;
+}
+
+// Puts a photo from an export zip back under its own name, so imported items find it.
+// Returns false when the name isn't a photo name or the photo is already there.
+export async function restorePhoto(name: string, buffer: Buffer): Promise<boolean> {
+  const file = photoPath(name);
+  if (!file || existsSync(file)) return false;
+  // Exported photos were saved by savePhoto, so only the thumbnail needs making again
+  await saveThumbnail(sharp(buffer), name);
+  await fs.writeFile(file, buffer);
+  return true;
+}
+
+async function removeUnusedPhotos() {
+  try {
+    const used = new Set(await storage.getItemPhotos());
+    const cutoff = Date.now() - UNUSED_PHOTO_AGE;
+    let removed = 0;
+
+    for (const name of await fs.readdir(PHOTOS_DIR)) {
+      if (used.has(name) || !photoNamePattern.test(name)) continue;
+      const { mtimeMs } = await fs.stat(photoPath(name)!);
+      if (mtimeMs > cutoff) continue;
+      await fs.rm(photoPath(name)!, { force: true });
+      await fs.rm(thumbnailPath(name)!, { force: true });
+      removed++;
+    }
+    if (removed > 0) {
+      log(`Removed ${removed} unused photos`, "photos");
+    }
+  } catch (error) {
+    console.error("Error removing unused photos:", error);
+  }
+}
+
+export async function setupPhotos(app: Express) {
+  await fs.mkdir(PHOTOS_DIR, { recursive: true });
+  await fs.mkdir(THUMBNAILS_DIR, { recursive: true });
+  removeUnusedPhotos();
+  setInterval(removeUnusedPhotos, SWEEP_INTERVAL);
+
+  // Uploads a photo and returns its name, which the item form then saves as the item's photo
+  app.post("/api/photos", requireRole("editor"), (req, res, next) => {
+    upload.single("photo")(req, res, (error: unknown) => {
+      if (error instanceof multer.MulterError) {
+        const message = error.code === "LIMIT_FILE_SIZE"
+          ? `Photos can be at most ${MAX_UPLOAD_BYTES / 1024 / 1024} MB`
+          : error.message;
+        return res.status(400).json({ message });
+      }
+      if (error) return next(error);
+      next();
+    });
+  }, async (req, res) => {
+    if (!req.file) {
+      return res.status(400).json({ message: "No photo uploaded" });
+    }
+    try {
+      const photo = await savePhoto(req.file.buffer);
+      res.status(201).json({ photo });
+    } catch (error) {
+      // sharp rejects anything that isn't an image it can decode
+      res.status(400).json({ message: "That file isn't an image we can read" });
+    }
+  });
+
+  app.get("/api/photos/:name", (req, res) => {
+    const file = photoPath(req.params.name);
+    if (!file) {
+      return res.status(404).json({ message: "Photo not found" });
+    }
+    // Names are never reused, so browsers can keep photos for good
+    res.sendFile(file, { maxAge: "1y", immutable: true }, error => {
+      if (error && !res.headersSent) res.status(404).json({ message: "Photo not found" });
+    });
+  });
+
+  app.get("/api/photos/:name/thumbnail", (req, res) => {
+    const file = thumbnailPath(req.params.name);
+    if (!file) {
+      return res.status(404).json({ message: "Photo not found" });
+    }
+    res.sendFile(file, { maxAge: "1y", immutable: true }, error => {
+      if (error && !res.headersSent) res.status(404).json({ message: "Photo not found" });
+    });
+  });
+}
@@ -0,0 +1,32 @@
+import { storage } from "./storage";
+import { coversCell, footprintError, footprintsConflict, type ItemFootprint } from "@shared/schema";
+
+// Returns an error message if the item can't be placed where requested.
+// Items listed in movingItemIds are being placed too, so they don't count as occupants.
+export async function validateItemPlacement(
+  containerId: number,
+  footprint: ItemFootprint,
+  movingItemIds: number[] = [],
+): Promise<string | null> {
+  const container = await storage.getStorageContainer(containerId);
+  if (!container) return "Container not found";
+
+  const gridError = footprintError(container.gridConfig, footprint);
+  if (gridError) return gridError;
+
+  const containers = await storage.getStorageContainers();
+  const coversContainer = containers.some(c =>
+    c.parentContainerId === containerId &&
+    c.parentPosition &&
+    coversCell(footprint, c.parentPosition)
+  );
+  if (coversContainer) return "That cell holds a container";
+
+  const neighbours = await storage.getItemsByContainer(containerId);
+  const overlapsItem = neighbours.some(item =>
+    !movingItemIds.includes(item.id) && footprintsConflict(footprint, item)
+  );
+  if (overlapsItem) return "That cell is already occupied";
+
+  return null;
+}
@@ -1,10 +1,225 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
-import { insertStorageContainerSchema, insertCategorySchema, insertSizeOptionSchema, insertItemSchema } from "@shared/schema";
+import { storage, StockError, OnLoanError } from "./storage";
+import { setupAuth, requireRole, hashPassword, toPublicUser } from "./auth";
+import { setupUndo, changeActor, rememberChange } from "./undo";
+import { setupTrash } from "./trash";
+import { setupPhotos, photoPath, restorePhoto } from "./photos";
+import { setupAttachments } from "./attachments";
+import { setupNotifications } from "./notifications";
+import { setupWebhooks } from "./webhooks";
+import { validateItemPlacement } from "./placement";
+import { shoppingListCsv, shoppingListMarkdown } from "./shopping-list";
+import { log } from "./vite";
+import { insertStorageContainerSchema, insertCategorySchema, insertSizeOptionSchema, insertSupplierSchema, insertUnitSchema, insertPartSchema, insertItemSchema, insertLocationSchema, insertFloorplanPlacementSchema, itemAdjustmentSchema, insertItemLotSchema, moveItemsSchema, checkoutRequestSchema, returnRequestSchema, insertUserSchema, updateUserSchema, auditQuerySchema, footprintsConflict, itemAttributesSchema, roundQuantity, EXPIRY_WARNING_DAYS, type InsertStorageContainer, type Item, type ItemAttributeValue } from "@shared/schema";
 import { z } from "zod";
+import archiver from "archiver";
+import AdmZip from "adm-zip";
+import multer from "multer";
+import path from "path";
+import { existsSync } from "fs";
+
+// Prices entered without a currency are valued in this one
+const DEFAULT_CURRENCY = (process.env.DEFAULT_CURRENCY || "EUR").toUpperCase();
+
+// The export zip holds the data under this name, next to a photos folder
+const EXPORT_DATA_FILE = "storage-data-export.json";
+const MAX_IMPORT_BYTES = 200 * 1024 * 1024;
+
+const importUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_IMPORT_BYTES, files: 1 },
+});
+
+// Whether nesting id under parent would create a cycle, i.e. id is the parent or one of its ancestors
+function nestingCycle<T extends { id: number }>(
+  nodes: T[],
+  parent: T,
+  parentIdOf: (node: T) => number | null,
+  id: number | null,
+): boolean {
+  let ancestor: T | undefined = parent;
+  while (ancestor) {
+    if (ancestor.id === id) return true;
+    const ancestorParentId = parentIdOf(ancestor);
+    ancestor = nodes.find(node => node.id === ancestorParentId);
+  }
+  return false;
+}
+
+// Returns an error message if the container can't be nested where requested
+async function validateContainerNesting(
+  id: number | null,
+  data: Partial<InsertStorageContainer>,
+): Promise<string | null> {
+  const parentId = data.parentContainerId;
+  const position = data.parentPosition;
+  if (!parentId) return null;
+  if (!position) return "A parent position is required when nesting a container";
+
+  const containers = await storage.getStorageContainers();
+  const parent = containers.find(c => c.id === parentId);
+  if (!parent) return "Parent container not found";
+
+  if (nestingCycle(containers, parent, c => c.parentContainerId, id)) {
+    return "A container can't be nested inside itself";
+  }
+
+  const row = parent.gridConfig.rows[position.row];
+  if (!row || row.isDivider || position.column < 0 || position.column >= row.columns) {
+    return "Position is outside the parent container's grid";
+  }
+
+  const occupiedByContainer = containers.some(c =>
+    c.id !== id &&
+    c.parentContainerId === parentId &&
+    c.parentPosition?.row === position.row &&
+    c.parentPosition?.column === position.column
+  );
+  const occupiedByItems = (await storage.getItemsByPosition(parentId, position)).length > 0;
+  if (occupiedByContainer || occupiedByItems) return "That cell is already occupied";
+
+  return null;
+}
+
+// Returns an error message if the category can't be nested under the parent
+async function validateCategoryParent(id: number | null, parentId: number | null | undefined): Promise<string | null> {
+  if (!parentId) return null;
+
+  const categories = await storage.getCategories();
+  const parent = categories.find(c => c.id === parentId);
+  if (!parent) return "Parent category not found";
+  if (nestingCycle(categories, parent, c => c.parentId, id)) {
+    return "A category can't be nested inside itself";
+  }
+  return null;
+}
+
+// Returns an error message if a quantity has more decimals than the item's unit keeps
+async function validateQuantityPrecision(
+  unitId: number | null | undefined,
+  ...quantities: Array<number | null | undefined>
+): Promise<string | null> {
+  const unit = unitId ? await storage.getUnit(unitId) : undefined;
+  if (unitId && !unit) return "Unit not found";
+  if (quantities.every(quantity => quantity === null || quantity === undefined || roundQuantity(quantity, unit) === quantity)) {
+    return null;
+  }
+  return unit
+    ? `Quantities in ${unit.name.toLowerCase()} have at most ${unit.precision} decimals`
+    : "Items without a unit are counted in whole pieces";
+}
+
+// The part of an item's stock that isn't in any lot, optionally leaving one lot out
+async function untrackedQuantity(item: Item, exceptLotId?: number): Promise<number> {
+  const unit = item.unitId ? await storage.getUnit(item.unitId) : undefined;
+  const lots = (await storage.getItemLots(item.id)).filter(lot => lot.id !== exceptLotId);
+  return roundQuantity((item.quantity || 0) - lots.reduce((sum, lot) => sum + lot.quantity, 0), unit);
+}
+
+// Returns an error message if the item can't stock the part; a part's items share a unit
+// so their quantities add up
+async function validateItemPart(
+  itemId: number | undefined,
+  partId: number | null | undefined,
+  unitId: number | null | undefined,
+): Promise<string | null> {
+  if (!partId) return null;
+  const part = await storage.getPart(partId);
+  if (!part) return "Part not found";
+  const other = (await storage.getPartItems(partId)).find(item => item.id !== itemId);
+  if (!other || other.unitId === (unitId ?? null)) return null;
+  const unit = other.unitId ? await storage.getUnit(other.unitId) : undefined;
+  return `${part.name} is kept in ${unit ? unit.name.toLowerCase() : "pieces"} in its other locations`;
+}
+
+// Checks an item's attribute values against its category and returns the values to store.
+// Throws a ZodError when they don't fit.
+async function validateItemAttributes(
+  categoryId: number | null | undefined,
+  attributes: Record<string, ItemAttributeValue> | null | undefined,
+): Promise<Record<string, ItemAttributeValue>> {
+  const category = categoryId ? await storage.getCategory(categoryId) : undefined;
+  return itemAttributesSchema(category?.attributes ?? []).parse(attributes ?? {});
+}
 
 export async function registerRoutes(app: Express): Promise<Server> {
+  setupAuth(app);
+  setupUndo(app);
+  setupTrash(app);
+  await setupPhotos(app);
+  await setupAttachments(app);
+  setupNotifications(app, DEFAULT_CURRENCY);
+  setupWebhooks(app);
+
+  await storage.enableFuzzySearch();
+
+  // Brings values read from item names up to date with the current parser
+  storage.refreshEngineeringValues()
+    .then(refreshed => {
+      if (refreshed > 0) log(`Refreshed engineering values of ${refreshed} items`, "search");
+    })
+    .catch(error => console.error("Error refreshing engineering values:", error));
+
+  // Users
+  app.get("/api/users", requireRole("admin"), async (req, res) => {
+    try {
+      const users = await storage.getUsers();
+      res.json(users.map(toPublicUser));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch users" });
+    }
+  });
+
+  app.post("/api/users", requireRole("admin"), async (req, res) => {
+    try {
+      const validatedData = insertUserSchema.parse(req.body);
+      if (await storage.getUserByUsername(validatedData.username)) {
+        return res.status(400).json({ message: "Username already exists" });
+      }
+      const user = await storage.createUser({
+        ...validatedData,
+        password: await hashPassword(validatedData.password),
+      });
+      res.status(201).json(toPublicUser(user));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create user" });
+    }
+  });
+
+  app.patch("/api/users/:id", requireRole("admin"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const validatedData = updateUserSchema.parse(req.body);
+
+      // Never leave the instance without someone who can manage users
+      if (validatedData.role && validatedData.role !== "admin") {
+        const users = await storage.getUsers();
+        const admins = users.filter(u => u.role === "admin");
+        if (admins.length === 1 && admins[0].id === id) {
+          return res.status(400).json({ message: "Can't remove the last admin" });
+        }
+      }
+
+      const user = await storage.updateUser(id, {
+        ...validatedData,
+        password: validatedData.password ? await hashPassword(validatedData.password) : undefined,
+      });
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      res.json(toPublicUser(user));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update user" });
+    }
+  });
+
   // Storage Containers
   app.get("/api/containers", async (req, res) => {
     try {
@@ -28,10 +243,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/containers", async (req, res) => {
+  app.post("/api/containers", requireRole("editor"), async (req, res) => {
     try {
       const validatedData = insertStorageContainerSchema.parse(req.body);
-      const container = await storage.createStorageContainer(validatedData);
+      const nestingError = await validateContainerNesting(null, validatedData);
+      if (nestingError) {
+        return res.status(400).json({ message: nestingError });
+      }
+      const actor = changeActor(req);
+      const container = await storage.createStorageContainer(validatedData, actor);
+      rememberChange(req, actor);
       res.status(201).json(container);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -41,11 +262,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch("/api/containers/:id", async (req, res) => {
+  app.patch("/api/containers/:id", requireRole("editor"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       const validatedData = insertStorageContainerSchema.partial().parse(req.body);
-      const container = await storage.updateStorageContainer(id, validatedData);
+      const existing = await storage.getStorageContainer(id);
+      if (!existing) {
+        return res.status(404).json({ message: "Container not found" });
+      }
+      const nestingError = await validateContainerNesting(id, {
+        parentContainerId: existing.parentContainerId,
+        parentPosition: existing.parentPosition,
+        ...validatedData,
+      });
+      if (nestingError) {
+        return res.status(400).json({ message: nestingError });
+      }
+      const actor = changeActor(req);
+      const container = await storage.updateStorageContainer(id, validatedData, actor);
+      rememberChange(req, actor);
       if (!container) {
         return res.status(404).json({ message: "Container not found" });
       }
@@ -58,20 +293,35 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/containers/:id", async (req, res) => {
+  app.delete("/api/containers/:id", requireRole("admin"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const success = await storage.deleteStorageContainer(id);
+      const actor = changeActor(req);
+      const success = await storage.deleteStorageContainer(id, actor);
+      rememberChange(req, actor);
       if (!success) {
         return res.status(404).json({ message: "Container not found" });
       }
       res.status(204).send();
     } catch (error) {
+      if (error instanceof OnLoanError) {
+        return res.status(409).json({ message: error.message });
+      }
       console.error("Container deletion error:", error);
       res.status(500).json({ message: "Failed to delete container" });
     }
   });
 
+  // Tags are created and removed along with the items that use them
+  app.get("/api/tags", async (req, res) => {
+    try {
+      const tags = await storage.getTags();
+      res.json(tags);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch tags" });
+    }
+  });
+
   // Categories
   app.get("/api/categories", async (req, res) => {
     try {
@@ -82,10 +332,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/categories", async (req, res) => {
+  app.post("/api/categories", requireRole("admin"), async (req, res) => {
     try {
       const validatedData = insertCategorySchema.parse(req.body);
-      const category = await storage.createCategory(validatedData);
+      const parentError = await validateCategoryParent(null, validatedData.parentId);
+      if (parentError) {
+        return res.status(400).json({ message: parentError });
+      }
+      const actor = changeActor(req);
+      const category = await storage.createCategory(validatedData, actor);
+      rememberChange(req, actor);
       res.status(201).json(category);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -95,14 +351,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch("/api/categories/:id", async (req, res) => {
+  app.patch("/api/categories/:id", requireRole("admin"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       const validatedData = insertCategorySchema.partial().parse(req.body);
-      const category = await storage.updateCategory(id, validatedData);
+      const parentError = await validateCategoryParent(id, validatedData.parentId);
+      if (parentError) {
+        return res.status(400).json({ message: parentError });
+      }
+      const actor = changeActor(req);
+      const category = await storage.updateCategory(id, validatedData, actor);
+      rememberChange(req, actor);
       if (!category) {
         return res.status(404).json({ message: "Category not found" });
       }
+      // Attribute units feed the values read from its items
+      if (validatedData.attributes) {
+        await storage.refreshEngineeringValues(id);
+      }
       res.json(category);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -112,10 +378,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/categories/:id", async (req, res) => {
+  app.delete("/api/categories/:id", requireRole("admin"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const success = await storage.deleteCategory(id);
+      const actor = changeActor(req);
+      const success = await storage.deleteCategory(id, actor);
+      rememberChange(req, actor);
       if (!success) {
         return res.status(404).json({ message: "Category not found" });
       }
@@ -145,10 +413,33 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/items", async (req, res) => {
+  app.post("/api/items", requireRole("editor"), async (req, res) => {
     try {
       const validatedData = insertItemSchema.parse(req.body);
-      const item = await storage.createItem(validatedData);
+      validatedData.attributes = await validateItemAttributes(validatedData.categoryId, validatedData.attributes);
+      const placementError = await validateItemPlacement(validatedData.containerId, {
+        position: validatedData.position,
+        rowSpan: validatedData.rowSpan ?? 1,
+        columnSpan: validatedData.columnSpan ?? 1,
+      });
+      if (placementError) {
+        return res.status(400).json({ message: placementError });
+      }
+      const quantityError = await validateQuantityPrecision(
+        validatedData.unitId,
+        validatedData.quantity,
+        validatedData.lowQuantityThreshold,
+      );
+      if (quantityError) {
+        return res.status(400).json({ message: quantityError });
+      }
+      const partError = await validateItemPart(undefined, validatedData.partId, validatedData.unitId);
+      if (partError) {
+        return res.status(400).json({ message: partError });
+      }
+      const actor = changeActor(req);
+      const item = await storage.createItem(validatedData, actor);
+      rememberChange(req, actor);
       res.status(201).json(item);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -158,11 +449,37 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch("/api/items/:id", async (req, res) => {
+  app.patch("/api/items/:id", requireRole("editor"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       const validatedData = insertItemSchema.partial().parse(req.body);
-      const item = await storage.updateItem(id, validatedData);
+      const existing = await storage.getItem(id);
+      if (!existing) {
+        return res.status(404).json({ message: "Item not found" });
+      }
+      // Changing category re-checks the values, dropping ones the new category doesn't define
+      if (validatedData.categoryId !== undefined || validatedData.attributes !== undefined) {
+        validatedData.attributes = await validateItemAttributes(
+          validatedData.categoryId !== undefined ? validatedData.categoryId : existing.categoryId,
+          validatedData.attributes ?? existing.attributes,
+        );
+      }
+      const placement = { ...existing, ...validatedData };
+      const placementError = await validateItemPlacement(placement.containerId, placement, [id]);
+      if (placementError) {
+        return res.status(400).json({ message: placementError });
+      }
+      const quantityError = await validateQuantityPrecision(placement.unitId, placement.quantity, placement.lowQuantityThreshold);
+      if (quantityError) {
+        return res.status(400).json({ message: quantityError });
+      }
+      const partError = await validateItemPart(id, placement.partId, placement.unitId);
+      if (partError) {
+        return res.status(400).json({ message: partError });
+      }
+      const actor = changeActor(req);
+      const item = await storage.updateItem(id, validatedData, actor);
+      rememberChange(req, actor);
       if (!item) {
         return res.status(404).json({ message: "Item not found" });
       }
@@ -171,34 +488,287 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Invalid data", errors: error.errors });
       }
+      if (error instanceof StockError) {
+        return res.status(400).json({ message: error.message });
+      }
       res.status(500).json({ message: "Failed to update item" });
     }
   });
 
-  app.delete("/api/items/:id", async (req, res) => {
+  // Move several items into one cell as a single undoable change, e.g. a whole cell's contents
+  app.post("/api/items/move", requireRole("editor"), async (req, res) => {
+    try {
+      const { itemIds, containerId, position } = moveItemsSchema.parse(req.body);
+      const moving = await Promise.all(itemIds.map(id => storage.getItem(id)));
+      if (moving.some(item => !item)) {
+        return res.status(404).json({ message: "Item not found" });
+      }
+
+      const landed = moving.map(item => ({ ...item!, position }));
+      if (landed.some((item, index) => landed.some((other, otherIndex) => index !== otherIndex && footprintsConflict(item, other)))) {
+        return res.status(400).json({ message: "Items spanning several cells can't share a cell" });
+      }
+      for (const item of landed) {
+        const placementError = await validateItemPlacement(containerId, item, itemIds);
+        if (placementError) {
+          return res.status(400).json({ message: `${item.name}: ${placementError}` });
+        }
+      }
+
+      const actor = changeActor(req);
+      const moved = [];
+      for (const id of itemIds) {
+        moved.push(await storage.updateItem(id, { containerId, position }, actor));
+      }
+      rememberChange(req, actor);
+      res.json(moved);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to move items" });
+    }
+  });
+
+  app.delete("/api/items/:id", requireRole("editor"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const success = await storage.deleteItem(id);
+      const actor = changeActor(req);
+      const success = await storage.deleteItem(id, actor);
+      rememberChange(req, actor);
       if (!success) {
         return res.status(404).json({ message: "Item not found" });
       }
       res.status(204).send();
     } catch (error) {
+      if (error instanceof OnLoanError) {
+        return res.status(409).json({ message: error.message });
+      }
       res.status(500).json({ message: "Failed to delete item" });
     }
   });
 
+  app.post("/api/items/:id/adjust", requireRole("editor"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const validatedData = itemAdjustmentSchema.parse(req.body);
+      const existing = await storage.getItem(id);
+      if (!existing) {
+        return res.status(404).json({ message: "Item not found" });
+      }
+      if ((existing.quantity || 0) + validatedData.delta < 0) {
+        return res.status(400).json({ message: "Not enough stock for this adjustment" });
+      }
+      const quantityError = await validateQuantityPrecision(existing.unitId, validatedData.delta);
+      if (quantityError) {
+        return res.status(400).json({ message: quantityError });
+      }
+
+      const actor = changeActor(req);
+      const result = await storage.adjustItemQuantity(id, validatedData, actor);
+      rememberChange(req, actor);
+      if (!result) {
+        return res.status(404).json({ message: "Item not found" });
+      }
+      res.json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      if (error instanceof StockError) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to adjust item quantity" });
+    }
+  });
+
+  app.get("/api/items/:id/history", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const transactions = await storage.getItemTransactions(id);
+      res.json(transactions);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch item history" });
+    }
+  });
+
+  // Lots; stock an item gains in a lot is added through /adjust
+  app.get("/api/items/:id/lots", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const lots = await storage.getItemLots(id);
+      res.json(lots);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch lots" });
+    }
+  });
+
+  // Records stock the item already holds as a lot
+  app.post("/api/items/:id/lots", requireRole("editor"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const validatedData = insertItemLotSchema.parse(req.body);
+      const item = await storage.getItem(id);
+      if (!item) {
+        return res.status(404).json({ message: "Item not found" });
+      }
+      const quantityError = await validateQuantityPrecision(item.unitId, validatedData.quantity);
+      if (quantityError) {
+        return res.status(400).json({ message: quantityError });
+      }
+      const untracked = await untrackedQuantity(item);
+      if (validatedData.quantity > untracked) {
+        return res.status(400).json({ message: `Only ${untracked} of the stock isn't in a lot yet` });
+      }
+
+      const actor = changeActor(req);
+      const lot = await storage.createItemLot(id, validatedData, actor);
+      rememberChange(req, actor);
+      res.status(201).json(lot);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create lot" });
+    }
+  });
+
+  app.patch("/api/lots/:id", requireRole("editor"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const validatedData = insertItemLotSchema.partial().parse(req.body);
+      const existing = await storage.getItemLot(id);
+      const item = existing && await storage.getItem(existing.itemId);
+      if (!existing || !item) {
+        return res.status(404).json({ message: "Lot not found" });
+      }
+      if (validatedData.quantity !== undefined) {
+        const quantityError = await validateQuantityPrecision(item.unitId, validatedData.quantity);
+        if (quantityError) {
+          return res.status(400).json({ message: quantityError });
+        }
+        const available = await untrackedQuantity(item, id);
+        if (validatedData.quantity > available) {
+          return res.status(400).json({ message: `The item only holds ${available} for this lot` });
+        }
+      }
+
+      const actor = changeActor(req);
+      const lot = await storage.updateItemLot(id, validatedData, actor);
+      rememberChange(req, actor);
+      if (!lot) {
+        return res.status(404).json({ message: "Lot not found" });
+      }
+      res.json(lot);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update lot" });
+    }
+  });
+
+  // The lot's stock stays with the item, just no longer in a lot
+  app.delete("/api/lots/:id", requireRole("editor"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const actor = changeActor(req);
+      const success = await storage.deleteItemLot(id, actor);
+      rememberChange(req, actor);
+      if (!success) {
+        return res.status(404).json({ message: "Lot not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete lot" });
+    }
+  });
+
+  // Checkouts
+  app.get("/api/checkouts", async (req, res) => {
+    try {
+      const checkouts = await storage.getOutstandingCheckouts();
+      res.json(checkouts);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch checkouts" });
+    }
+  });
+
+  app.get("/api/items/:id/checkouts", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const checkouts = await storage.getItemCheckouts(id);
+      res.json(checkouts);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch checkouts" });
+    }
+  });
+
+  app.post("/api/items/:id/checkout", requireRole("borrower"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const validatedData = checkoutRequestSchema.parse(req.body);
+      const item = await storage.getItem(id);
+      if (!item) {
+        return res.status(404).json({ message: "Item not found" });
+      }
+
+      const quantityError = await validateQuantityPrecision(item.unitId, validatedData.quantity);
+      if (quantityError) {
+        return res.status(400).json({ message: quantityError });
+      }
+
+      // What is still available is counted in the same transaction as the checkout
+      const actor = changeActor(req);
+      const checkout = await storage.checkoutItem(id, validatedData, actor);
+      rememberChange(req, actor);
+      if (!checkout) {
+        return res.status(404).json({ message: "Item not found" });
+      }
+      res.status(201).json(checkout);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      if (error instanceof StockError) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to check out item" });
+    }
+  });
+
+  app.post("/api/items/:id/return", requireRole("borrower"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const validatedData = returnRequestSchema.parse(req.body);
+      const actor = changeActor(req);
+      const returned = await storage.returnCheckouts(id, validatedData, actor);
+      rememberChange(req, actor);
+      if (returned.length === 0) {
+        return res.status(404).json({ message: "No open checkout found" });
+      }
+      res.json(returned);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to return item" });
+    }
+  });
+
   // Search
   app.get("/api/search", async (req, res) => {
     try {
-      const query = req.query.q as string;
+      const query = (req.query.q as string) || '';
       const fields = req.query.fields as string;
-      if (!query) {
-        return res.status(400).json({ message: "Query parameter 'q' is required" });
+      const tagNames = req.query.tags ? (req.query.tags as string).split(',').filter(Boolean) : [];
+      const categoryId = req.query.category ? parseInt(req.query.category as string) : undefined;
+      if (!query && tagNames.length === 0 && categoryId === undefined) {
+        return res.status(400).json({ message: "Query parameter 'q', 'tags' or 'category' is required" });
       }
       
       const searchFields = fields ? fields.split(',') : ['name'];
-      const results = await storage.searchItems(query, searchFields);
+      const results = await storage.searchItems(query, searchFields, tagNames, categoryId);
       res.json(results);
     } catch (error) {
       console.error("Search error:", error);
@@ -206,13 +776,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Export all data
+  // Export all data as a zip of the JSON and the items' photos
   app.get("/api/export", async (req, res) => {
     try {
-      const [containers, categories, sizeOptions, items] = await Promise.all([
+      const [containers, categories, sizeOptions, units, parts, suppliers, items] = await Promise.all([
         storage.getStorageContainers(),
         storage.getCategories(),
         storage.getSizeOptions(),
+        storage.getUnits(),
+        storage.getParts(),
+        storage.getSuppliers(),
         storage.getItems()
       ]);
 
@@ -222,22 +795,68 @@ export async function registerRoutes(app: Express): Promise<Server> {
         containers,
         categories,
         sizeOptions,
+        units,
+        parts,
+        suppliers,
         items
       };
 
-      res.setHeader('Content-Type', 'application/json');
-      res.setHeader('Content-Disposition', 'attachment; filename="storage-data-export.json"');
-      res.json(exportData);
+      const archive = archiver("zip");
+      archive.on("error", (error) => {
+        console.error("Export error:", error);
+        res.destroy(error);
+      });
+
+      res.setHeader('Content-Type', 'application/zip');
+      res.setHeader('Content-Disposition', 'attachment; filename="storage-data-export.zip"');
+      archive.pipe(res);
+      archive.append(JSON.stringify(exportData, null, 2), { name: EXPORT_DATA_FILE });
+      const photos = new Set(items.map(item => item.photo).filter((photo): photo is string => !!photo));
+      photos.forEach(photo => {
+        const file = photoPath(photo);
+        if (file && existsSync(file)) {
+          archive.file(file, { name: `photos/${photo}` });
+        }
+      });
+      await archive.finalize();
     } catch (error) {
       console.error("Export error:", error);
-      res.status(500).json({ error: "Failed to export data" });
+      if (!res.headersSent) {
+        res.status(500).json({ error: "Failed to export data" });
+      }
     }
   });
 
-  // Import data (items only)
-  app.post("/api/import", async (req, res) => {
+  // Import data (items only), from the JSON or from the whole export zip along with its photos
+  app.post("/api/import", requireRole("admin"), (req, res, next) => {
+    importUpload.single("file")(req, res, (error: unknown) => {
+      if (error instanceof multer.MulterError) {
+        const message = error.code === "LIMIT_FILE_SIZE"
+          ? `Imports can be at most ${MAX_IMPORT_BYTES / 1024 / 1024} MB`
+          : error.message;
+        return res.status(400).json({ error: message });
+      }
+      if (error) return next(error);
+      next();
+    });
+  }, async (req, res) => {
     try {
-      const { items } = req.body;
+      let data = req.body;
+      let photoEntries: AdmZip.IZipEntry[] = [];
+      if (req.file) {
+        try {
+          const zip = new AdmZip(req.file.buffer);
+          const dataEntry = zip.getEntry(EXPORT_DATA_FILE);
+          if (!dataEntry) {
+            return res.status(400).json({ error: `The zip has no ${EXPORT_DATA_FILE}` });
+          }
+          data = JSON.parse(dataEntry.getData().toString("utf8"));
+          photoEntries = zip.getEntries().filter(entry => !entry.isDirectory && entry.entryName.startsWith("photos/"));
+        } catch (error) {
+          return res.status(400).json({ error: "That file isn't an export zip" });
+        }
+      }
+      const { items } = data;
 
       if (!items || !Array.isArray(items)) {
         return res.status(400).json({ 
@@ -248,66 +867,93 @@ export async function registerRoutes(app: Express): Promise<Server> {
       let imported = 0;
       let updated = 0;
       let failed = 0;
+      let photos = 0;
       const errors: string[] = [];
 
+      // Photos go first so the items coming in can show theirs
+      for (const entry of photoEntries) {
+        try {
+          if (await restorePhoto(path.posix.basename(entry.entryName), entry.getData())) photos++;
+        } catch (error) {
+          errors.push(`${entry.entryName}: not an image we can read`);
+        }
+      }
+      // The whole import is undone as a single step
+      const actor = changeActor(req);
+
       for (const item of items) {
         try {
           // Clean up the item data - remove category object, keep only categoryId
-          const { category, ...cleanItem } = item;
-          if (category && !cleanItem.categoryId) {
-            cleanItem.categoryId = category.id;
+          const { id, category, ...exported } = item;
+          if (category && !exported.categoryId) {
+            exported.categoryId = category.id;
           }
+          // Drops what the server works out itself, like the trash and checkout columns
+          const itemData = insertItemSchema.parse(exported);
+
+          // Cells hold several items, so whatever is already in the cell stays put.
+          // Without an ID, an item of the same name in that cell is taken to be the same item.
+          const existingItem = id
+            ? await storage.getItem(id)
+            : (await storage.getItemsByPosition(itemData.containerId, itemData.position))
+                .find(existing => existing.name.toLowerCase() === itemData.name.toLowerCase());
 
-          // Check if there's already an item at this position
-          const existingAtPosition = await storage.getItemByPosition(
-            cleanItem.containerId, 
-            cleanItem.position
+          itemData.attributes = await validateItemAttributes(
+            itemData.categoryId ?? existingItem?.categoryId,
+            itemData.attributes ?? existingItem?.attributes,
           );
 
-          if (cleanItem.id) {
-            // Try to update existing item by ID
-            const existingItem = await storage.getItem(cleanItem.id);
-            if (existingItem) {
-              const { id, ...itemData } = cleanItem;
-              await storage.updateItem(cleanItem.id, itemData);
-              updated++;
-            } else {
-              // Item with this ID doesn't exist, but check position conflict
-              if (existingAtPosition && existingAtPosition.id !== cleanItem.id) {
-                // Remove the item at this position first
-                await storage.deleteItem(existingAtPosition.id);
-              }
-              const { id, ...itemData } = cleanItem;
-              await storage.createItem(itemData);
-              imported++;
-            }
+          const placementError = await validateItemPlacement(itemData.containerId, {
+            position: itemData.position,
+            rowSpan: itemData.rowSpan ?? existingItem?.rowSpan ?? 1,
+            columnSpan: itemData.columnSpan ?? existingItem?.columnSpan ?? 1,
+          }, existingItem ? [existingItem.id] : []);
+          if (placementError) {
+            throw new Error(placementError);
+          }
+          const quantityError = await validateQuantityPrecision(
+            itemData.unitId !== undefined ? itemData.unitId : existingItem?.unitId,
+            itemData.quantity,
+            itemData.lowQuantityThreshold,
+          );
+          if (quantityError) {
+            throw new Error(quantityError);
+          }
+          const partError = await validateItemPart(
+            existingItem?.id,
+            itemData.partId !== undefined ? itemData.partId : existingItem?.partId,
+            itemData.unitId !== undefined ? itemData.unitId : existingItem?.unitId,
+          );
+          if (partError) {
+            throw new Error(partError);
+          }
+
+          if (existingItem) {
+            await storage.updateItem(existingItem.id, itemData, actor);
+            updated++;
           } else {
-            // No ID provided - check for position conflict
-            if (existingAtPosition) {
-              // Replace the existing item at this position
-              const { id, ...itemData } = cleanItem;
-              await storage.updateItem(existingAtPosition.id, itemData);
-              updated++;
-            } else {
-              // Create new item
-              const { id, ...itemData } = cleanItem;
-              await storage.createItem(itemData);
-              imported++;
-            }
+            await storage.createItem(itemData, actor);
+            imported++;
           }
         } catch (error: any) {
           failed++;
           const itemName = item.name || `Item at position ${item.position?.row || '?'}, ${item.position?.column || '?'}`;
-          errors.push(`${itemName}: ${error.message || 'Unknown error'}`);
+          const message = error instanceof z.ZodError
+            ? error.errors.map(issue => `${issue.path.join(".")}: ${issue.message}`).join(", ")
+            : error.message;
+          errors.push(`${itemName}: ${message || 'Unknown error'}`);
         }
       }
 
+      rememberChange(req, actor);
+
       res.json({ 
         success: true, 
         summary: {
           imported,
           updated,
           failed,
+          photos,
           total: items.length
         },
         errors: errors.length > 0 ? errors : undefined
@@ -318,6 +964,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Audit log
+  app.get("/api/audit", requireRole("editor"), async (req, res) => {
+    try {
+      const query = auditQuerySchema.parse(req.query);
+      const events = await storage.getAuditEvents(query);
+      res.json(events);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid query", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to fetch audit log" });
+    }
+  });
+
   // Size Options
   app.get("/api/size-options", async (req, res) => {
     try {
@@ -328,10 +988,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/size-options", async (req, res) => {
+  app.post("/api/size-options", requireRole("admin"), async (req, res) => {
     try {
       const validatedData = insertSizeOptionSchema.parse(req.body);
-      const sizeOption = await storage.createSizeOption(validatedData);
+      const actor = changeActor(req);
+      const sizeOption = await storage.createSizeOption(validatedData, actor);
+      rememberChange(req, actor);
       res.status(201).json(sizeOption);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -341,11 +1003,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch("/api/size-options/:id", async (req, res) => {
+  app.patch("/api/size-options/:id", requireRole("admin"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       const validatedData = insertSizeOptionSchema.partial().parse(req.body);
-      const sizeOption = await storage.updateSizeOption(id, validatedData);
+      const actor = changeActor(req);
+      const sizeOption = await storage.updateSizeOption(id, validatedData, actor);
+      rememberChange(req, actor);
       if (!sizeOption) {
         return res.status(404).json({ message: "Size option not found" });
       }
@@ -358,10 +1022,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/size-options/:id", async (req, res) => {
+  app.delete("/api/size-options/:id", requireRole("admin"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const success = await storage.deleteSizeOption(id);
+      const actor = changeActor(req);
+      const success = await storage.deleteSizeOption(id, actor);
+      rememberChange(req, actor);
       if (!success) {
         return res.status(404).json({ message: "Size option not found" });
       }
@@ -371,6 +1037,349 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Units
+  app.get("/api/units", async (req, res) => {
+    try {
+      const units = await storage.getUnits();
+      res.json(units);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch units" });
+    }
+  });
+
+  app.post("/api/units", requireRole("admin"), async (req, res) => {
+    try {
+      const validatedData = insertUnitSchema.parse(req.body);
+      const actor = changeActor(req);
+      const unit = await storage.createUnit(validatedData, actor);
+      rememberChange(req, actor);
+      res.status(201).json(unit);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create unit" });
+    }
+  });
+
+  // Lowering the precision leaves stored quantities as they are; the item form
+  // rounds them the next time the item is edited
+  app.patch("/api/units/:id", requireRole("admin"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const validatedData = insertUnitSchema.partial().parse(req.body);
+      const actor = changeActor(req);
+      const unit = await storage.updateUnit(id, validatedData, actor);
+      rememberChange(req, actor);
+      if (!unit) {
+        return res.status(404).json({ message: "Unit not found" });
+      }
+      res.json(unit);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update unit" });
+    }
+  });
+
+  app.delete("/api/units/:id", requireRole("admin"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const itemCount = await storage.getUnitItemCount(id);
+      if (itemCount > 0) {
+        return res.status(400).json({ message: `The unit is used by ${itemCount} item${itemCount === 1 ? "" : "s"}` });
+      }
+      const actor = changeActor(req);
+      const success = await storage.deleteUnit(id, actor);
+      rememberChange(req, actor);
+      if (!success) {
+        return res.status(404).json({ message: "Unit not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete unit" });
+    }
+  });
+
+  // Parts
+  app.get("/api/parts", async (req, res) => {
+    try {
+      const parts = await storage.getParts();
+      res.json(parts);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch parts" });
+    }
+  });
+
+  app.post("/api/parts", requireRole("editor"), async (req, res) => {
+    try {
+      const validatedData = insertPartSchema.parse(req.body);
+      const actor = changeActor(req);
+      const part = await storage.createPart(validatedData, actor);
+      rememberChange(req, actor);
+      res.status(201).json(part);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create part" });
+    }
+  });
+
+  app.patch("/api/parts/:id", requireRole("editor"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const validatedData = insertPartSchema.partial().parse(req.body);
+      // The threshold is in the unit of the part's items, once it has any
+      const [stocking] = await storage.getPartItems(id);
+      if (stocking) {
+        const quantityError = await validateQuantityPrecision(stocking.unitId, validatedData.lowQuantityThreshold);
+        if (quantityError) {
+          return res.status(400).json({ message: quantityError });
+        }
+      }
+      const actor = changeActor(req);
+      const part = await storage.updatePart(id, validatedData, actor);
+      rememberChange(req, actor);
+      if (!part) {
+        return res.status(404).json({ message: "Part not found" });
+      }
+      res.json(part);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update part" });
+    }
+  });
+
+  app.delete("/api/parts/:id", requireRole("editor"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const actor = changeActor(req);
+      const success = await storage.deletePart(id, actor);
+      rememberChange(req, actor);
+      if (!success) {
+        return res.status(404).json({ message: "Part not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete part" });
+    }
+  });
+
+  // Suppliers
+  app.get("/api/suppliers", async (req, res) => {
+    try {
+      const suppliers = await storage.getSuppliers();
+      res.json(suppliers);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch suppliers" });
+    }
+  });
+
+  app.post("/api/suppliers", requireRole("editor"), async (req, res) => {
+    try {
+      const validatedData = insertSupplierSchema.parse(req.body);
+      const actor = changeActor(req);
+      const supplier = await storage.createSupplier(validatedData, actor);
+      rememberChange(req, actor);
+      res.status(201).json(supplier);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create supplier" });
+    }
+  });
+
+  app.patch("/api/suppliers/:id", requireRole("editor"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const validatedData = insertSupplierSchema.partial().parse(req.body);
+      const actor = changeActor(req);
+      const supplier = await storage.updateSupplier(id, validatedData, actor);
+      rememberChange(req, actor);
+      if (!supplier) {
+        return res.status(404).json({ message: "Supplier not found" });
+      }
+      res.json(supplier);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update supplier" });
+    }
+  });
+
+  app.delete("/api/suppliers/:id", requireRole("editor"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const actor = changeActor(req);
+      const success = await storage.deleteSupplier(id, actor);
+      rememberChange(req, actor);
+      if (!success) {
+        return res.status(404).json({ message: "Supplier not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete supplier" });
+    }
+  });
+
+  // Reports
+  app.get("/api/reports/valuation", async (req, res) => {
+    try {
+      const report = await storage.getValuationReport(DEFAULT_CURRENCY);
+      res.json(report);
+    } catch (error) {
+      console.error("Valuation report error:", error);
+      res.status(500).json({ message: "Failed to build valuation report" });
+    }
+  });
+
+  // ?format=csv or ?format=markdown downloads the list as a shopping list
+  app.get("/api/reports/low-stock", async (req, res) => {
+    try {
+      const entries = await storage.getLowStockReport(DEFAULT_CURRENCY);
+      if (req.query.format === "csv") {
+        res.setHeader("Content-Type", "text/csv; charset=utf-8");
+        res.setHeader("Content-Disposition", 'attachment; filename="shopping-list.csv"');
+        return res.send(shoppingListCsv(entries));
+      }
+      if (req.query.format === "markdown") {
+        res.setHeader("Content-Type", "text/markdown; charset=utf-8");
+        res.setHeader("Content-Disposition", 'attachment; filename="shopping-list.md"');
+        return res.send(shoppingListMarkdown(entries));
+      }
+      res.json(entries);
+    } catch (error) {
+      console.error("Low stock report error:", error);
+      res.status(500).json({ message: "Failed to build low stock report" });
+    }
+  });
+
+  // Lots expired or expiring within ?days= (EXPIRY_WARNING_DAYS by default)
+  app.get("/api/reports/expiring", async (req, res) => {
+    try {
+      const days = z.coerce.number().int().min(0).max(3650).default(EXPIRY_WARNING_DAYS).parse(req.query.days);
+      const lots = await storage.getExpiringLots(new Date(Date.now() + days * 24 * 60 * 60 * 1000));
+      res.json(lots);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to build expiring report" });
+    }
+  });
+
+  // Locations
+  app.get("/api/locations", async (req, res) => {
+    try {
+      const locations = await storage.getLocations();
+      res.json(locations);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch locations" });
+    }
+  });
+
+  app.get("/api/locations/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const location = await storage.getLocation(id);
+      if (!location) {
+        return res.status(404).json({ message: "Location not found" });
+      }
+      res.json(location);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch location" });
+    }
+  });
+
+  app.post("/api/locations", requireRole("editor"), async (req, res) => {
+    try {
+      const validatedData = insertLocationSchema.parse(req.body);
+      const location = await storage.createLocation(validatedData);
+      res.status(201).json(location);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create location" });
+    }
+  });
+
+  app.patch("/api/locations/:id", requireRole("editor"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const validatedData = insertLocationSchema.partial().parse(req.body);
+      const location = await storage.updateLocation(id, validatedData);
+      if (!location) {
+        return res.status(404).json({ message: "Location not found" });
+      }
+      res.json(location);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update location" });
+    }
+  });
+
+  app.delete("/api/locations/:id", requireRole("editor"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const success = await storage.deleteLocation(id);
+      if (!success) {
+        return res.status(404).json({ message: "Location not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete location" });
+    }
+  });
+
+  // Floorplan placements
+  app.get("/api/placements", async (req, res) => {
+    try {
+      const placements = await storage.getFloorplanPlacements();
+      res.json(placements);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch placements" });
+    }
+  });
+
+  app.get("/api/locations/:id/placements", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const placements = await storage.getFloorplanPlacements(id);
+      res.json(placements);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch placements" });
+    }
+  });
+
+  app.put("/api/locations/:id/placements", requireRole("editor"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const location = await storage.getLocation(id);
+      if (!location) {
+        return res.status(404).json({ message: "Location not found" });
+      }
+
+      const validatedData = z.array(insertFloorplanPlacementSchema.omit({ locationId: true })).parse(req.body.placements);
+      const placements = await storage.saveFloorplanLayout(id, validatedData);
+      res.json(placements);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Floorplan save error:", error);
+      res.status(500).json({ message: "Failed to save floorplan layout" });
+    }
+  });
+
   const httpServer = createServer(app);
   return httpServer;
 }
@@ -0,0 +1,75 @@
+import { formatQuantity, type LowStockEntry } from "@shared/schema";
+
+type Column = [string, (entry: LowStockEntry) => string | number | null];
+
+const csvColumns: Column[] = [
+  ["Category", entry => entry.categoryPath],
+  ["Supplier", entry => entry.supplierName],
+  ["Name", entry => entry.name],
+  ["Manufacturer part number", entry => entry.manufacturerPartNumber],
+  ["Supplier SKU", entry => entry.supplierSku],
+  ["Order quantity", entry => entry.suggestedQuantity],
+  ["Unit", entry => entry.unit?.symbol ?? "pcs"],
+  ["In stock", entry => entry.quantity],
+  ["Alert at", entry => entry.threshold],
+  ["Unit price", entry => entry.unitPrice],
+  ["Currency", entry => entry.currency],
+  ["Link", entry => entry.purchaseUrl],
+  ["Locations", entry => entry.locations.join("; ")],
+];
+
+// Quotes text with separators, quotes or line breaks. Text starting with = + - or @ gets a
+// leading apostrophe so spreadsheets don't run it as a formula.
+function csvField(value: string | number | null): string {
+  if (value === null) return "";
+  if (typeof value === "number") return String(value);
+  const text = /^[=+\-@]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function shoppingListCsv(entries: LowStockEntry[]): string {
+  const rows = [
+    csvColumns.map(([header]) => header),
+    ...entries.map(entry => csvColumns.map(([, value]) => csvField(value(entry)))),
+  ];
+  // The byte order mark tells Excel the file is UTF-8, so "›" and "Ω" come through
+  return "\uFEFF" + rows.map(row => row.join(",")).join("\r\n") + "\r\n";
+}
+
+function escapeMarkdown(text: string): string {
+  return text.replace(/([\\`*_[\]<>#|])/g, "\\$1");
+}
+
+// A checklist per category, split by supplier where one is known; entries come sorted that way
+export function shoppingListMarkdown(entries: LowStockEntry[]): string {
+  const lines = ["# Shopping list", "", `Low stock on ${new Date().toISOString().slice(0, 10)}`];
+  let category: string | undefined;
+  let supplier: string | null | undefined;
+
+  for (const entry of entries) {
+    const entryCategory = entry.categoryPath ?? "Uncategorized";
+    if (entryCategory !== category) {
+      category = entryCategory;
+      supplier = undefined;
+      lines.push("", `## ${escapeMarkdown(category)}`);
+    }
+    if (entry.supplierName !== supplier) {
+      supplier = entry.supplierName;
+      lines.push("", `### ${supplier ? escapeMarkdown(supplier) : "No supplier"}`, "");
+    }
+
+    const numbers = [
+      entry.supplierSku && `SKU ${escapeMarkdown(entry.supplierSku)}`,
+      entry.manufacturerPartNumber && `MPN ${escapeMarkdown(entry.manufacturerPartNumber)}`,
+    ].filter(Boolean);
+    let line = `- [ ] ${formatQuantity(entry.suggestedQuantity, entry.unit)} × **${escapeMarkdown(entry.name)}**`;
+    if (numbers.length > 0) line += ` (${numbers.join(", ")})`;
+    if (entry.unitPrice !== null) line += ` at ${entry.unitPrice} ${entry.currency} each`;
+    if (entry.purchaseUrl) line += ` · [order](<${entry.purchaseUrl}>)`;
+    lines.push(line);
+    lines.push(`  ${formatQuantity(entry.quantity, entry.unit)} left in ${escapeMarkdown(entry.locations.join("; "))}`);
+  }
+
+  if (entries.length === 0) lines.push("", "Nothing is running low.");
+  return lines.join("\n") + "\n";
+}
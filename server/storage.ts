@@ -1,93 +1,727 @@
 import {
+  type User,
+  type InsertUser,
   type StorageContainer,
   type InsertStorageContainer,
   type Category,
   type InsertCategory,
+  type ResolvedCategory,
   type SizeOption,
   type InsertSizeOption,
+  type Supplier,
+  type InsertSupplier,
+  type Unit,
+  type InsertUnit,
+  type Part,
+  type InsertPart,
+  type PartWithStock,
   type Item,
   type InsertItem,
   type ItemWithCategory,
   type ItemSearchResult,
+  type StorageLocation,
+  type InsertStorageLocation,
+  type FloorplanPlacement,
+  type InsertFloorplanPlacement,
+  type ItemTransaction,
+  type ItemAdjustment,
+  type ItemLot,
+  type InsertItemLot,
+  type ExpiringLot,
+  type Checkout,
+  type CheckoutWithItem,
+  type CheckoutRequest,
+  type ReturnRequest,
+  type Attachment,
+  type InsertAttachment,
+  type AuditEvent,
+  type AuditEntityType,
+  type AuditAction,
+  type AuditQuery,
+  type AuditActor,
+  type TrashedContainer,
+  type TrashedItem,
+  type ItemAttributeValue,
+  type ValuationGroup,
+  type ValuationReport,
+  type LowStockEntry,
+  type NotificationPreferences,
+  type InsertNotificationPreferences,
+  type UserNotification,
+  type InsertUserNotification,
+  type Webhook,
+  type InsertWebhook,
+  type WebhookDelivery,
+  type InsertWebhookDelivery,
+  type WebhookDeliveryWithUrl,
+  type TagWithCount,
   storageContainers,
   categories,
   sizeOptions,
+  suppliers,
+  units,
+  parts,
+  notificationPreferences,
+  notifications,
+  notificationAlerts,
+  webhooks,
+  webhookDeliveries,
   items,
+  locations,
+  floorplanPlacements,
+  itemTransactions,
+  itemLots,
+  checkouts,
+  attachments,
+  tags,
+  itemTags,
+  users,
+  auditEvents,
+  coversCell,
+  footprintsConflict,
+  roundQuantity,
+  formatQuantity,
+  isLowQuantity,
+  MAX_UNIT_PRECISION,
 } from "@shared/schema";
-import { db } from "./db";
-import { eq, like, or, asc, and, isNotNull, sql } from "drizzle-orm";
+import { extractEngineeringValues, parseEngineeringQuery, type EngineeringColumn, type EngineeringValues } from "@shared/engineering";
+import { db, pool } from "./db";
+import session from "express-session";
+import connectPg from "connect-pg-simple";
+import { eq, like, or, asc, desc, and, isNotNull, isNull, inArray, notInArray, ne, gte, lte, sql, count, getTableColumns, type SQL } from "drizzle-orm";
+
+const PostgresSessionStore = connectPg(session);
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
 
 export interface IStorage {
+  sessionStore: session.Store;
+
+  // Users
+  getUsers(): Promise<User[]>;
+  getUser(id: number): Promise<User | undefined>;
+  getUserByUsername(username: string): Promise<User | undefined>;
+  getUserCount(): Promise<number>;
+  createUser(user: InsertUser): Promise<User>;
+  updateUser(id: number, user: Partial<InsertUser>): Promise<User | undefined>;
+
   // Storage containers
   getStorageContainers(): Promise<StorageContainer[]>;
   getStorageContainer(id: number): Promise<StorageContainer | undefined>;
-  createStorageContainer(container: InsertStorageContainer): Promise<StorageContainer>;
-  updateStorageContainer(id: number, container: Partial<InsertStorageContainer>): Promise<StorageContainer | undefined>;
-  deleteStorageContainer(id: number): Promise<boolean>;
+  createStorageContainer(container: InsertStorageContainer, actor?: AuditActor): Promise<StorageContainer>;
+  updateStorageContainer(id: number, container: Partial<InsertStorageContainer>, actor?: AuditActor): Promise<StorageContainer | undefined>;
+  deleteStorageContainer(id: number, actor?: AuditActor): Promise<boolean>;
 
   // Categories
-  getCategories(): Promise<Category[]>;
+  getCategories(): Promise<ResolvedCategory[]>;
   getCategory(id: number): Promise<Category | undefined>;
-  createCategory(category: InsertCategory): Promise<Category>;
-  updateCategory(id: number, category: Partial<InsertCategory>): Promise<Category | undefined>;
-  deleteCategory(id: number): Promise<boolean>;
+  createCategory(category: InsertCategory, actor?: AuditActor): Promise<Category>;
+  updateCategory(id: number, category: Partial<InsertCategory>, actor?: AuditActor): Promise<Category | undefined>;
+  deleteCategory(id: number, actor?: AuditActor): Promise<boolean>;
 
   // Size options
   getSizeOptions(): Promise<SizeOption[]>;
   getSizeOption(id: number): Promise<SizeOption | undefined>;
-  createSizeOption(sizeOption: InsertSizeOption): Promise<SizeOption>;
-  updateSizeOption(id: number, sizeOption: Partial<InsertSizeOption>): Promise<SizeOption | undefined>;
-  deleteSizeOption(id: number): Promise<boolean>;
+  createSizeOption(sizeOption: InsertSizeOption, actor?: AuditActor): Promise<SizeOption>;
+  updateSizeOption(id: number, sizeOption: Partial<InsertSizeOption>, actor?: AuditActor): Promise<SizeOption | undefined>;
+  deleteSizeOption(id: number, actor?: AuditActor): Promise<boolean>;
+
+  // Units
+  getUnits(): Promise<Unit[]>;
+  getUnit(id: number): Promise<Unit | undefined>;
+  // Items using the unit, including those in the trash
+  getUnitItemCount(id: number): Promise<number>;
+  createUnit(unit: InsertUnit, actor?: AuditActor): Promise<Unit>;
+  updateUnit(id: number, unit: Partial<InsertUnit>, actor?: AuditActor): Promise<Unit | undefined>;
+  deleteUnit(id: number, actor?: AuditActor): Promise<boolean>;
+
+  // Parts
+  getParts(): Promise<PartWithStock[]>;
+  getPart(id: number): Promise<Part | undefined>;
+  // The items stocking the part, oldest first; trashed ones don't count
+  getPartItems(id: number): Promise<Item[]>;
+  createPart(part: InsertPart, actor?: AuditActor): Promise<Part>;
+  updatePart(id: number, part: Partial<InsertPart>, actor?: AuditActor): Promise<Part | undefined>;
+  deletePart(id: number, actor?: AuditActor): Promise<boolean>;
+
+  // Suppliers
+  getSuppliers(): Promise<Supplier[]>;
+  getSupplier(id: number): Promise<Supplier | undefined>;
+  createSupplier(supplier: InsertSupplier, actor?: AuditActor): Promise<Supplier>;
+  updateSupplier(id: number, supplier: Partial<InsertSupplier>, actor?: AuditActor): Promise<Supplier | undefined>;
+  deleteSupplier(id: number, actor?: AuditActor): Promise<boolean>;
 
   // Items
   getItems(): Promise<ItemWithCategory[]>;
   getItemsByContainer(containerId: number): Promise<ItemWithCategory[]>;
   getItem(id: number): Promise<ItemWithCategory | undefined>;
-  createItem(item: InsertItem): Promise<Item>;
-  updateItem(id: number, item: Partial<InsertItem>): Promise<Item | undefined>;
-  deleteItem(id: number): Promise<boolean>;
-  getItemByPosition(containerId: number, position: { row: number; column: number }): Promise<Item | undefined>;
-  searchItems(query: string, fields?: string[]): Promise<ItemSearchResult[]>;
+  createItem(item: InsertItem, actor?: AuditActor): Promise<Item>;
+  updateItem(id: number, item: Partial<InsertItem>, actor?: AuditActor): Promise<Item | undefined>;
+  deleteItem(id: number, actor?: AuditActor): Promise<boolean>;
+  getItemsByPosition(containerId: number, position: { row: number; column: number }): Promise<Item[]>;
+  searchItems(query: string, fields?: string[], tagNames?: string[], categoryId?: number): Promise<ItemSearchResult[]>;
+  enableFuzzySearch(): Promise<void>;
+  refreshEngineeringValues(categoryId?: number): Promise<number>;
+  getItemPhotos(): Promise<string[]>;
+
+  // Tags
+  getTags(): Promise<TagWithCount[]>;
+  getValuationReport(defaultCurrency: string): Promise<ValuationReport>;
+  getLowStockReport(defaultCurrency: string): Promise<LowStockEntry[]>;
+
+  // Item transactions
+  adjustItemQuantity(id: number, adjustment: ItemAdjustment, actor?: AuditActor): Promise<{ item: Item; transaction: ItemTransaction } | undefined>;
+  getItemTransactions(itemId: number): Promise<ItemTransaction[]>;
+
+  // Lots, oldest first
+  getItemLots(itemId: number): Promise<ItemLot[]>;
+  getItemLot(id: number): Promise<ItemLot | undefined>;
+  // Records stock already on hand as a lot; adding stock in a new lot goes through adjustItemQuantity
+  createItemLot(itemId: number, lot: InsertItemLot, actor?: AuditActor): Promise<ItemLot>;
+  updateItemLot(id: number, lot: Partial<InsertItemLot>, actor?: AuditActor): Promise<ItemLot | undefined>;
+  deleteItemLot(id: number, actor?: AuditActor): Promise<boolean>;
+  // Lots of items in stock that expire before the given date, soonest first
+  getExpiringLots(before: Date): Promise<ExpiringLot[]>;
+
+  // Checkouts
+  getItemCheckouts(itemId: number): Promise<Checkout[]>;
+  getCheckout(id: number): Promise<Checkout | undefined>;
+  getOutstandingCheckouts(): Promise<CheckoutWithItem[]>;
+  checkoutItem(itemId: number, request: CheckoutRequest, actor?: AuditActor): Promise<Checkout | undefined>;
+  returnCheckouts(itemId: number, request: ReturnRequest, actor?: AuditActor): Promise<Checkout[]>;
+
+  // Attachments
+  getItemAttachments(itemId: number): Promise<Attachment[]>;
+  getAttachment(id: number): Promise<Attachment | undefined>;
+  createAttachment(attachment: InsertAttachment): Promise<Attachment>;
+  deleteAttachment(id: number): Promise<Attachment | undefined>;
+  getAttachmentStoredNames(): Promise<string[]>;
+
+  // Trash
+  getTrash(): Promise<{ containers: TrashedContainer[]; items: TrashedItem[] }>;
+  getTrashedItem(id: number): Promise<Item | undefined>;
+  getTrashedContainer(id: number): Promise<StorageContainer | undefined>;
+  restoreItem(id: number, actor?: AuditActor): Promise<Item | undefined>;
+  restoreStorageContainer(id: number, actor?: AuditActor): Promise<StorageContainer | undefined>;
+  purgeItem(id: number, actor?: AuditActor): Promise<boolean>;
+  purgeStorageContainer(id: number, actor?: AuditActor): Promise<boolean>;
+  purgeTrash(deletedBefore: Date, actor?: AuditActor): Promise<number>;
+
+  // Audit log
+  getAuditEvents(query: AuditQuery): Promise<AuditEvent[]>;
+  revertChangeSet(changeSet: string, actor: AuditActor): Promise<number>;
+
+  // Notifications
+  getNotificationPreferences(userId: number): Promise<NotificationPreferences | undefined>;
+  getAllNotificationPreferences(): Promise<NotificationPreferences[]>;
+  saveNotificationPreferences(userId: number, preferences: InsertNotificationPreferences): Promise<NotificationPreferences>;
+  getNotifications(userId: number, limit: number): Promise<UserNotification[]>;
+  createNotification(notification: InsertUserNotification): Promise<UserNotification>;
+  // Marks the given notifications read, or all of the user's when no IDs are given
+  markNotificationsRead(userId: number, ids?: number[]): Promise<void>;
+  getNotificationAlertKeys(userId: number): Promise<string[]>;
+  addNotificationAlert(userId: number, key: string): Promise<void>;
+  clearNotificationAlerts(userId: number, keys: string[]): Promise<void>;
+
+  // Webhooks
+  getWebhooks(): Promise<Webhook[]>;
+  getWebhook(id: number): Promise<Webhook | undefined>;
+  createWebhook(webhook: InsertWebhook & { secret: string }): Promise<Webhook>;
+  updateWebhook(id: number, webhook: Partial<InsertWebhook>): Promise<Webhook | undefined>;
+  deleteWebhook(id: number): Promise<boolean>;
+  createWebhookDeliveries(deliveries: InsertWebhookDelivery[]): Promise<WebhookDelivery[]>;
+  // Pending deliveries whose next attempt is due, oldest first
+  getDueWebhookDeliveries(now: Date): Promise<WebhookDelivery[]>;
+  updateWebhookDelivery(id: number, delivery: Partial<InsertWebhookDelivery>): Promise<WebhookDelivery | undefined>;
+  getWebhookDeliveries(limit: number, webhookId?: number): Promise<WebhookDeliveryWithUrl[]>;
+  getWebhookDelivery(id: number): Promise<WebhookDelivery | undefined>;
+  // Removes finished deliveries from before the given date; returns how many were removed
+  pruneWebhookDeliveries(before: Date): Promise<number>;
+
+  // Locations
+  getLocations(): Promise<StorageLocation[]>;
+  getLocation(id: number): Promise<StorageLocation | undefined>;
+  createLocation(location: InsertStorageLocation): Promise<StorageLocation>;
+  updateLocation(id: number, location: Partial<InsertStorageLocation>): Promise<StorageLocation | undefined>;
+  deleteLocation(id: number): Promise<boolean>;
+
+  // Floorplan placements
+  getFloorplanPlacements(locationId?: number): Promise<FloorplanPlacement[]>;
+  saveFloorplanLayout(locationId: number, placements: Omit<InsertFloorplanPlacement, "locationId">[]): Promise<FloorplanPlacement[]>;
+}
+
+// Builds "Outer › 2,3 › Inner › 1,4" by walking up the parent containers.
+// Positions are shown 1-based, the way the grid presents them.
+function buildLocationPath(
+  containersById: Map<number, StorageContainer>,
+  containerId: number,
+  position: { row: number; column: number },
+): string {
+  const segments: string[] = [`${position.row + 1},${position.column + 1}`];
+  const visited = new Set<number>();
+  let current = containersById.get(containerId);
+
+  while (current && !visited.has(current.id)) {
+    visited.add(current.id);
+    segments.unshift(current.name);
+    if (!current.parentContainerId || !current.parentPosition) break;
+    segments.unshift(`${current.parentPosition.row + 1},${current.parentPosition.column + 1}`);
+    current = containersById.get(current.parentContainerId);
+  }
+
+  return segments.join(" › ");
+}
+
+// Enough to get back to twice the threshold, rounded up to what the unit keeps
+function suggestedReorderQuantity(quantity: number, threshold: number, unit: Unit | undefined): number {
+  const step = 1 / 10 ** (unit?.precision ?? 0);
+  const missing = roundQuantity(threshold * 2 - quantity, { precision: MAX_UNIT_PRECISION });
+  return Math.max(roundQuantity(Math.ceil(missing / step) * step, unit), step);
+}
+
+// One searched column: its text, and the tsvector the full-text match runs against
+interface SearchableText {
+  column: SQL;
+  vector: SQL;
+  config: "english" | "simple";
+  // How much a match here counts toward the ranking
+  weight: number;
+}
+
+// Each word of the search also finds longer words it starts, so "capac" finds "capacitor"
+function prefixTsQuery(text: string): string {
+  return text.toLowerCase().split(/[^0-9a-z\u00b5\u00c0-\uffff]+/).filter(Boolean).map(word => `${word}:*`).join(" & ");
+}
+
+// Keeps items.checkedOutTo/checkedOutAt in step with the item's open loans,
+// so the grid can flag checked out items without loading every checkout
+async function syncCheckoutSummary(tx: Transaction, itemId: number) {
+  const outstanding = await tx
+    .select()
+    .from(checkouts)
+    .where(and(eq(checkouts.itemId, itemId), isNull(checkouts.returnedAt)))
+    .orderBy(asc(checkouts.checkedOutAt));
+
+  const borrowers = Array.from(new Set(outstanding.map(c => c.borrower)));
+  await tx
+    .update(items)
+    .set({
+      checkedOutTo: borrowers.length > 0 ? borrowers.join(", ") : null,
+      checkedOutAt: outstanding[0]?.checkedOutAt || null,
+    })
+    .where(eq(items.id, itemId));
+}
+
+// Returns an error message if the item has less than is out on loan
+async function loanShortfall(tx: Transaction, item: Item): Promise<string | null> {
+  const [{ loaned }] = await tx
+    .select({ loaned: sql`coalesce(sum(${checkouts.quantity}), 0)`.mapWith(Number) })
+    .from(checkouts)
+    .where(and(eq(checkouts.itemId, item.id), isNull(checkouts.returnedAt)));
+  if (roundQuantity((item.quantity || 0) - loaned, { precision: MAX_UNIT_PRECISION }) >= 0) return null;
+  const [unit] = item.unitId ? await tx.select().from(units).where(eq(units.id, item.unitId)) : [];
+  return `${formatQuantity(loaned, unit)} of ${item.name} is checked out`;
+}
+
+// The first item matching the condition that still has something out on loan
+async function itemOnLoan(tx: Transaction, condition: SQL | undefined): Promise<Item | undefined> {
+  const [loaned] = await tx
+    .select({ item: items })
+    .from(items)
+    .innerJoin(checkouts, and(eq(checkouts.itemId, items.id), isNull(checkouts.returnedAt)))
+    .where(condition)
+    .limit(1);
+  return loaned?.item;
+}
+
+// Writes an audit event; before is null for creates and after is null for deletes.
+// Updates only keep the fields that changed and are skipped when nothing did.
+async function recordAudit(
+  tx: Transaction,
+  actor: AuditActor | undefined,
+  entityType: AuditEntityType,
+  entityId: number,
+  before: object | null,
+  after: object | null,
+  action?: AuditAction,
+) {
+  let beforeValues = before as Record<string, unknown> | null;
+  let afterValues = after as Record<string, unknown> | null;
+
+  if (beforeValues && afterValues) {
+    const previous = beforeValues;
+    const current = afterValues;
+    const changed = Object.keys(current).filter(
+      key => JSON.stringify(previous[key]) !== JSON.stringify(current[key])
+    );
+    if (changed.length === 0) return;
+    beforeValues = Object.fromEntries(changed.map(key => [key, previous[key]]));
+    afterValues = Object.fromEntries(changed.map(key => [key, current[key]]));
+  }
+
+  await tx.insert(auditEvents).values({
+    entityType,
+    entityId,
+    action: action ?? (!before ? "create" : !after ? "delete" : "update"),
+    before: beforeValues,
+    after: afterValues,
+    userId: actor?.id ?? null,
+    username: actor?.username ?? null,
+    changeSet: actor?.changeSet ?? null,
+  });
+}
+
+// The values read from an item's name and attributes, as it will be saved
+async function engineeringValuesFor(
+  tx: Transaction,
+  item: { name: string; categoryId?: number | null; attributes?: Record<string, ItemAttributeValue> },
+): Promise<EngineeringValues> {
+  const [category] = item.categoryId
+    ? await tx.select().from(categories).where(eq(categories.id, item.categoryId))
+    : [];
+  return extractEngineeringValues(item.name, item.attributes, category?.attributes);
+}
+
+// An item's tag names, alphabetically
+async function itemTagNames(tx: Transaction | typeof db, itemId: number): Promise<string[]> {
+  const rows = await tx
+    .select({ name: tags.name })
+    .from(itemTags)
+    .innerJoin(tags, eq(itemTags.tagId, tags.id))
+    .where(eq(itemTags.itemId, itemId))
+    .orderBy(asc(tags.name));
+  return rows.map(row => row.name);
+}
+
+// Tags no item carries any more are dropped, so autocomplete only offers ones in use
+async function removeUnusedTags(tx: Transaction) {
+  await tx.delete(tags).where(notInArray(tags.id, tx.select({ tagId: itemTags.tagId }).from(itemTags)));
+}
+
+// Replaces an item's tags and returns their names. Names match existing tags regardless
+// of case; the rest become new tags.
+async function setItemTags(tx: Transaction, itemId: number, names: string[]): Promise<string[]> {
+  const existing = await tx.select().from(tags);
+  const byName = new Map(existing.map(tag => [tag.name.toLowerCase(), tag]));
+
+  const tagIds = new Set<number>();
+  for (const name of names.map(name => name.trim()).filter(Boolean)) {
+    let tag = byName.get(name.toLowerCase());
+    if (!tag) {
+      [tag] = await tx.insert(tags).values({ name }).returning();
+      byName.set(name.toLowerCase(), tag);
+    }
+    tagIds.add(tag.id);
+  }
+
+  await tx.delete(itemTags).where(eq(itemTags.itemId, itemId));
+  if (tagIds.size > 0) {
+    await tx.insert(itemTags).values(Array.from(tagIds).map(tagId => ({ itemId, tagId })));
+  }
+  await removeUnusedTags(tx);
+  return await itemTagNames(tx, itemId);
+}
+
+// Adds each item's tag names, loaded in one query
+async function withTags<T extends Item>(rows: T[]): Promise<Array<T & { tags: string[] }>> {
+  const ids = rows.map(row => row.id);
+  const tagRows = ids.length > 0
+    ? await db
+        .select({ itemId: itemTags.itemId, name: tags.name })
+        .from(itemTags)
+        .innerJoin(tags, eq(itemTags.tagId, tags.id))
+        .where(inArray(itemTags.itemId, ids))
+        .orderBy(asc(tags.name))
+    : [];
+
+  const namesByItem = new Map<number, string[]>();
+  for (const { itemId, name } of tagRows) {
+    namesByItem.set(itemId, [...(namesByItem.get(itemId) || []), name]);
+  }
+  return rows.map(row => ({ ...row, tags: namesByItem.get(row.id) || [] }));
+}
+
+// Adds when each item's first lot expires
+async function withExpiry<T extends Item>(rows: T[]): Promise<Array<T & { nextExpiry: Date | null }>> {
+  const ids = rows.map(row => row.id);
+  const expiryRows = ids.length > 0
+    ? await db
+        .select({ itemId: itemLots.itemId, nextExpiry: sql<string>`MIN(${itemLots.expiresAt})` })
+        .from(itemLots)
+        .where(and(inArray(itemLots.itemId, ids), isNotNull(itemLots.expiresAt)))
+        .groupBy(itemLots.itemId)
+    : [];
+
+  const expiryByItem = new Map(expiryRows.map(({ itemId, nextExpiry }) => [itemId, new Date(nextExpiry)]));
+  return rows.map(row => ({ ...row, nextExpiry: expiryByItem.get(row.id) ?? null }));
+}
+
+// Uses up an item's lots oldest first until they fit in its quantity. Stock outside any lot
+// counts as the oldest, so lots only shrink once that has run out.
+async function fitLotsToQuantity(tx: Transaction, actor: AuditActor | undefined, itemId: number) {
+  const [item] = await tx
+    .select({ quantity: items.quantity, unit: units })
+    .from(items)
+    .leftJoin(units, eq(items.unitId, units.id))
+    .where(eq(items.id, itemId));
+  if (!item) return;
+  const lots = await tx
+    .select()
+    .from(itemLots)
+    .where(eq(itemLots.itemId, itemId))
+    .orderBy(asc(itemLots.receivedAt), asc(itemLots.id));
+
+  let excess = roundQuantity(lots.reduce((sum, lot) => sum + lot.quantity, 0) - (item.quantity || 0), item.unit);
+  for (const lot of lots) {
+    if (excess <= 0) break;
+    const used = Math.min(lot.quantity, excess);
+    excess = roundQuantity(excess - used, item.unit);
+    if (used === lot.quantity) {
+      await tx.delete(itemLots).where(eq(itemLots.id, lot.id));
+      await recordAudit(tx, actor, "lot", lot.id, lot, null);
+    } else {
+      const [updated] = await tx
+        .update(itemLots)
+        .set({ quantity: roundQuantity(lot.quantity - used, item.unit) })
+        .where(eq(itemLots.id, lot.id))
+        .returning();
+      await recordAudit(tx, actor, "lot", lot.id, lot, updated);
+    }
+  }
+}
+
+// Used when neither a category nor any of its parents sets a color
+const DEFAULT_CATEGORY_COLOR = "#64748b";
+
+// Fills in the color and icon each category inherits from the nearest parent that sets
+// them, and its path from the top
+function resolveCategories(rows: Category[]): Map<number, ResolvedCategory> {
+  const byId = new Map(rows.map(c => [c.id, c]));
+  const resolved = new Map<number, ResolvedCategory>();
+
+  for (const category of rows) {
+    // The category, its parent, and so on up to the top
+    const lineage: Category[] = [];
+    let current: Category | undefined = category;
+    while (current && !lineage.includes(current)) {
+      lineage.push(current);
+      current = current.parentId ? byId.get(current.parentId) : undefined;
+    }
+
+    resolved.set(category.id, {
+      ...category,
+      color: lineage.find(c => c.color)?.color ?? DEFAULT_CATEGORY_COLOR,
+      icon: lineage.find(c => c.icon)?.icon ?? null,
+      inheritsColor: !category.color,
+      inheritsIcon: !category.icon,
+      path: lineage.map(c => c.name).reverse().join(" › "),
+      depth: lineage.length - 1,
+    });
+  }
+  return resolved;
+}
+
+// The category and every category nested under it, however deep
+function categoryWithDescendants(rows: Category[], id: number): number[] {
+  const ids = [id];
+  for (let i = 0; i < ids.length; i++) {
+    for (const category of rows) {
+      if (category.parentId === ids[i] && !ids.includes(category.id)) ids.push(category.id);
+    }
+  }
+  return ids;
+}
+
+// Adds each item's category, resolved, for the getters returning ItemWithCategory
+async function withCategories<T extends Item>(rows: T[]): Promise<Array<T & { category?: ResolvedCategory }>> {
+  const resolved = resolveCategories(await db.select().from(categories));
+  return rows.map(row => ({ ...row, category: row.categoryId ? resolved.get(row.categoryId) : undefined }));
+}
+
+const auditTables = {
+  container: storageContainers,
+  category: categories,
+  sizeOption: sizeOptions,
+  item: items,
+  supplier: suppliers,
+  unit: units,
+  part: parts,
+  lot: itemLots,
+  checkout: checkouts,
+};
+
+// Raised when a change can't be undone because the data has moved on since
+export class UndoConflictError extends Error {}
+
+// Raised when a checkout or quantity change would lend out more of an item than there is
+export class StockError extends Error {}
+
+// Raised when an item would go to the trash while some of it is still out on loan
+export class OnLoanError extends Error {}
+
+// Audit snapshots are JSON, so timestamps come back as strings
+function reviveSnapshot(entityType: AuditEntityType, snapshot: Record<string, unknown>) {
+  const columns = getTableColumns(auditTables[entityType]) as Record<string, { dataType: string }>;
+  return Object.fromEntries(Object.entries(snapshot).map(([key, value]) => [
+    key,
+    columns[key]?.dataType === "date" && typeof value === "string" ? new Date(value) : value,
+  ]));
+}
+
+function matchesSnapshot(row: Record<string, unknown>, snapshot: Record<string, unknown>) {
+  return Object.keys(snapshot).every(key => JSON.stringify(row[key]) === JSON.stringify(snapshot[key]));
 }
 
 export class DatabaseStorage implements IStorage {
-  async getStorageContainers(): Promise<StorageContainer[]> {
-    return await db.select().from(storageContainers);
+  sessionStore: session.Store;
+  // Misspellings are only matched once pg_trgm is available
+  private fuzzySearch = false;
+
+  constructor() {
+    this.sessionStore = new PostgresSessionStore({ pool, createTableIfMissing: true });
   }
 
-  async getStorageContainer(id: number): Promise<StorageContainer | undefined> {
-    const [container] = await db.select().from(storageContainers).where(eq(storageContainers.id, id));
-    return container || undefined;
+  async getUsers(): Promise<User[]> {
+    return await db.select().from(users).orderBy(asc(users.username));
   }
 
-  async createStorageContainer(container: InsertStorageContainer): Promise<StorageContainer> {
-    const [newContainer] = await db
-      .insert(storageContainers)
-      .values(container)
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.id, id));
+    return user || undefined;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.username, username));
+    return user || undefined;
+  }
+
+  async getUserCount(): Promise<number> {
+    const [result] = await db.select({ count: sql<number>`count(*)::int` }).from(users);
+    return result.count;
+  }
+
+  async createUser(user: InsertUser): Promise<User> {
+    const [newUser] = await db
+      .insert(users)
+      .values(user)
       .returning();
-    return newContainer;
+    return newUser;
   }
 
-  async updateStorageContainer(id: number, container: Partial<InsertStorageContainer>): Promise<StorageContainer | undefined> {
+  async updateUser(id: number, user: Partial<InsertUser>): Promise<User | undefined> {
     const [updated] = await db
-      .update(storageContainers)
-      .set(container)
-      .where(eq(storageContainers.id, id))
+      .update(users)
+      .set(user)
+      .where(eq(users.id, id))
       .returning();
     return updated || undefined;
   }
 
-  async deleteStorageContainer(id: number): Promise<boolean> {
-    // First delete all items in this container
-    await db.delete(items).where(eq(items.containerId, id));
-    
-    // Then delete the container
-    const result = await db.delete(storageContainers).where(eq(storageContainers.id, id));
-    return (result.rowCount || 0) > 0;
+  async getStorageContainers(): Promise<StorageContainer[]> {
+    return await db.select().from(storageContainers).where(isNull(storageContainers.deletedAt));
+  }
+
+  async getStorageContainer(id: number): Promise<StorageContainer | undefined> {
+    const [container] = await db
+      .select()
+      .from(storageContainers)
+      .where(and(eq(storageContainers.id, id), isNull(storageContainers.deletedAt)));
+    return container || undefined;
+  }
+
+  async createStorageContainer(container: InsertStorageContainer, actor?: AuditActor): Promise<StorageContainer> {
+    return await db.transaction(async (tx) => {
+      const [newContainer] = await tx
+        .insert(storageContainers)
+        .values(container)
+        .returning();
+      await recordAudit(tx, actor, "container", newContainer.id, null, newContainer);
+      return newContainer;
+    });
+  }
+
+  async updateStorageContainer(id: number, container: Partial<InsertStorageContainer>, actor?: AuditActor): Promise<StorageContainer | undefined> {
+    return await db.transaction(async (tx) => {
+      const [existing] = await tx
+        .select()
+        .from(storageContainers)
+        .where(and(eq(storageContainers.id, id), isNull(storageContainers.deletedAt)));
+      if (!existing) return undefined;
+
+      const [updated] = await tx
+        .update(storageContainers)
+        .set(container)
+        .where(eq(storageContainers.id, id))
+        .returning();
+      await recordAudit(tx, actor, "container", id, existing, updated);
+      return updated;
+    });
+  }
+
+  async deleteStorageContainer(id: number, actor?: AuditActor): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      const [existing] = await tx
+        .select()
+        .from(storageContainers)
+        .where(and(eq(storageContainers.id, id), isNull(storageContainers.deletedAt)));
+      if (!existing) return false;
+
+      const loaned = await itemOnLoan(tx, and(eq(items.containerId, id), isNull(items.deletedAt)));
+      if (loaned) throw new OnLoanError(`${loaned.name} is still checked out`);
+
+      // Its items go to the trash with it, stamped with the same time so a
+      // restore brings back exactly these
+      const deletedAt = new Date();
+      const trashedItems = await tx
+        .select()
+        .from(items)
+        .where(and(eq(items.containerId, id), isNull(items.deletedAt)));
+      await tx
+        .update(items)
+        .set({ deletedAt })
+        .where(and(eq(items.containerId, id), isNull(items.deletedAt)));
+      for (const item of trashedItems) {
+        await recordAudit(tx, actor, "item", item.id, item, null);
+      }
+
+      // Containers nested inside this one become top-level containers
+      const unnested = await tx
+        .select()
+        .from(storageContainers)
+        .where(eq(storageContainers.parentContainerId, id));
+      for (const child of unnested) {
+        const [updated] = await tx
+          .update(storageContainers)
+          .set({ parentContainerId: null, parentPosition: null })
+          .where(eq(storageContainers.id, child.id))
+          .returning();
+        await recordAudit(tx, actor, "container", child.id, child, updated);
+      }
+
+      // Then move the container to the trash
+      await tx.update(storageContainers).set({ deletedAt }).where(eq(storageContainers.id, id));
+      await recordAudit(tx, actor, "container", id, existing, null);
+      return true;
+    });
   }
 
-  async getCategories(): Promise<Category[]> {
-    return await db.select().from(categories);
+  // Each category is followed by its subcategories, by name at every level
+  async getCategories(): Promise<ResolvedCategory[]> {
+    const rows = await db.select().from(categories);
+    const resolved = resolveCategories(rows);
+
+    const ordered: ResolvedCategory[] = [];
+    const addChildren = (parentId: number | null) => {
+      rows
+        .filter(c => c.parentId === parentId)
+        .sort((a, b) => a.name.localeCompare(b.name))
+        .forEach(c => {
+          ordered.push(resolved.get(c.id)!);
+          addChildren(c.id);
+        });
+    };
+    addChildren(null);
+    return ordered;
   }
 
   async getCategory(id: number): Promise<Category | undefined> {
@@ -95,26 +729,52 @@ export class DatabaseStorage implements IStorage {
     return category || undefined;
   }
 
-  async createCategory(category: InsertCategory): Promise<Category> {
-    const [newCategory] = await db
-      .insert(categories)
-      .values(category)
-      .returning();
-    return newCategory;
+  async createCategory(category: InsertCategory, actor?: AuditActor): Promise<Category> {
+    return await db.transaction(async (tx) => {
+      const [newCategory] = await tx
+        .insert(categories)
+        .values(category)
+        .returning();
+      await recordAudit(tx, actor, "category", newCategory.id, null, newCategory);
+      return newCategory;
+    });
   }
 
-  async updateCategory(id: number, category: Partial<InsertCategory>): Promise<Category | undefined> {
-    const [updated] = await db
-      .update(categories)
-      .set(category)
-      .where(eq(categories.id, id))
-      .returning();
-    return updated || undefined;
+  async updateCategory(id: number, category: Partial<InsertCategory>, actor?: AuditActor): Promise<Category | undefined> {
+    return await db.transaction(async (tx) => {
+      const [existing] = await tx.select().from(categories).where(eq(categories.id, id));
+      if (!existing) return undefined;
+
+      const [updated] = await tx
+        .update(categories)
+        .set(category)
+        .where(eq(categories.id, id))
+        .returning();
+      await recordAudit(tx, actor, "category", id, existing, updated);
+      return updated;
+    });
   }
 
-  async deleteCategory(id: number): Promise<boolean> {
-    const result = await db.delete(categories).where(eq(categories.id, id));
-    return (result.rowCount || 0) > 0;
+  async deleteCategory(id: number, actor?: AuditActor): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      const [existing] = await tx.select().from(categories).where(eq(categories.id, id));
+      if (!existing) return false;
+
+      // Subcategories move up to the deleted category's parent
+      const children = await tx.select().from(categories).where(eq(categories.parentId, id));
+      for (const child of children) {
+        const [updated] = await tx
+          .update(categories)
+          .set({ parentId: existing.parentId })
+          .where(eq(categories.id, child.id))
+          .returning();
+        await recordAudit(tx, actor, "category", child.id, child, updated);
+      }
+
+      await tx.delete(categories).where(eq(categories.id, id));
+      await recordAudit(tx, actor, "category", id, existing, null);
+      return true;
+    });
   }
 
   async getSizeOptions(): Promise<SizeOption[]> {
@@ -127,239 +787,1472 @@ export class DatabaseStorage implements IStorage {
     return sizeOption || undefined;
   }
 
-  async createSizeOption(sizeOption: InsertSizeOption): Promise<SizeOption> {
-    const [newSizeOption] = await db
-      .insert(sizeOptions)
-      .values(sizeOption)
-      .returning();
-    return newSizeOption;
+  async createSizeOption(sizeOption: InsertSizeOption, actor?: AuditActor): Promise<SizeOption> {
+    return await db.transaction(async (tx) => {
+      const [newSizeOption] = await tx
+        .insert(sizeOptions)
+        .values(sizeOption)
+        .returning();
+      await recordAudit(tx, actor, "sizeOption", newSizeOption.id, null, newSizeOption);
+      return newSizeOption;
+    });
   }
 
-  async updateSizeOption(id: number, sizeOption: Partial<InsertSizeOption>): Promise<SizeOption | undefined> {
-    const [updated] = await db
-      .update(sizeOptions)
-      .set(sizeOption)
-      .where(eq(sizeOptions.id, id))
-      .returning();
-    return updated || undefined;
+  async updateSizeOption(id: number, sizeOption: Partial<InsertSizeOption>, actor?: AuditActor): Promise<SizeOption | undefined> {
+    return await db.transaction(async (tx) => {
+      const [existing] = await tx.select().from(sizeOptions).where(eq(sizeOptions.id, id));
+      if (!existing) return undefined;
+
+      const [updated] = await tx
+        .update(sizeOptions)
+        .set(sizeOption)
+        .where(eq(sizeOptions.id, id))
+        .returning();
+      await recordAudit(tx, actor, "sizeOption", id, existing, updated);
+      return updated;
+    });
   }
 
-  async deleteSizeOption(id: number): Promise<boolean> {
-    const result = await db.delete(sizeOptions).where(eq(sizeOptions.id, id));
-    return (result.rowCount || 0) > 0;
+  async deleteSizeOption(id: number, actor?: AuditActor): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      const [deleted] = await tx.delete(sizeOptions).where(eq(sizeOptions.id, id)).returning();
+      if (!deleted) return false;
+      await recordAudit(tx, actor, "sizeOption", id, deleted, null);
+      return true;
+    });
+  }
+
+  async getUnits(): Promise<Unit[]> {
+    return await db.select().from(units).orderBy(asc(units.name));
+  }
+
+  async getUnit(id: number): Promise<Unit | undefined> {
+    const [unit] = await db.select().from(units).where(eq(units.id, id));
+    return unit || undefined;
+  }
+
+  async getUnitItemCount(id: number): Promise<number> {
+    const [row] = await db.select({ count: count() }).from(items).where(eq(items.unitId, id));
+    return row.count;
+  }
+
+  async createUnit(unit: InsertUnit, actor?: AuditActor): Promise<Unit> {
+    return await db.transaction(async (tx) => {
+      const [newUnit] = await tx.insert(units).values(unit).returning();
+      await recordAudit(tx, actor, "unit", newUnit.id, null, newUnit);
+      return newUnit;
+    });
+  }
+
+  async updateUnit(id: number, unit: Partial<InsertUnit>, actor?: AuditActor): Promise<Unit | undefined> {
+    return await db.transaction(async (tx) => {
+      const [existing] = await tx.select().from(units).where(eq(units.id, id));
+      if (!existing) return undefined;
+
+      const [updated] = await tx
+        .update(units)
+        .set(unit)
+        .where(eq(units.id, id))
+        .returning();
+      await recordAudit(tx, actor, "unit", id, existing, updated);
+      return updated;
+    });
+  }
+
+  async deleteUnit(id: number, actor?: AuditActor): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      const [deleted] = await tx.delete(units).where(eq(units.id, id)).returning();
+      if (!deleted) return false;
+      await recordAudit(tx, actor, "unit", id, deleted, null);
+      return true;
+    });
+  }
+
+  async getParts(): Promise<PartWithStock[]> {
+    const [allParts, stocked, allContainers] = await Promise.all([
+      db.select().from(parts).orderBy(asc(parts.name)),
+      db.select().from(items).where(and(isNotNull(items.partId), isNull(items.deletedAt))).orderBy(asc(items.id)),
+      this.getStorageContainers(),
+    ]);
+    const containersById = new Map(allContainers.map(c => [c.id, c]));
+
+    return allParts.map(part => {
+      const partItems = stocked.filter(item => item.partId === part.id);
+      return {
+        ...part,
+        unitId: partItems[0]?.unitId ?? null,
+        totalQuantity: partItems.reduce((sum, item) => sum + (item.quantity || 0), 0),
+        locations: partItems.map(item => ({
+          itemId: item.id,
+          containerId: item.containerId,
+          position: item.position,
+          locationPath: buildLocationPath(containersById, item.containerId, item.position),
+          quantity: item.quantity || 0,
+        })),
+      };
+    });
+  }
+
+  async getPart(id: number): Promise<Part | undefined> {
+    const [part] = await db.select().from(parts).where(eq(parts.id, id));
+    return part || undefined;
+  }
+
+  async getPartItems(id: number): Promise<Item[]> {
+    return await db
+      .select()
+      .from(items)
+      .where(and(eq(items.partId, id), isNull(items.deletedAt)))
+      .orderBy(asc(items.id));
+  }
+
+  async createPart(part: InsertPart, actor?: AuditActor): Promise<Part> {
+    return await db.transaction(async (tx) => {
+      const [newPart] = await tx
+        .insert(parts)
+        .values(part)
+        .returning();
+      await recordAudit(tx, actor, "part", newPart.id, null, newPart);
+      return newPart;
+    });
+  }
+
+  async updatePart(id: number, part: Partial<InsertPart>, actor?: AuditActor): Promise<Part | undefined> {
+    return await db.transaction(async (tx) => {
+      const [existing] = await tx.select().from(parts).where(eq(parts.id, id));
+      if (!existing) return undefined;
+
+      const [updated] = await tx
+        .update(parts)
+        .set(part)
+        .where(eq(parts.id, id))
+        .returning();
+      await recordAudit(tx, actor, "part", id, existing, updated);
+      return updated;
+    });
+  }
+
+  // Its items stay where they are as separate items, each recorded so undo can link them again
+  async deletePart(id: number, actor?: AuditActor): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      const [existing] = await tx.select().from(parts).where(eq(parts.id, id));
+      if (!existing) return false;
+
+      const stocking = await tx.select().from(items).where(eq(items.partId, id));
+      for (const item of stocking) {
+        const [updated] = await tx
+          .update(items)
+          .set({ partId: null })
+          .where(eq(items.id, item.id))
+          .returning();
+        await recordAudit(tx, actor, "item", item.id, item, updated);
+      }
+
+      await tx.delete(parts).where(eq(parts.id, id));
+      await recordAudit(tx, actor, "part", id, existing, null);
+      return true;
+    });
+  }
+
+  async getSuppliers(): Promise<Supplier[]> {
+    return await db.select().from(suppliers).orderBy(asc(suppliers.name));
+  }
+
+  async getSupplier(id: number): Promise<Supplier | undefined> {
+    const [supplier] = await db.select().from(suppliers).where(eq(suppliers.id, id));
+    return supplier || undefined;
+  }
+
+  async createSupplier(supplier: InsertSupplier, actor?: AuditActor): Promise<Supplier> {
+    return await db.transaction(async (tx) => {
+      const [newSupplier] = await tx
+        .insert(suppliers)
+        .values(supplier)
+        .returning();
+      await recordAudit(tx, actor, "supplier", newSupplier.id, null, newSupplier);
+      return newSupplier;
+    });
+  }
+
+  async updateSupplier(id: number, supplier: Partial<InsertSupplier>, actor?: AuditActor): Promise<Supplier | undefined> {
+    return await db.transaction(async (tx) => {
+      const [existing] = await tx.select().from(suppliers).where(eq(suppliers.id, id));
+      if (!existing) return undefined;
+
+      const [updated] = await tx
+        .update(suppliers)
+        .set(supplier)
+        .where(eq(suppliers.id, id))
+        .returning();
+      await recordAudit(tx, actor, "supplier", id, existing, updated);
+      return updated;
+    });
+  }
+
+  // Items bought from the supplier keep their part numbers and prices but lose the link,
+  // each recorded so undo can put it back
+  async deleteSupplier(id: number, actor?: AuditActor): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      const [existing] = await tx.select().from(suppliers).where(eq(suppliers.id, id));
+      if (!existing) return false;
+
+      const supplied = await tx.select().from(items).where(eq(items.supplierId, id));
+      for (const item of supplied) {
+        const [updated] = await tx
+          .update(items)
+          .set({ supplierId: null })
+          .where(eq(items.id, item.id))
+          .returning();
+        await recordAudit(tx, actor, "item", item.id, item, updated);
+      }
+
+      await tx.delete(suppliers).where(eq(suppliers.id, id));
+      await recordAudit(tx, actor, "supplier", id, existing, null);
+      return true;
+    });
   }
 
   async getItems(): Promise<ItemWithCategory[]> {
+    const result = await db.select().from(items).where(isNull(items.deletedAt));
+    return await withExpiry(await withTags(await withCategories(result)));
+  }
+
+  async getItemsByContainer(containerId: number): Promise<ItemWithCategory[]> {
+    const result = await db.select()
+    .from(items)
+    .where(and(eq(items.containerId, containerId), isNull(items.deletedAt)));
+
+    return await withExpiry(await withTags(await withCategories(result)));
+  }
+
+  async getItem(id: number): Promise<ItemWithCategory | undefined> {
+    const [row] = await db.select().from(items).where(and(eq(items.id, id), isNull(items.deletedAt)));
+    if (!row) return undefined;
+    const [item] = await withExpiry(await withTags(await withCategories([row])));
+    return item;
+  }
+
+  async createItem(item: InsertItem, actor?: AuditActor): Promise<Item> {
+    return await db.transaction(async (tx) => {
+      const { tags: tagNames, ...values } = item;
+      const [newItem] = await tx
+        .insert(items)
+        .values({ ...values, ...(await engineeringValuesFor(tx, values)) })
+        .returning();
+      const newTags = tagNames ? await setItemTags(tx, newItem.id, tagNames) : [];
+
+      if (newItem.quantity) {
+        await tx.insert(itemTransactions).values({
+          itemId: newItem.id,
+          delta: newItem.quantity,
+          quantityAfter: newItem.quantity,
+          reason: "initial",
+          actor: actor?.username || null,
+        });
+      }
+      // Tag names are kept with the item's columns so undo can put them back
+      await recordAudit(tx, actor, "item", newItem.id, null, { ...newItem, tags: newTags });
+      return newItem;
+    });
+  }
+
+  async updateItem(id: number, item: Partial<InsertItem>, actor?: AuditActor): Promise<Item | undefined> {
+    return await db.transaction(async (tx) => {
+      const [existing] = await tx.select().from(items).where(and(eq(items.id, id), isNull(items.deletedAt)));
+      if (!existing) return undefined;
+
+      const { tags: tagNames, ...values } = item;
+      const [updated] = await tx
+        .update(items)
+        .set({ ...values, ...(await engineeringValuesFor(tx, { ...existing, ...values })) })
+        .where(eq(items.id, id))
+        .returning();
+      const previousTags = await itemTagNames(tx, id);
+      const currentTags = tagNames ? await setItemTags(tx, id, tagNames) : previousTags;
+
+      // Quantity edited directly in the item form rather than through an adjustment
+      const previousQuantity = existing.quantity || 0;
+      const newQuantity = updated.quantity || 0;
+      if (newQuantity !== previousQuantity) {
+        await tx.insert(itemTransactions).values({
+          itemId: id,
+          delta: roundQuantity(newQuantity - previousQuantity, { precision: MAX_UNIT_PRECISION }),
+          quantityAfter: newQuantity,
+          reason: "edit",
+          actor: actor?.username || null,
+        });
+      }
+      await recordAudit(tx, actor, "item", id, { ...existing, tags: previousTags }, { ...updated, tags: currentTags });
+      if (newQuantity < previousQuantity) {
+        const shortfall = await loanShortfall(tx, updated);
+        if (shortfall) throw new StockError(shortfall);
+        await fitLotsToQuantity(tx, actor, id);
+      }
+      return updated;
+    });
+  }
+
+  async deleteItem(id: number, actor?: AuditActor): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      const [existing] = await tx.select().from(items).where(and(eq(items.id, id), isNull(items.deletedAt)));
+      if (!existing) return false;
+      if (await itemOnLoan(tx, eq(items.id, id))) {
+        throw new OnLoanError(`${existing.name} is still checked out`);
+      }
+
+      await tx.update(items).set({ deletedAt: new Date() }).where(eq(items.id, id));
+      await recordAudit(tx, actor, "item", id, existing, null);
+      return true;
+    });
+  }
+
+  // Every item covering the cell, including ones spanning into it from a neighbouring cell; oldest first
+  async getItemsByPosition(containerId: number, position: { row: number; column: number }): Promise<Item[]> {
+    return await db
+      .select()
+      .from(items)
+      .where(
+        and(
+          eq(items.containerId, containerId),
+          isNull(items.deletedAt),
+          sql`(${items.position}->>'row')::int <= ${position.row}`,
+          sql`(${items.position}->>'row')::int + ${items.rowSpan} > ${position.row}`,
+          sql`(${items.position}->>'column')::int <= ${position.column}`,
+          sql`(${items.position}->>'column')::int + ${items.columnSpan} > ${position.column}`
+        )
+      )
+      .orderBy(asc(items.id));
+  }
+
+  async enableFuzzySearch(): Promise<void> {
+    try {
+      await db.execute(sql`CREATE EXTENSION IF NOT EXISTS pg_trgm`);
+      this.fuzzySearch = true;
+    } catch (error) {
+      console.warn("pg_trgm is not available, search won't match misspellings:", error);
+    }
+  }
+
+  // Value filters like "R:1k..10k" or "C>=100n" narrow the results; the rest of the query is
+  // matched as full text against the chosen fields, falling back to misspellings, and ranked by relevance
+  async searchItems(query: string, fields: string[] = ['name'], tagNames: string[] = [], categoryId?: number): Promise<ItemSearchResult[]> {
+    const { text, filters } = parseEngineeringQuery(query);
+    const tsQuery = prefixTsQuery(text);
+    // The item's columns use the same expressions as the full-text and trigram indexes on items and parts.
+    // Category, size and container names come from small lookup tables joined in, so they go without.
+    const searchable: Record<string, SearchableText[]> = {
+      name: [
+        { column: sql`${items.name}`, vector: sql`to_tsvector('english', ${items.name})`, config: "english", weight: 1 },
+        // Finds every location of a part by the part's name
+        { column: sql`${parts.name}`, vector: sql`to_tsvector('english', coalesce(${parts.name}, ''))`, config: "english", weight: 1 },
+      ],
+      information: [
+        { column: sql`${items.information}`, vector: sql`to_tsvector('english', coalesce(${items.information}, ''))`, config: "english", weight: 0.4 },
+      ],
+      partNumber: [{
+        column: sql`(coalesce(${items.manufacturerPartNumber}, '') || ' ' || coalesce(${items.supplierSku}, ''))`,
+        vector: sql`to_tsvector('simple', coalesce(${items.manufacturerPartNumber}, '') || ' ' || coalesce(${items.supplierSku}, ''))`,
+        config: "simple",
+        weight: 0.8,
+      }],
+      attachments: [{
+        column: sql`(SELECT string_agg(${attachments.fileName}, ' ') FROM ${attachments} WHERE ${attachments.itemId} = ${items.id})`,
+        vector: sql`to_tsvector('simple', coalesce((SELECT string_agg(${attachments.fileName}, ' ') FROM ${attachments} WHERE ${attachments.itemId} = ${items.id}), ''))`,
+        config: "simple",
+        weight: 0.3,
+      }],
+      category: [
+        { column: sql`${categories.name}`, vector: sql`to_tsvector('simple', coalesce(${categories.name}, ''))`, config: "simple", weight: 0.5 },
+      ],
+      size: [{
+        column: sql`concat_ws(' ', ${items.size}, ${sizeOptions.label})`,
+        vector: sql`to_tsvector('simple', coalesce(${items.size}, '') || ' ' || coalesce(${sizeOptions.label}, ''))`,
+        config: "simple",
+        weight: 0.5,
+      }],
+      container: [
+        { column: sql`${storageContainers.name}`, vector: sql`to_tsvector('simple', coalesce(${storageContainers.name}, ''))`, config: "simple", weight: 0.5 },
+      ],
+      checkedOutTo: [
+        { column: sql`${items.checkedOutTo}`, vector: sql`to_tsvector('simple', coalesce(${items.checkedOutTo}, ''))`, config: "simple", weight: 0.5 },
+      ],
+    };
+    const searched = fields.flatMap(field => searchable[field] ?? []);
+
+    const valueConditions = filters.flatMap(({ column, min, max }) => [
+      isNotNull(items[column]),
+      ...(min !== null ? [gte(items[column], min)] : []),
+      ...(max !== null ? [lte(items[column], max)] : []),
+    ]);
+    // Every listed tag has to be on the item
+    const tagConditions = tagNames.map(name => inArray(
+      items.id,
+      db.select({ itemId: itemTags.itemId })
+        .from(itemTags)
+        .innerJoin(tags, eq(itemTags.tagId, tags.id))
+        .where(sql`LOWER(${tags.name}) = ${name.toLowerCase()}`),
+    ));
+    // A category takes in its subcategories
+    const categoryCondition = categoryId !== undefined
+      ? inArray(items.categoryId, categoryWithDescendants(await db.select().from(categories), categoryId))
+      : undefined;
+    const filtersOnly = !text && (filters.length > 0 || tagConditions.length > 0 || categoryCondition !== undefined);
+
+    // Matches the words of the search, or with fuzzy close misspellings of them, ranking names
+    // and part numbers above the rest
+    const findMatches = (fuzzy: boolean) => {
+      // <% is word_similarity against pg_trgm.word_similarity_threshold (0.6 by default), and can use the trigram indexes
+      const searchConditions = searched.map(({ column, vector, config }) => fuzzy
+        ? sql`${text} <% ${column}`
+        : sql`${vector} @@ to_tsquery(${config}::regconfig, ${tsQuery})`);
+      const rankTerms = searched.map(({ column, vector, config, weight }) => fuzzy
+        ? sql`${weight}::real * coalesce(word_similarity(${text}, ${column}), 0)`
+        : sql`${weight}::real * ts_rank(${vector}, to_tsquery(${config}::regconfig, ${tsQuery}))`);
+      const textCondition = filtersOnly
+        ? undefined
+        : searchConditions.length > 0 ? or(...searchConditions) : sql`1=0`;
+
+      return db.select({
+        id: items.id,
+        partId: items.partId,
+        rank: (filtersOnly || rankTerms.length === 0 ? sql`0` : sql.join(rankTerms, sql` + `)).mapWith(Number),
+      })
+      .from(items)
+      .leftJoin(parts, eq(items.partId, parts.id))
+      .leftJoin(categories, eq(items.categoryId, categories.id))
+      .leftJoin(sizeOptions, eq(items.size, sizeOptions.name))
+      .leftJoin(storageContainers, eq(items.containerId, storageContainers.id))
+      .where(and(
+        isNull(items.deletedAt),
+        textCondition,
+        categoryCondition,
+        ...valueConditions,
+        ...tagConditions,
+      ));
+    };
+    let matched = await findMatches(false);
+    // Misspellings are only looked for when the words themselves turn up nothing
+    if (matched.length === 0 && text && this.fuzzySearch) {
+      matched = await findMatches(true);
+    }
+    if (matched.length === 0) return [];
+
+    // A matching item brings along the other locations of its part, so the part shows with all of its stock,
+    // ranked by its best matching location
+    const rankById = new Map(matched.map(({ id, rank }) => [id, rank]));
+    const rankByPart = new Map<number, number>();
+    for (const { partId, rank } of matched) {
+      if (partId !== null) rankByPart.set(partId, Math.max(rank, rankByPart.get(partId) ?? 0));
+    }
+    const rankOf = (item: Item) => (item.partId !== null ? rankByPart.get(item.partId) : rankById.get(item.id)) ?? 0;
+
     const result = await db.select({
-      id: items.id,
-      name: items.name,
-      categoryId: items.categoryId,
-      size: items.size,
-      quantity: items.quantity,
-      information: items.information,
-      photo: items.photo,
-      containerId: items.containerId,
-      position: items.position,
-      lowQuantityThreshold: items.lowQuantityThreshold,
-      checkedOutTo: items.checkedOutTo,
-      checkedOutAt: items.checkedOutAt,
-      category: {
-        id: categories.id,
-        name: categories.name,
-        color: categories.color,
-        icon: categories.icon,
-      },
+      ...getTableColumns(items),
+      containerName: storageContainers.name,
     })
     .from(items)
-    .leftJoin(categories, eq(items.categoryId, categories.id));
+    .leftJoin(storageContainers, eq(items.containerId, storageContainers.id))
+    .where(and(
+      isNull(items.deletedAt),
+      or(
+        inArray(items.id, Array.from(rankById.keys())),
+        rankByPart.size > 0 ? inArray(items.partId, Array.from(rankByPart.keys())) : undefined,
+      ),
+    ))
+    .orderBy(asc(items.id));
+    // The sort is stable, so equally relevant items stay in id order
+    result.sort((a, b) => rankOf(b) - rankOf(a));
 
-    return result.map(row => ({
-      id: row.id,
-      name: row.name,
-      categoryId: row.categoryId,
-      size: row.size,
-      quantity: row.quantity,
-      information: row.information,
-      photo: row.photo,
+    const containersById = new Map(
+      (await this.getStorageContainers()).map(c => [c.id, c])
+    );
+
+    return await withTags(await withCategories(result.map(({ containerName, ...row }) => ({
+      ...row,
+      containerName: containerName || '',
+      locationPath: buildLocationPath(containersById, row.containerId, row.position),
+      rank: rankOf(row),
+    }))));
+  }
+
+  // Re-reads the values of every item, or those in one category after its attributes changed
+  async refreshEngineeringValues(categoryId?: number): Promise<number> {
+    const [rows, allCategories] = await Promise.all([
+      db.select().from(items).where(categoryId ? eq(items.categoryId, categoryId) : undefined),
+      db.select().from(categories),
+    ]);
+    const categoriesById = new Map(allCategories.map(c => [c.id, c]));
+
+    let refreshed = 0;
+    for (const row of rows) {
+      const category = row.categoryId ? categoriesById.get(row.categoryId) : undefined;
+      const values = extractEngineeringValues(row.name, row.attributes, category?.attributes);
+      const changed = (Object.keys(values) as EngineeringColumn[]).some(column => values[column] !== row[column]);
+      if (changed) {
+        await db.update(items).set(values).where(eq(items.id, row.id));
+        refreshed++;
+      }
+    }
+    return refreshed;
+  }
+
+  // Photos any item refers to, trashed items included so restoring them keeps their photo
+  async getItemPhotos(): Promise<string[]> {
+    const rows = await db
+      .selectDistinct({ photo: items.photo })
+      .from(items)
+      .where(isNotNull(items.photo));
+    return rows.map(row => row.photo!);
+  }
+
+  // Tags with how many items outside the trash carry them
+  async getTags(): Promise<TagWithCount[]> {
+    return await db
+      .select({ ...getTableColumns(tags), itemCount: count(items.id) })
+      .from(tags)
+      .leftJoin(itemTags, eq(itemTags.tagId, tags.id))
+      .leftJoin(items, and(eq(itemTags.itemId, items.id), isNull(items.deletedAt)))
+      .groupBy(tags.id)
+      .orderBy(asc(tags.name));
+  }
+
+  // Quantity times unit price, summed per container (items directly inside it) and per category
+  async getValuationReport(defaultCurrency: string): Promise<ValuationReport> {
+    const [allItems, allContainers, allCategories] = await Promise.all([
+      this.getItems(),
+      this.getStorageContainers(),
+      this.getCategories(),
+    ]);
+
+    const addTo = (totals: Record<string, number>, currency: string, value: number) => {
+      totals[currency] = (totals[currency] || 0) + value;
+    };
+
+    const totals: Record<string, number> = {};
+    const containerGroups = new Map<number, ValuationGroup>(
+      allContainers.map(c => [c.id, { id: c.id, name: c.name, itemCount: 0, unpricedCount: 0, totals: {} }])
+    );
+    const categoryGroups = new Map<number | null, ValuationGroup>(
+      allCategories.map(c => [c.id, { id: c.id, name: c.path, itemCount: 0, unpricedCount: 0, totals: {} }])
+    );
+    categoryGroups.set(null, { id: null, name: "Uncategorized", itemCount: 0, unpricedCount: 0, totals: {} });
+
+    for (const item of allItems) {
+      const groups = [containerGroups.get(item.containerId), categoryGroups.get(item.categoryId)];
+      const currency = item.currency || defaultCurrency;
+      const value = item.unitPrice !== null ? item.unitPrice * (item.quantity || 0) : null;
+
+      if (value !== null) addTo(totals, currency, value);
+      for (const group of groups) {
+        if (!group) continue;
+        group.itemCount++;
+        if (value === null) {
+          group.unpricedCount++;
+        } else {
+          addTo(group.totals, currency, value);
+        }
+      }
+    }
+
+    const byName = (a: ValuationGroup, b: ValuationGroup) => a.name.localeCompare(b.name);
+    return {
+      defaultCurrency,
+      totals,
+      containers: Array.from(containerGroups.values()).filter(g => g.itemCount > 0).sort(byName),
+      categories: Array.from(categoryGroups.values()).filter(g => g.itemCount > 0).sort(byName),
+    };
+  }
+
+  // Items of a part count as one entry, compared by the part's total
+  async getLowStockReport(defaultCurrency: string): Promise<LowStockEntry[]> {
+    const [allItems, allParts, allUnits, allSuppliers, allContainers] = await Promise.all([
+      this.getItems(),
+      this.getParts(),
+      this.getUnits(),
+      this.getSuppliers(),
+      this.getStorageContainers(),
+    ]);
+    const unitsById = new Map(allUnits.map(u => [u.id, u]));
+    const suppliersById = new Map(allSuppliers.map(s => [s.id, s]));
+    const containersById = new Map(allContainers.map(c => [c.id, c]));
+
+    const toEntry = (
+      item: ItemWithCategory,
+      quantity: number,
+      threshold: number,
+      locations: string[],
+      partId: number | null,
+      name: string,
+    ): LowStockEntry => {
+      const unit = item.unitId ? unitsById.get(item.unitId) : undefined;
+      return {
+        itemId: partId ? null : item.id,
+        partId,
+        name,
+        categoryPath: item.category?.path ?? null,
+        supplierId: item.supplierId,
+        supplierName: item.supplierId ? suppliersById.get(item.supplierId)?.name ?? null : null,
+        supplierSku: item.supplierSku,
+        manufacturerPartNumber: item.manufacturerPartNumber,
+        purchaseUrl: item.purchaseUrl,
+        unitPrice: item.unitPrice,
+        currency: item.unitPrice !== null ? item.currency || defaultCurrency : item.currency,
+        unit: unit ?? null,
+        quantity: roundQuantity(quantity, unit),
+        threshold,
+        suggestedQuantity: suggestedReorderQuantity(quantity, threshold, unit),
+        locations,
+      };
+    };
+
+    const entries: LowStockEntry[] = [];
+    for (const item of allItems) {
+      if (item.partId || !isLowQuantity(item, item.unitId ? unitsById.get(item.unitId) : undefined)) continue;
+      const location = buildLocationPath(containersById, item.containerId, item.position);
+      entries.push(toEntry(item, item.quantity || 0, item.lowQuantityThreshold!, [location], null, item.name));
+    }
+    for (const part of allParts) {
+      const partItems = allItems.filter(item => item.partId === part.id);
+      const unit = part.unitId ? unitsById.get(part.unitId) : undefined;
+      const low = isLowQuantity({ quantity: part.totalQuantity, lowQuantityThreshold: part.lowQuantityThreshold }, unit);
+      if (partItems.length === 0 || !low) continue;
+      // Ordering details come from the first location that has a supplier
+      const source = partItems.find(item => item.supplierId) ?? partItems[0];
+      const locations = part.locations.map(location => location.locationPath);
+      entries.push(toEntry(source, part.totalQuantity, part.lowQuantityThreshold!, locations, part.id, part.name));
+    }
+
+    return entries.sort((a, b) =>
+      (a.categoryPath ?? "").localeCompare(b.categoryPath ?? "") ||
+      (a.supplierName ?? "").localeCompare(b.supplierName ?? "") ||
+      a.name.localeCompare(b.name)
+    );
+  }
+
+  async adjustItemQuantity(id: number, adjustment: ItemAdjustment, actor?: AuditActor): Promise<{ item: Item; transaction: ItemTransaction } | undefined> {
+    return await db.transaction(async (tx) => {
+      const [existing] = await tx
+        .select({ unit: units })
+        .from(items)
+        .leftJoin(units, eq(items.unitId, units.id))
+        .where(and(eq(items.id, id), isNull(items.deletedAt)));
+      if (!existing) return undefined;
+
+      // Rounded in the database too, so repeated decimal adjustments don't drift
+      const precision = existing.unit?.precision ?? 0;
+      const [item] = await tx
+        .update(items)
+        .set({ quantity: sql`ROUND((COALESCE(${items.quantity}, 0) + ${adjustment.delta})::numeric, ${precision})::double precision` })
+        .where(eq(items.id, id))
+        .returning();
+
+      const [transaction] = await tx
+        .insert(itemTransactions)
+        .values({
+          itemId: id,
+          delta: adjustment.delta,
+          quantityAfter: item.quantity || 0,
+          reason: adjustment.reason,
+          actor: actor?.username ?? null,
+          note: adjustment.note || null,
+        })
+        .returning();
+      await recordAudit(
+        tx,
+        actor,
+        "item",
+        id,
+        { quantity: roundQuantity((item.quantity || 0) - adjustment.delta, existing.unit) },
+        { quantity: item.quantity },
+      );
+
+      if (adjustment.lot) {
+        const [lot] = await tx
+          .insert(itemLots)
+          .values({ ...adjustment.lot, itemId: id, quantity: adjustment.delta })
+          .returning();
+        await recordAudit(tx, actor, "lot", lot.id, null, lot);
+      } else if (adjustment.delta < 0) {
+        const shortfall = await loanShortfall(tx, item);
+        if (shortfall) throw new StockError(shortfall);
+        await fitLotsToQuantity(tx, actor, id);
+      }
+      return { item, transaction };
+    });
+  }
+
+  async getItemTransactions(itemId: number): Promise<ItemTransaction[]> {
+    return await db
+      .select()
+      .from(itemTransactions)
+      .where(eq(itemTransactions.itemId, itemId))
+      .orderBy(desc(itemTransactions.createdAt), desc(itemTransactions.id));
+  }
+
+  async getItemLots(itemId: number): Promise<ItemLot[]> {
+    return await db
+      .select()
+      .from(itemLots)
+      .where(eq(itemLots.itemId, itemId))
+      .orderBy(asc(itemLots.receivedAt), asc(itemLots.id));
+  }
+
+  async getItemLot(id: number): Promise<ItemLot | undefined> {
+    const [lot] = await db.select().from(itemLots).where(eq(itemLots.id, id));
+    return lot || undefined;
+  }
+
+  async createItemLot(itemId: number, lot: InsertItemLot, actor?: AuditActor): Promise<ItemLot> {
+    return await db.transaction(async (tx) => {
+      const [newLot] = await tx.insert(itemLots).values({ ...lot, itemId }).returning();
+      await recordAudit(tx, actor, "lot", newLot.id, null, newLot);
+      return newLot;
+    });
+  }
+
+  async updateItemLot(id: number, lot: Partial<InsertItemLot>, actor?: AuditActor): Promise<ItemLot | undefined> {
+    return await db.transaction(async (tx) => {
+      const [existing] = await tx.select().from(itemLots).where(eq(itemLots.id, id));
+      if (!existing) return undefined;
+
+      const [updated] = await tx
+        .update(itemLots)
+        .set(lot)
+        .where(eq(itemLots.id, id))
+        .returning();
+      await recordAudit(tx, actor, "lot", id, existing, updated);
+      return updated;
+    });
+  }
+
+  async deleteItemLot(id: number, actor?: AuditActor): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      const [deleted] = await tx.delete(itemLots).where(eq(itemLots.id, id)).returning();
+      if (!deleted) return false;
+      await recordAudit(tx, actor, "lot", id, deleted, null);
+      return true;
+    });
+  }
+
+  async getExpiringLots(before: Date): Promise<ExpiringLot[]> {
+    const [rows, allContainers] = await Promise.all([
+      db.select({
+        lot: itemLots,
+        itemName: items.name,
+        unitId: items.unitId,
+        containerId: items.containerId,
+        position: items.position,
+      })
+      .from(itemLots)
+      .innerJoin(items, eq(itemLots.itemId, items.id))
+      .where(and(isNull(items.deletedAt), lte(itemLots.expiresAt, before)))
+      .orderBy(asc(itemLots.expiresAt), asc(items.name)),
+      this.getStorageContainers(),
+    ]);
+    const containersById = new Map(allContainers.map(c => [c.id, c]));
+
+    return rows.map(row => ({
+      ...row.lot,
+      itemName: row.itemName,
+      unitId: row.unitId,
       containerId: row.containerId,
-      position: row.position,
-      lowQuantityThreshold: row.lowQuantityThreshold,
-      checkedOutTo: row.checkedOutTo,
-      checkedOutAt: row.checkedOutAt,
-      category: (row.category?.id !== null && row.category?.id !== undefined) ? row.category : undefined,
+      locationPath: buildLocationPath(containersById, row.containerId, row.position),
     }));
   }
 
-  async getItemsByContainer(containerId: number): Promise<ItemWithCategory[]> {
+  async getItemCheckouts(itemId: number): Promise<Checkout[]> {
+    return await db
+      .select()
+      .from(checkouts)
+      .where(eq(checkouts.itemId, itemId))
+      .orderBy(desc(checkouts.checkedOutAt));
+  }
+
+  async getOutstandingCheckouts(): Promise<CheckoutWithItem[]> {
     const result = await db.select({
-      id: items.id,
-      name: items.name,
-      categoryId: items.categoryId,
-      size: items.size,
-      quantity: items.quantity,
-      information: items.information,
-      photo: items.photo,
+      checkout: checkouts,
+      itemName: items.name,
+      unitId: items.unitId,
       containerId: items.containerId,
-      position: items.position,
-      lowQuantityThreshold: items.lowQuantityThreshold,
-      checkedOutTo: items.checkedOutTo,
-      checkedOutAt: items.checkedOutAt,
-      category: {
-        id: categories.id,
-        name: categories.name,
-        color: categories.color,
-        icon: categories.icon,
-      },
+      containerName: storageContainers.name,
     })
-    .from(items)
-    .leftJoin(categories, eq(items.categoryId, categories.id))
-    .where(eq(items.containerId, containerId));
+    .from(checkouts)
+    .innerJoin(items, eq(checkouts.itemId, items.id))
+    .leftJoin(storageContainers, eq(items.containerId, storageContainers.id))
+    .where(and(isNull(checkouts.returnedAt), isNull(items.deletedAt)))
+    .orderBy(asc(checkouts.borrower), asc(checkouts.dueAt));
 
     return result.map(row => ({
-      id: row.id,
-      name: row.name,
-      categoryId: row.categoryId,
-      size: row.size,
-      quantity: row.quantity,
-      information: row.information,
-      photo: row.photo,
+      ...row.checkout,
+      itemName: row.itemName,
+      unitId: row.unitId,
       containerId: row.containerId,
-      position: row.position,
-      lowQuantityThreshold: row.lowQuantityThreshold,
-      checkedOutTo: row.checkedOutTo,
-      checkedOutAt: row.checkedOutAt,
-      category: (row.category?.id !== null && row.category?.id !== undefined) ? row.category : undefined,
+      containerName: row.containerName || '',
     }));
   }
 
-  async getItem(id: number): Promise<ItemWithCategory | undefined> {
+  async getCheckout(id: number): Promise<Checkout | undefined> {
+    const [checkout] = await db.select().from(checkouts).where(eq(checkouts.id, id));
+    return checkout || undefined;
+  }
+
+  async checkoutItem(itemId: number, request: CheckoutRequest, actor?: AuditActor): Promise<Checkout | undefined> {
+    return await db.transaction(async (tx) => {
+      // Locked so two checkouts, or a checkout and a quantity edit, can't both count the same stock
+      const [existing] = await tx
+        .select({ item: items, unit: units })
+        .from(items)
+        .leftJoin(units, eq(items.unitId, units.id))
+        .where(and(eq(items.id, itemId), isNull(items.deletedAt)))
+        .for("update", { of: items });
+      if (!existing) return undefined;
+
+      const outstanding = await tx
+        .select({ quantity: checkouts.quantity })
+        .from(checkouts)
+        .where(and(eq(checkouts.itemId, itemId), isNull(checkouts.returnedAt)));
+      const available = roundQuantity(
+        (existing.item.quantity || 0) - outstanding.reduce((sum, c) => sum + c.quantity, 0),
+        existing.unit,
+      );
+      if (request.quantity > available) {
+        throw new StockError(`Only ${formatQuantity(available, existing.unit)} available to check out`);
+      }
+
+      const [checkout] = await tx
+        .insert(checkouts)
+        .values({
+          itemId,
+          borrower: request.borrower,
+          quantity: request.quantity,
+          dueAt: request.dueAt || null,
+        })
+        .returning();
+      await recordAudit(tx, actor, "checkout", checkout.id, null, checkout);
+      await syncCheckoutSummary(tx, itemId);
+      return checkout;
+    });
+  }
+
+  async returnCheckouts(itemId: number, request: ReturnRequest, actor?: AuditActor): Promise<Checkout[]> {
+    return await db.transaction(async (tx) => {
+      const open = await tx
+        .select()
+        .from(checkouts)
+        .where(and(
+          eq(checkouts.itemId, itemId),
+          isNull(checkouts.returnedAt),
+          request.checkoutId !== undefined ? eq(checkouts.id, request.checkoutId) : undefined,
+        ));
+      if (open.length === 0) return [];
+
+      const returned = await tx
+        .update(checkouts)
+        .set({ returnedAt: new Date(), conditionNote: request.conditionNote || null })
+        .where(inArray(checkouts.id, open.map(c => c.id)))
+        .returning();
+      for (const checkout of returned) {
+        await recordAudit(tx, actor, "checkout", checkout.id, open.find(c => c.id === checkout.id)!, checkout);
+      }
+      await syncCheckoutSummary(tx, itemId);
+      return returned;
+    });
+  }
+
+  async getItemAttachments(itemId: number): Promise<Attachment[]> {
+    return await db
+      .select()
+      .from(attachments)
+      .where(eq(attachments.itemId, itemId))
+      .orderBy(asc(attachments.fileName));
+  }
+
+  async getAttachment(id: number): Promise<Attachment | undefined> {
+    const [attachment] = await db.select().from(attachments).where(eq(attachments.id, id));
+    return attachment || undefined;
+  }
+
+  async createAttachment(attachment: InsertAttachment): Promise<Attachment> {
+    const [newAttachment] = await db.insert(attachments).values(attachment).returning();
+    return newAttachment;
+  }
+
+  // Returns the deleted attachment so its file can be removed
+  async deleteAttachment(id: number): Promise<Attachment | undefined> {
+    const [deleted] = await db.delete(attachments).where(eq(attachments.id, id)).returning();
+    return deleted || undefined;
+  }
+
+  async getAttachmentStoredNames(): Promise<string[]> {
+    const rows = await db.select({ storedName: attachments.storedName }).from(attachments);
+    return rows.map(row => row.storedName);
+  }
+
+  async getTrash(): Promise<{ containers: TrashedContainer[]; items: TrashedItem[] }> {
+    const trashedContainers = await db
+      .select()
+      .from(storageContainers)
+      .where(isNotNull(storageContainers.deletedAt))
+      .orderBy(desc(storageContainers.deletedAt));
+
     const result = await db.select({
-      id: items.id,
-      name: items.name,
-      categoryId: items.categoryId,
-      size: items.size,
-      quantity: items.quantity,
-      information: items.information,
-      photo: items.photo,
-      containerId: items.containerId,
-      position: items.position,
-      lowQuantityThreshold: items.lowQuantityThreshold,
-      checkedOutTo: items.checkedOutTo,
-      checkedOutAt: items.checkedOutAt,
-      category: {
-        id: categories.id,
-        name: categories.name,
-        color: categories.color,
-        icon: categories.icon,
-      },
+      item: items,
+      containerName: storageContainers.name,
+      containerDeletedAt: storageContainers.deletedAt,
     })
     .from(items)
-    .leftJoin(categories, eq(items.categoryId, categories.id))
-    .where(eq(items.id, id));
+    .leftJoin(storageContainers, eq(items.containerId, storageContainers.id))
+    .where(isNotNull(items.deletedAt))
+    .orderBy(desc(items.deletedAt));
 
-    const [row] = result;
-    if (!row) return undefined;
+    // Items trashed along with their container are listed under the container
+    const trashedWithContainer = (row: typeof result[number]) =>
+      row.containerDeletedAt?.getTime() === row.item.deletedAt?.getTime();
 
     return {
-      id: row.id,
-      name: row.name,
-      categoryId: row.categoryId,
-      size: row.size,
-      quantity: row.quantity,
-      information: row.information,
-      photo: row.photo,
-      containerId: row.containerId,
-      position: row.position,
-      lowQuantityThreshold: row.lowQuantityThreshold,
-      checkedOutTo: row.checkedOutTo,
-      checkedOutAt: row.checkedOutAt,
-      category: (row.category?.id !== null && row.category?.id !== undefined) ? row.category : undefined,
+      containers: trashedContainers.map(container => ({
+        ...container,
+        itemCount: result.filter(row => row.item.containerId === container.id && trashedWithContainer(row)).length,
+      })),
+      items: await withCategories(result
+        .filter(row => !trashedWithContainer(row))
+        .map(row => ({
+          ...row.item,
+          containerName: row.containerName || '',
+        }))),
     };
   }
 
-  async createItem(item: InsertItem): Promise<Item> {
-    const [newItem] = await db
-      .insert(items)
-      .values(item)
+  async getTrashedItem(id: number): Promise<Item | undefined> {
+    const [item] = await db.select().from(items).where(and(eq(items.id, id), isNotNull(items.deletedAt)));
+    return item || undefined;
+  }
+
+  async getTrashedContainer(id: number): Promise<StorageContainer | undefined> {
+    const [container] = await db
+      .select()
+      .from(storageContainers)
+      .where(and(eq(storageContainers.id, id), isNotNull(storageContainers.deletedAt)));
+    return container || undefined;
+  }
+
+  async restoreItem(id: number, actor?: AuditActor): Promise<Item | undefined> {
+    return await db.transaction(async (tx) => {
+      const [trashed] = await tx.select().from(items).where(and(eq(items.id, id), isNotNull(items.deletedAt)));
+      if (!trashed) return undefined;
+
+      const [restored] = await tx
+        .update(items)
+        .set({ deletedAt: null })
+        .where(eq(items.id, id))
+        .returning();
+      await recordAudit(tx, actor, "item", id, trashed, restored, "restore");
+      return restored;
+    });
+  }
+
+  async restoreStorageContainer(id: number, actor?: AuditActor): Promise<StorageContainer | undefined> {
+    return await db.transaction(async (tx) => {
+      const [trashed] = await tx
+        .select()
+        .from(storageContainers)
+        .where(and(eq(storageContainers.id, id), isNotNull(storageContainers.deletedAt)));
+      if (!trashed) return undefined;
+
+      // Comes back as a top-level container if its old cell is gone or taken
+      let detach = false;
+      if (trashed.parentContainerId && trashed.parentPosition) {
+        const { row, column } = trashed.parentPosition;
+        const [parent] = await tx
+          .select({ id: storageContainers.id })
+          .from(storageContainers)
+          .where(and(eq(storageContainers.id, trashed.parentContainerId), isNull(storageContainers.deletedAt)));
+        const [occupyingContainer] = await tx
+          .select({ id: storageContainers.id })
+          .from(storageContainers)
+          .where(and(
+            eq(storageContainers.parentContainerId, trashed.parentContainerId),
+            ne(storageContainers.id, id),
+            isNull(storageContainers.deletedAt),
+            sql`${storageContainers.parentPosition}->>'row' = ${row.toString()}`,
+            sql`${storageContainers.parentPosition}->>'column' = ${column.toString()}`,
+          ));
+        const [occupyingItem] = await tx
+          .select({ id: items.id })
+          .from(items)
+          .where(and(
+            eq(items.containerId, trashed.parentContainerId),
+            isNull(items.deletedAt),
+            sql`(${items.position}->>'row')::int <= ${row}`,
+            sql`(${items.position}->>'row')::int + ${items.rowSpan} > ${row}`,
+            sql`(${items.position}->>'column')::int <= ${column}`,
+            sql`(${items.position}->>'column')::int + ${items.columnSpan} > ${column}`,
+          ));
+        detach = !parent || !!occupyingContainer || !!occupyingItem;
+      }
+
+      const [restored] = await tx
+        .update(storageContainers)
+        .set(detach ? { deletedAt: null, parentContainerId: null, parentPosition: null } : { deletedAt: null })
+        .where(eq(storageContainers.id, id))
+        .returning();
+      await recordAudit(tx, actor, "container", id, trashed, restored, "restore");
+
+      // Bring back the items that were trashed along with it
+      const trashedItems = await tx
+        .select()
+        .from(items)
+        .where(and(eq(items.containerId, id), eq(items.deletedAt, trashed.deletedAt!)));
+      for (const item of trashedItems) {
+        const [restoredItem] = await tx
+          .update(items)
+          .set({ deletedAt: null })
+          .where(eq(items.id, item.id))
+          .returning();
+        await recordAudit(tx, actor, "item", item.id, item, restoredItem, "restore");
+      }
+
+      return restored;
+    });
+  }
+
+  async purgeItem(id: number, actor?: AuditActor): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      const [trashed] = await tx.select().from(items).where(and(eq(items.id, id), isNotNull(items.deletedAt)));
+      if (!trashed) return false;
+
+      await tx.delete(itemTransactions).where(eq(itemTransactions.itemId, id));
+      await tx.delete(itemLots).where(eq(itemLots.itemId, id));
+      await tx.delete(checkouts).where(eq(checkouts.itemId, id));
+      await tx.delete(attachments).where(eq(attachments.itemId, id));
+      await tx.delete(itemTags).where(eq(itemTags.itemId, id));
+      await tx.delete(items).where(eq(items.id, id));
+      await removeUnusedTags(tx);
+      await recordAudit(tx, actor, "item", id, trashed, null, "purge");
+      return true;
+    });
+  }
+
+  async purgeStorageContainer(id: number, actor?: AuditActor): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      const [trashed] = await tx
+        .select()
+        .from(storageContainers)
+        .where(and(eq(storageContainers.id, id), isNotNull(storageContainers.deletedAt)));
+      if (!trashed) return false;
+
+      // Every item still pointing at the container has to go with it
+      const containerItems = await tx.select().from(items).where(eq(items.containerId, id));
+      const containerItemIds = containerItems.map(item => item.id);
+      if (containerItemIds.length > 0) {
+        await tx.delete(itemTransactions).where(inArray(itemTransactions.itemId, containerItemIds));
+        await tx.delete(itemLots).where(inArray(itemLots.itemId, containerItemIds));
+        await tx.delete(checkouts).where(inArray(checkouts.itemId, containerItemIds));
+        await tx.delete(attachments).where(inArray(attachments.itemId, containerItemIds));
+        await tx.delete(itemTags).where(inArray(itemTags.itemId, containerItemIds));
+        await tx.delete(items).where(inArray(items.id, containerItemIds));
+        await removeUnusedTags(tx);
+      }
+      for (const item of containerItems) {
+        await recordAudit(tx, actor, "item", item.id, item, null, "purge");
+      }
+
+      await tx.delete(floorplanPlacements).where(eq(floorplanPlacements.containerId, id));
+      await tx
+        .update(storageContainers)
+        .set({ parentContainerId: null, parentPosition: null })
+        .where(eq(storageContainers.parentContainerId, id));
+      await tx.delete(storageContainers).where(eq(storageContainers.id, id));
+      await recordAudit(tx, actor, "container", id, trashed, null, "purge");
+      return true;
+    });
+  }
+
+  async purgeTrash(deletedBefore: Date, actor?: AuditActor): Promise<number> {
+    const expiredContainers = await db
+      .select({ id: storageContainers.id })
+      .from(storageContainers)
+      .where(lte(storageContainers.deletedAt, deletedBefore));
+    const expiredItems = await db
+      .select({ id: items.id })
+      .from(items)
+      .where(lte(items.deletedAt, deletedBefore));
+
+    let purged = 0;
+    for (const container of expiredContainers) {
+      if (await this.purgeStorageContainer(container.id, actor)) purged++;
+    }
+    for (const item of expiredItems) {
+      if (await this.purgeItem(item.id, actor)) purged++;
+    }
+    return purged;
+  }
+
+  async getAuditEvents(query: AuditQuery): Promise<AuditEvent[]> {
+    return await db
+      .select()
+      .from(auditEvents)
+      .where(and(
+        query.entityType ? eq(auditEvents.entityType, query.entityType) : undefined,
+        query.entityId !== undefined ? eq(auditEvents.entityId, query.entityId) : undefined,
+        query.action ? eq(auditEvents.action, query.action) : undefined,
+        query.username ? eq(auditEvents.username, query.username) : undefined,
+        query.changeSet ? eq(auditEvents.changeSet, query.changeSet) : undefined,
+      ))
+      .orderBy(desc(auditEvents.createdAt), desc(auditEvents.id))
+      .limit(query.limit);
+  }
+
+  // Applies the inverse of every event in a change set, newest first, recording the
+  // inverse under actor.changeSet so it can itself be reverted (which is how redo works).
+  // Returns how many events were reverted.
+  async revertChangeSet(changeSet: string, actor: AuditActor): Promise<number> {
+    return await db.transaction(async (tx) => {
+      const events = await tx
+        .select()
+        .from(auditEvents)
+        .where(eq(auditEvents.changeSet, changeSet))
+        .orderBy(desc(auditEvents.id));
+
+      const touchedItemIds = new Set<number>();
+      const loanedItemIds = new Set<number>();
+
+      for (const event of events) {
+        const table = auditTables[event.entityType] as typeof items;
+        // Items and containers are deleted by moving them to the trash
+        const trashable = event.entityType === "item" || event.entityType === "container";
+        if (event.entityType === "item") touchedItemIds.add(event.entityId);
+        if (event.entityType === "checkout") {
+          const [checkout] = await tx.select({ itemId: checkouts.itemId }).from(checkouts).where(eq(checkouts.id, event.entityId));
+          if (checkout) loanedItemIds.add(checkout.itemId);
+        }
+        const [row] = await tx.select().from(table).where(eq(table.id, event.entityId));
+        // Item snapshots carry the item's tag names alongside its columns
+        const currentTags = row && event.entityType === "item" ? await itemTagNames(tx, event.entityId) : undefined;
+        const current = row && currentTags ? { ...row, tags: currentTags } : row;
+
+        if (event.action === "purge") {
+          throw new UndoConflictError("It has been permanently deleted");
+        } else if (event.action === "create" || event.action === "restore") {
+          if (!current || (trashable && current.deletedAt)) continue;
+          if (!matchesSnapshot(current, event.after || {})) {
+            throw new UndoConflictError("It has been changed since");
+          }
+          if (event.entityType === "container") {
+            const [containedItem] = await tx
+              .select({ id: items.id })
+              .from(items)
+              .where(and(eq(items.containerId, event.entityId), isNull(items.deletedAt)));
+            if (containedItem) throw new UndoConflictError("The container is no longer empty");
+          }
+          if (event.entityType === "item" && await itemOnLoan(tx, eq(items.id, event.entityId))) {
+            throw new UndoConflictError("It is checked out");
+          }
+          if (event.entityType === "category") {
+            const [categorisedItem] = await tx.select({ id: items.id }).from(items).where(eq(items.categoryId, event.entityId));
+            if (categorisedItem) throw new UndoConflictError("The category is in use");
+            const [subcategory] = await tx.select({ id: categories.id }).from(categories).where(eq(categories.parentId, event.entityId));
+            if (subcategory) throw new UndoConflictError("The category has subcategories");
+          }
+          if (event.entityType === "supplier") {
+            const [suppliedItem] = await tx.select({ id: items.id }).from(items).where(eq(items.supplierId, event.entityId));
+            if (suppliedItem) throw new UndoConflictError("The supplier is in use");
+          }
+          if (event.entityType === "unit") {
+            const [measuredItem] = await tx.select({ id: items.id }).from(items).where(eq(items.unitId, event.entityId));
+            if (measuredItem) throw new UndoConflictError("The unit is in use");
+          }
+          if (event.entityType === "part") {
+            const [stockingItem] = await tx.select({ id: items.id }).from(items).where(eq(items.partId, event.entityId));
+            if (stockingItem) throw new UndoConflictError("The part is in use");
+          }
+          if (trashable) {
+            // A restore goes back to the trash as it was, original timestamp included
+            const trashedValues = event.action === "restore"
+              ? reviveSnapshot(event.entityType, event.before || {})
+              : { deletedAt: new Date() };
+            await tx.update(table).set(trashedValues).where(eq(table.id, event.entityId));
+          } else {
+            await tx.delete(table).where(eq(table.id, event.entityId));
+          }
+          await recordAudit(tx, actor, event.entityType, event.entityId, current, null);
+        } else if (event.action === "delete") {
+          if (trashable) {
+            if (!current) throw new UndoConflictError("It has been permanently deleted");
+            if (!current.deletedAt) continue;
+            const [restored] = await tx
+              .update(table)
+              .set({ deletedAt: null })
+              .where(eq(table.id, event.entityId))
+              .returning();
+            await recordAudit(tx, actor, event.entityType, event.entityId, current, restored, "restore");
+          } else {
+            if (current) throw new UndoConflictError("It already exists");
+            const restored = reviveSnapshot(event.entityType, event.before || {}) as Item;
+            const [inserted] = await tx.insert(table).values(restored).returning();
+            await recordAudit(tx, actor, event.entityType, event.entityId, null, inserted);
+          }
+        } else {
+          if (!current || (trashable && current.deletedAt)) {
+            throw new UndoConflictError("It has been deleted since");
+          }
+          if (!matchesSnapshot(current, event.after || {})) {
+            throw new UndoConflictError("It has been changed since");
+          }
+          const { tags: previousTags, ...previous } = reviveSnapshot(event.entityType, event.before || {}) as Partial<Item> & { tags?: string[] };
+          // A change that only touched the tags leaves the columns as they are
+          const [updatedRow] = Object.keys(previous).length > 0
+            ? await tx.update(table).set(previous).where(eq(table.id, event.entityId)).returning()
+            : [row];
+          const updated = event.entityType === "item"
+            ? { ...updatedRow, tags: previousTags ? await setItemTags(tx, event.entityId, previousTags) : currentTags }
+            : updatedRow;
+          const quantityDelta = roundQuantity((updated.quantity || 0) - (current.quantity || 0), { precision: MAX_UNIT_PRECISION });
+          if (event.entityType === "item" && quantityDelta !== 0) {
+            await tx.insert(itemTransactions).values({
+              itemId: event.entityId,
+              delta: quantityDelta,
+              quantityAfter: updated.quantity || 0,
+              reason: "correction",
+              actor: actor.username,
+              note: "Undone",
+            });
+          }
+          await recordAudit(tx, actor, event.entityType, event.entityId, current, updated);
+        }
+      }
+
+      // The checkout summary follows the item's loans as they are now
+      for (const itemId of Array.from(loanedItemIds)) {
+        await syncCheckoutSummary(tx, itemId);
+      }
+
+      // Items can share a cell with each other unless one of them spans several cells,
+      // and never with a nested container, and keep at least what is out on loan
+      for (const itemId of Array.from(new Set([...Array.from(touchedItemIds), ...Array.from(loanedItemIds)]))) {
+        const [item] = await tx.select().from(items).where(and(eq(items.id, itemId), isNull(items.deletedAt)));
+        if (!item) continue;
+        const shortfall = await loanShortfall(tx, item);
+        if (shortfall) throw new UndoConflictError(shortfall);
+        const children = await tx
+          .select({ parentPosition: storageContainers.parentPosition })
+          .from(storageContainers)
+          .where(and(eq(storageContainers.parentContainerId, item.containerId), isNull(storageContainers.deletedAt)));
+        if (children.some(child => child.parentPosition && coversCell(item, child.parentPosition))) {
+          throw new UndoConflictError("A cell it needs holds a container now");
+        }
+        const neighbours = await tx
+          .select()
+          .from(items)
+          .where(and(eq(items.containerId, item.containerId), ne(items.id, item.id), isNull(items.deletedAt)));
+        if (neighbours.some(neighbour => footprintsConflict(item, neighbour))) {
+          throw new UndoConflictError("A cell it needs is occupied now");
+        }
+      }
+
+      return events.length;
+    });
+  }
+
+  async getNotificationPreferences(userId: number): Promise<NotificationPreferences | undefined> {
+    const [preferences] = await db
+      .select()
+      .from(notificationPreferences)
+      .where(eq(notificationPreferences.userId, userId));
+    return preferences || undefined;
+  }
+
+  async getAllNotificationPreferences(): Promise<NotificationPreferences[]> {
+    return await db.select().from(notificationPreferences);
+  }
+
+  async saveNotificationPreferences(userId: number, preferences: InsertNotificationPreferences): Promise<NotificationPreferences> {
+    const [saved] = await db
+      .insert(notificationPreferences)
+      .values({ ...preferences, userId })
+      .onConflictDoUpdate({ target: notificationPreferences.userId, set: preferences })
       .returning();
-    return newItem;
+    return saved;
+  }
+
+  async getNotifications(userId: number, limit: number): Promise<UserNotification[]> {
+    return await db
+      .select()
+      .from(notifications)
+      .where(eq(notifications.userId, userId))
+      .orderBy(desc(notifications.createdAt), desc(notifications.id))
+      .limit(limit);
+  }
+
+  async createNotification(notification: InsertUserNotification): Promise<UserNotification> {
+    const [created] = await db.insert(notifications).values(notification).returning();
+    return created;
+  }
+
+  async markNotificationsRead(userId: number, ids?: number[]): Promise<void> {
+    await db
+      .update(notifications)
+      .set({ readAt: new Date() })
+      .where(and(
+        eq(notifications.userId, userId),
+        isNull(notifications.readAt),
+        ids ? inArray(notifications.id, ids) : undefined,
+      ));
+  }
+
+  async getNotificationAlertKeys(userId: number): Promise<string[]> {
+    const rows = await db
+      .select({ key: notificationAlerts.key })
+      .from(notificationAlerts)
+      .where(eq(notificationAlerts.userId, userId));
+    return rows.map(row => row.key);
+  }
+
+  async addNotificationAlert(userId: number, key: string): Promise<void> {
+    await db.insert(notificationAlerts).values({ userId, key }).onConflictDoNothing();
+  }
+
+  async clearNotificationAlerts(userId: number, keys: string[]): Promise<void> {
+    if (keys.length === 0) return;
+    await db
+      .delete(notificationAlerts)
+      .where(and(eq(notificationAlerts.userId, userId), inArray(notificationAlerts.key, keys)));
+  }
+
+  async getWebhooks(): Promise<Webhook[]> {
+    return await db.select().from(webhooks).orderBy(asc(webhooks.id));
+  }
+
+  async getWebhook(id: number): Promise<Webhook | undefined> {
+    const [webhook] = await db.select().from(webhooks).where(eq(webhooks.id, id));
+    return webhook || undefined;
+  }
+
+  async createWebhook(webhook: InsertWebhook & { secret: string }): Promise<Webhook> {
+    const [newWebhook] = await db.insert(webhooks).values(webhook).returning();
+    return newWebhook;
   }
 
-  async updateItem(id: number, item: Partial<InsertItem>): Promise<Item | undefined> {
+  async updateWebhook(id: number, webhook: Partial<InsertWebhook>): Promise<Webhook | undefined> {
+    const [updated] = await db.update(webhooks).set(webhook).where(eq(webhooks.id, id)).returning();
+    return updated || undefined;
+  }
+
+  async deleteWebhook(id: number): Promise<boolean> {
+    const deleted = await db.delete(webhooks).where(eq(webhooks.id, id)).returning();
+    return deleted.length > 0;
+  }
+
+  async createWebhookDeliveries(deliveries: InsertWebhookDelivery[]): Promise<WebhookDelivery[]> {
+    if (deliveries.length === 0) return [];
+    return await db.insert(webhookDeliveries).values(deliveries).returning();
+  }
+
+  async getDueWebhookDeliveries(now: Date): Promise<WebhookDelivery[]> {
+    return await db
+      .select()
+      .from(webhookDeliveries)
+      .where(and(eq(webhookDeliveries.status, "pending"), lte(webhookDeliveries.nextAttemptAt, now)))
+      .orderBy(asc(webhookDeliveries.id));
+  }
+
+  async updateWebhookDelivery(id: number, delivery: Partial<InsertWebhookDelivery>): Promise<WebhookDelivery | undefined> {
     const [updated] = await db
-      .update(items)
-      .set(item)
-      .where(eq(items.id, id))
+      .update(webhookDeliveries)
+      .set(delivery)
+      .where(eq(webhookDeliveries.id, id))
       .returning();
     return updated || undefined;
   }
 
-  async deleteItem(id: number): Promise<boolean> {
-    const result = await db.delete(items).where(eq(items.id, id));
+  async getWebhookDeliveries(limit: number, webhookId?: number): Promise<WebhookDeliveryWithUrl[]> {
+    return await db
+      .select({ ...getTableColumns(webhookDeliveries), url: webhooks.url })
+      .from(webhookDeliveries)
+      .innerJoin(webhooks, eq(webhookDeliveries.webhookId, webhooks.id))
+      .where(webhookId !== undefined ? eq(webhookDeliveries.webhookId, webhookId) : undefined)
+      .orderBy(desc(webhookDeliveries.id))
+      .limit(limit);
+  }
+
+  async getWebhookDelivery(id: number): Promise<WebhookDelivery | undefined> {
+    const [delivery] = await db.select().from(webhookDeliveries).where(eq(webhookDeliveries.id, id));
+    return delivery || undefined;
+  }
+
+  async pruneWebhookDeliveries(before: Date): Promise<number> {
+    const pruned = await db
+      .delete(webhookDeliveries)
+      .where(and(ne(webhookDeliveries.status, "pending"), lte(webhookDeliveries.createdAt, before)))
+      .returning({ id: webhookDeliveries.id });
+    return pruned.length;
+  }
+
+  async getLocations(): Promise<StorageLocation[]> {
+    return await db.select().from(locations).orderBy(asc(locations.sortOrder), asc(locations.name));
+  }
+
+  async getLocation(id: number): Promise<StorageLocation | undefined> {
+    const [location] = await db.select().from(locations).where(eq(locations.id, id));
+    return location || undefined;
+  }
+
+  async createLocation(location: InsertStorageLocation): Promise<StorageLocation> {
+    const [newLocation] = await db
+      .insert(locations)
+      .values(location)
+      .returning();
+    return newLocation;
+  }
+
+  async updateLocation(id: number, location: Partial<InsertStorageLocation>): Promise<StorageLocation | undefined> {
+    const [updated] = await db
+      .update(locations)
+      .set(location)
+      .where(eq(locations.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  async deleteLocation(id: number): Promise<boolean> {
+    // Containers placed in this location become unplaced
+    await db.delete(floorplanPlacements).where(eq(floorplanPlacements.locationId, id));
+
+    const result = await db.delete(locations).where(eq(locations.id, id));
     return (result.rowCount || 0) > 0;
   }
 
-  async getItemByPosition(containerId: number, position: { row: number; column: number }): Promise<Item | undefined> {
-    const [item] = await db
+  async getFloorplanPlacements(locationId?: number): Promise<FloorplanPlacement[]> {
+    // Placements of trashed containers are kept for when they are restored
+    const activeContainerIds = db
+      .select({ id: storageContainers.id })
+      .from(storageContainers)
+      .where(isNull(storageContainers.deletedAt));
+    return await db
       .select()
-      .from(items)
-      .where(
-        and(
-          eq(items.containerId, containerId),
-          sql`${items.position}->>'row' = ${position.row.toString()}`,
-          sql`${items.position}->>'column' = ${position.column.toString()}`
-        )
-      );
-    return item || undefined;
+      .from(floorplanPlacements)
+      .where(and(
+        inArray(floorplanPlacements.containerId, activeContainerIds),
+        locationId !== undefined ? eq(floorplanPlacements.locationId, locationId) : undefined,
+      ));
   }
 
-  async searchItems(query: string, fields: string[] = ['name']): Promise<ItemSearchResult[]> {
-    const lowerQuery = query.toLowerCase();
-    const searchConditions = [];
-    
-    if (fields.includes('name')) {
-      searchConditions.push(sql`LOWER(${items.name}) LIKE ${`%${lowerQuery}%`}`);
-    }
-    if (fields.includes('information')) {
-      searchConditions.push(and(isNotNull(items.information), sql`LOWER(${items.information}) LIKE ${`%${lowerQuery}%`}`));
-    }
-    
-    const result = await db.select({
-      id: items.id,
-      name: items.name,
-      categoryId: items.categoryId,
-      size: items.size,
-      quantity: items.quantity,
-      information: items.information,
-      photo: items.photo,
-      containerId: items.containerId,
-      position: items.position,
-      category: {
-        id: categories.id,
-        name: categories.name,
-        color: categories.color,
-        icon: categories.icon,
-      },
-      containerName: storageContainers.name,
-    })
-    .from(items)
-    .leftJoin(categories, eq(items.categoryId, categories.id))
-    .leftJoin(storageContainers, eq(items.containerId, storageContainers.id))
-    .where(searchConditions.length > 0 ? or(...searchConditions) : sql`1=0`);
+  async saveFloorplanLayout(locationId: number, placements: Omit<InsertFloorplanPlacement, "locationId">[]): Promise<FloorplanPlacement[]> {
+    return await db.transaction(async (tx) => {
+      // Replace the whole layout of this location; a container placed here
+      // is moved out of whichever location it was in before
+      await tx.delete(floorplanPlacements).where(eq(floorplanPlacements.locationId, locationId));
 
-    return result.map(row => ({
-      id: row.id,
-      name: row.name,
-      categoryId: row.categoryId,
-      size: row.size,
-      quantity: row.quantity,
-      information: row.information,
-      photo: row.photo,
-      containerId: row.containerId,
-      position: row.position,
-      containerName: row.containerName || '',
-      category: (row.category?.id !== null && row.category?.id !== undefined) ? row.category : undefined,
-    }));
+      const containerIds = placements.map(p => p.containerId);
+      if (containerIds.length === 0) return [];
+
+      await tx.delete(floorplanPlacements).where(inArray(floorplanPlacements.containerId, containerIds));
+
+      return await tx
+        .insert(floorplanPlacements)
+        .values(placements.map(p => ({ ...p, locationId })))
+        .returning();
+    });
   }
 }
 
@@ -391,6 +2284,17 @@ async function initializeDefaultData() {
         { name: "xl", label: "Extra Large", sortOrder: 5 },
       ]);
     }
+
+    // Check if units already exist; items without a unit are counted in pieces
+    const existingUnits = await db.select().from(units);
+    if (existingUnits.length === 0) {
+      await db.insert(units).values([
+        { name: "Metre", symbol: "m", precision: 2 },
+        { name: "Gram", symbol: "g", precision: 1 },
+        { name: "Kilogram", symbol: "kg", precision: 3 },
+        { name: "Litre", symbol: "l", precision: 3 },
+      ]);
+    }
   } catch (error) {
     console.error("Error initializing default data:", error);
   }
@@ -0,0 +1,111 @@
+import type { Express } from "express";
+import { storage } from "./storage";
+import { requireRole } from "./auth";
+import { changeActor, rememberChange } from "./undo";
+import { validateItemPlacement } from "./placement";
+import { log } from "./vite";
+
+// Deleted items and containers stay restorable for this many days
+const RETENTION_DAYS = parseInt(process.env.TRASH_RETENTION_DAYS || "30");
+const PURGE_INTERVAL = 60 * 60 * 1000;
+
+async function purgeExpiredTrash() {
+  try {
+    const deletedBefore = new Date(Date.now() - RETENTION_DAYS * 24 * 60 * 60 * 1000);
+    const purged = await storage.purgeTrash(deletedBefore);
+    if (purged > 0) {
+      log(`Purged ${purged} entries from the trash`, "trash");
+    }
+  } catch (error) {
+    console.error("Error purging trash:", error);
+  }
+}
+
+export function setupTrash(app: Express) {
+  purgeExpiredTrash();
+  setInterval(purgeExpiredTrash, PURGE_INTERVAL);
+
+  app.get("/api/trash", requireRole("editor"), async (req, res) => {
+    try {
+      const trash = await storage.getTrash();
+      res.json({ retentionDays: RETENTION_DAYS, ...trash });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch trash" });
+    }
+  });
+
+  app.post("/api/trash/items/:id/restore", requireRole("editor"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const trashed = await storage.getTrashedItem(id);
+      if (!trashed) {
+        return res.status(404).json({ message: "Item not found in trash" });
+      }
+      if (!(await storage.getStorageContainer(trashed.containerId))) {
+        return res.status(400).json({ message: "Restore its container first" });
+      }
+      const placementError = await validateItemPlacement(trashed.containerId, trashed, [id]);
+      if (placementError) {
+        return res.status(400).json({ message: placementError });
+      }
+
+      const actor = changeActor(req);
+      const item = await storage.restoreItem(id, actor);
+      rememberChange(req, actor);
+      res.json(item);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to restore item" });
+    }
+  });
+
+  app.post("/api/trash/containers/:id/restore", requireRole("admin"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const actor = changeActor(req);
+      const container = await storage.restoreStorageContainer(id, actor);
+      rememberChange(req, actor);
+      if (!container) {
+        return res.status(404).json({ message: "Container not found in trash" });
+      }
+      res.json(container);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to restore container" });
+    }
+  });
+
+  // Purging is permanent, so it never goes on the undo stack
+  app.delete("/api/trash/items/:id", requireRole("admin"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const success = await storage.purgeItem(id, req.user);
+      if (!success) {
+        return res.status(404).json({ message: "Item not found in trash" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to purge item" });
+    }
+  });
+
+  app.delete("/api/trash/containers/:id", requireRole("admin"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const success = await storage.purgeStorageContainer(id, req.user);
+      if (!success) {
+        return res.status(404).json({ message: "Container not found in trash" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to purge container" });
+    }
+  });
+
+  app.delete("/api/trash", requireRole("admin"), async (req, res) => {
+    try {
+      await storage.purgeTrash(new Date(), req.user);
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to empty trash" });
+    }
+  });
+}
@@ -0,0 +1,90 @@
+import type { Express, Request, Response } from "express";
+import { randomUUID } from "crypto";
+import { z } from "zod";
+import { storage, UndoConflictError } from "./storage";
+import { requireRole } from "./auth";
+import { publishChangeSet } from "./webhooks";
+import type { AuditActor } from "@shared/schema";
+
+declare module "express-session" {
+  interface SessionData {
+    undoStack: string[];
+    redoStack: string[];
+  }
+}
+
+// How many steps a session can go back
+const MAX_UNDO_STEPS = 50;
+
+// Responses to changes name their change set here, so a toast's Undo button can revert exactly that change
+const CHANGE_SET_HEADER = "X-Change-Set";
+
+// Body of POST /api/undo and /api/redo; without a change set the newest one is reverted
+const stepRequestSchema = z.object({
+  changeSet: z.string().optional(),
+});
+
+// The signed in user, with a fresh change set for everything this request changes
+export function changeActor(req: Request): AuditActor {
+  return { id: req.user!.id, username: req.user!.username, changeSet: randomUUID() };
+}
+
+// Makes the request's changes the next thing undo reverts, and tells webhooks about them
+export function rememberChange(req: Request, actor: AuditActor) {
+  if (!actor.changeSet) return;
+  publishChangeSet(actor.changeSet);
+  req.res?.setHeader(CHANGE_SET_HEADER, actor.changeSet);
+  req.session.undoStack = [...(req.session.undoStack || []), actor.changeSet].slice(-MAX_UNDO_STEPS);
+  req.session.redoStack = [];
+}
+
+// Reverts the newest change set on one stack, or the one the request names, and puts the
+// reverting change set on the other. When reverting the newest, change sets that turn out to be
+// empty (the request failed or changed nothing) are skipped. A named change set that is no longer
+// on the stack can't be reverted from here.
+async function step(req: Request, res: Response, from: "undoStack" | "redoStack") {
+  const to = from === "undoStack" ? "redoStack" : "undoStack";
+  const parsed = stepRequestSchema.safeParse(req.body ?? {});
+  if (!parsed.success) {
+    return res.status(400).json({ message: "Invalid data", errors: parsed.error.errors });
+  }
+  const { changeSet: requested } = parsed.data;
+  const stack = [...(req.session[from] || [])];
+  if (requested && !stack.includes(requested)) {
+    return res.status(409).json({ message: "That change is no longer in your history" });
+  }
+
+  try {
+    while (stack.length > 0) {
+      const changeSet = requested ?? stack[stack.length - 1];
+      stack.splice(stack.lastIndexOf(changeSet), 1);
+      const actor = changeActor(req);
+      const reverted = await storage.revertChangeSet(changeSet, actor);
+      req.session[from] = stack;
+      if (reverted > 0) {
+        publishChangeSet(actor.changeSet);
+        res.setHeader(CHANGE_SET_HEADER, actor.changeSet!);
+        req.session[to] = [...(req.session[to] || []), actor.changeSet!].slice(-MAX_UNDO_STEPS);
+        return res.json({
+          reverted,
+          canUndo: (req.session.undoStack || []).length > 0,
+          canRedo: (req.session.redoStack || []).length > 0,
+        });
+      }
+      if (requested) break;
+    }
+    res.status(400).json({ message: from === "undoStack" ? "Nothing to undo" : "Nothing to redo" });
+  } catch (error) {
+    if (error instanceof UndoConflictError) {
+      // The change can never be reverted now, so drop it rather than block the stack
+      req.session[from] = stack;
+      return res.status(409).json({ message: error.message });
+    }
+    res.status(500).json({ message: from === "undoStack" ? "Failed to undo" : "Failed to redo" });
+  }
+}
+
+export function setupUndo(app: Express) {
+  app.post("/api/undo", requireRole("editor"), (req, res) => step(req, res, "undoStack"));
+  app.post("/api/redo", requireRole("editor"), (req, res) => step(req, res, "redoStack"));
+}
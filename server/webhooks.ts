@@ -0,0 +1,306 @@
+import type { Express } from "express";
+import { createHmac, randomBytes } from "crypto";
+import { z } from "zod";
+import { storage } from "./storage";
+import { requireRole } from "./auth";
+import { log } from "./vite";
+import {
+  insertWebhookSchema,
+  type AuditEvent,
+  type Webhook,
+  type WebhookDelivery,
+  type WebhookEvent,
+} from "@shared/schema";
+
+const WEBHOOK_TIMEOUT = 10 * 1000;
+const DELIVERY_INTERVAL = 15 * 1000;
+// A failed delivery is tried again after 30 s, 2 min, 8 min, 32 min and about 2 h, then given up on
+const MAX_ATTEMPTS = 6;
+const RETRY_DELAY = 30 * 1000;
+// Finished deliveries stay in the log for this many days
+const LOG_RETENTION_DAYS = 30;
+const PRUNE_INTERVAL = 60 * 60 * 1000;
+const DELIVERY_LOG_LIMIT = 200;
+
+// Item fields that say where it is; quantity changes and any other field get events of their own
+const placementFields = ["containerId", "position", "rowSpan", "columnSpan"];
+
+type QueuedEvent = { event: WebhookEvent; data: Record<string, unknown> };
+
+function pick(values: Record<string, unknown> | null, fields: string[]) {
+  return Object.fromEntries(fields.map(field => [field, values?.[field] ?? null]));
+}
+
+// What an audited change means to subscribers; trash purges were already announced as deletes
+async function inventoryEvents(entry: AuditEvent): Promise<QueuedEvent[]> {
+  if (entry.action === "purge") return [];
+  const by = entry.username;
+
+  if (entry.entityType === "container") {
+    const container = entry.action === "delete"
+      ? entry.before
+      : (await storage.getStorageContainer(entry.entityId)) ?? entry.after;
+    const changes = entry.action === "update" ? { before: entry.before, after: entry.after } : undefined;
+    return [{ event: "container.changed", data: { action: entry.action, container, changes, by } }];
+  }
+  if (entry.entityType === "checkout") {
+    // Undoing a checkout drops it, which subscribers hear about as a return
+    const checkout = (await storage.getCheckout(entry.entityId)) ?? entry.before;
+    if (!checkout) return [];
+    const item = await storage.getItem(Number(checkout.itemId));
+    return checkout.returnedAt || entry.action === "delete"
+      ? [{ event: "item.returned", data: { item, checkouts: [checkout], by } }]
+      : [{ event: "item.checked_out", data: { item, checkout, by } }];
+  }
+  if (entry.entityType !== "item") return [];
+
+  if (entry.action === "delete") {
+    return [{ event: "item.deleted", data: { item: entry.before, by } }];
+  }
+  const item = (await storage.getItem(entry.entityId)) ?? entry.after;
+  if (entry.action === "create" || entry.action === "restore") {
+    return [{ event: "item.created", data: { item, by } }];
+  }
+
+  const changed = Object.keys(entry.after || {});
+  // Undoing a delete brings the item back, and redoing it trashes it again
+  if (changed.includes("deletedAt")) {
+    return [{ event: entry.after?.deletedAt ? "item.deleted" : "item.created", data: { item, by } }];
+  }
+  const moved = changed.filter(field => placementFields.includes(field));
+  const updated = changed.filter(field => field !== "quantity" && !placementFields.includes(field));
+  const events: QueuedEvent[] = [];
+  if (moved.length > 0) {
+    events.push({ event: "item.moved", data: { item, changes: { before: pick(entry.before, moved), after: pick(entry.after, moved) }, by } });
+  }
+  if (changed.includes("quantity")) {
+    events.push({ event: "item.quantity_changed", data: { item, before: entry.before?.quantity, after: entry.after?.quantity, by } });
+  }
+  if (updated.length > 0) {
+    events.push({ event: "item.updated", data: { item, changes: { before: pick(entry.before, updated), after: pick(entry.after, updated) }, by } });
+  }
+  return events;
+}
+
+async function queueEvents(events: QueuedEvent[]) {
+  if (events.length === 0) return;
+  const active = (await storage.getWebhooks()).filter(webhook => webhook.active);
+  const occurredAt = new Date().toISOString();
+  const deliveries = events.flatMap(({ event, data }) => {
+    const payload = JSON.stringify({ event, occurredAt, data });
+    return active
+      .filter(webhook => webhook.events.includes(event))
+      .map(webhook => ({ webhookId: webhook.id, event, payload }));
+  });
+  if (deliveries.length === 0) return;
+  await storage.createWebhookDeliveries(deliveries);
+  deliverDue();
+}
+
+// Announces everything a request changed, read back from the audit log once it is saved
+export async function publishChangeSet(changeSet: string | undefined) {
+  if (!changeSet) return;
+  try {
+    const entries = await storage.getAuditEvents({ changeSet, limit: 1000 });
+    const events: QueuedEvent[] = [];
+    // The audit log lists the newest first
+    for (const entry of entries.reverse()) {
+      events.push(...await inventoryEvents(entry));
+    }
+    await queueEvents(events);
+  } catch (error) {
+    console.error("Error queueing webhooks:", error);
+  }
+}
+
+// The receiver recomputes this HMAC of the raw body with the shared secret to check the sender
+function webhookSignature(secret: string, payload: string): string {
+  return "sha256=" + createHmac("sha256", secret).update(payload).digest("hex");
+}
+
+async function attemptDelivery(delivery: WebhookDelivery, webhook: Webhook | undefined) {
+  const attempts = delivery.attempts + 1;
+  if (!webhook?.active) {
+    await storage.updateWebhookDelivery(delivery.id, {
+      status: "failed",
+      error: "The webhook was disabled",
+      nextAttemptAt: null,
+    });
+    return;
+  }
+
+  let responseStatus: number | null = null;
+  let error: string | null = null;
+  try {
+    const response = await fetch(webhook.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "User-Agent": "StorageTracker-Webhooks",
+        "X-Webhook-Event": delivery.event,
+        "X-Webhook-Delivery": String(delivery.id),
+        "X-Webhook-Signature": webhookSignature(webhook.secret, delivery.payload),
+      },
+      body: delivery.payload,
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT),
+    });
+    responseStatus = response.status;
+    if (!response.ok) error = `Answered ${response.status} ${response.statusText}`.trim();
+  } catch (failure) {
+    error = failure instanceof Error ? failure.message : String(failure);
+  }
+
+  if (!error) {
+    await storage.updateWebhookDelivery(delivery.id, {
+      status: "succeeded",
+      attempts,
+      responseStatus,
+      error: null,
+      nextAttemptAt: null,
+      deliveredAt: new Date(),
+    });
+  } else {
+    const givingUp = attempts >= MAX_ATTEMPTS;
+    await storage.updateWebhookDelivery(delivery.id, {
+      status: givingUp ? "failed" : "pending",
+      attempts,
+      responseStatus,
+      error,
+      nextAttemptAt: givingUp ? null : new Date(Date.now() + RETRY_DELAY * 4 ** (attempts - 1)),
+    });
+  }
+}
+
+let delivering = false;
+let deliverAgain = false;
+
+// Sends the deliveries that are due one after another; a call while that runs makes it look again
+async function deliverDue() {
+  if (delivering) {
+    deliverAgain = true;
+    return;
+  }
+  delivering = true;
+  try {
+    do {
+      deliverAgain = false;
+      const due = await storage.getDueWebhookDeliveries(new Date());
+      if (due.length === 0) continue;
+      const webhooksById = new Map((await storage.getWebhooks()).map(webhook => [webhook.id, webhook]));
+      for (const delivery of due) {
+        await attemptDelivery(delivery, webhooksById.get(delivery.webhookId));
+      }
+    } while (deliverAgain);
+  } catch (error) {
+    console.error("Error delivering webhooks:", error);
+  } finally {
+    delivering = false;
+  }
+}
+
+async function pruneDeliveryLog() {
+  try {
+    const before = new Date(Date.now() - LOG_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+    const pruned = await storage.pruneWebhookDeliveries(before);
+    if (pruned > 0) {
+      log(`Pruned ${pruned} webhook deliveries from the log`, "webhooks");
+    }
+  } catch (error) {
+    console.error("Error pruning webhook deliveries:", error);
+  }
+}
+
+export function setupWebhooks(app: Express) {
+  deliverDue();
+  setInterval(deliverDue, DELIVERY_INTERVAL);
+  pruneDeliveryLog();
+  setInterval(pruneDeliveryLog, PRUNE_INTERVAL);
+
+  app.get("/api/webhooks", requireRole("admin"), async (req, res) => {
+    try {
+      const webhooks = await storage.getWebhooks();
+      res.json(webhooks);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch webhooks" });
+    }
+  });
+
+  app.post("/api/webhooks", requireRole("admin"), async (req, res) => {
+    try {
+      const validatedData = insertWebhookSchema.parse(req.body);
+      const webhook = await storage.createWebhook({
+        ...validatedData,
+        secret: validatedData.secret || randomBytes(32).toString("hex"),
+      });
+      res.status(201).json(webhook);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create webhook" });
+    }
+  });
+
+  app.patch("/api/webhooks/:id", requireRole("admin"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const validatedData = insertWebhookSchema.partial().parse(req.body);
+      // An empty secret keeps the current one
+      if (!validatedData.secret) delete validatedData.secret;
+      const webhook = await storage.updateWebhook(id, validatedData);
+      if (!webhook) {
+        return res.status(404).json({ message: "Webhook not found" });
+      }
+      res.json(webhook);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update webhook" });
+    }
+  });
+
+  app.delete("/api/webhooks/:id", requireRole("admin"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const success = await storage.deleteWebhook(id);
+      if (!success) {
+        return res.status(404).json({ message: "Webhook not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete webhook" });
+    }
+  });
+
+  // The delivery log, newest first; ?webhookId= narrows it to one webhook
+  app.get("/api/webhooks/deliveries", requireRole("admin"), async (req, res) => {
+    try {
+      const webhookId = req.query.webhookId ? parseInt(req.query.webhookId as string) : undefined;
+      const deliveries = await storage.getWebhookDeliveries(DELIVERY_LOG_LIMIT, webhookId);
+      res.json(deliveries);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch webhook deliveries" });
+    }
+  });
+
+  // Sends a delivery's payload again as a new delivery
+  app.post("/api/webhooks/deliveries/:id/redeliver", requireRole("admin"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const delivery = await storage.getWebhookDelivery(id);
+      if (!delivery) {
+        return res.status(404).json({ message: "Delivery not found" });
+      }
+      const [redelivery] = await storage.createWebhookDeliveries([{
+        webhookId: delivery.webhookId,
+        event: delivery.event,
+        payload: delivery.payload,
+      }]);
+      deliverDue();
+      res.status(201).json(redelivery);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to redeliver webhook" });
+    }
+  });
+}
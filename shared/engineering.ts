@@ -0,0 +1,169 @@
+import type { CategoryAttribute, ItemAttributeValue } from "./schema";
+
+// Engineering values found in item names and attributes, e.g. "4.7kΩ 1/4W" or "100nF 50V",
+// normalized to base units so they can be compared and searched by range.
+
+// The quantities we extract, by the letter used for them in search queries
+export const engineeringQuantities = {
+  R: { column: "resistance", unit: "Ω", label: "Resistance" },
+  C: { column: "capacitance", unit: "F", label: "Capacitance" },
+  L: { column: "inductance", unit: "H", label: "Inductance" },
+  V: { column: "voltage", unit: "V", label: "Voltage" },
+  I: { column: "current", unit: "A", label: "Current" },
+  P: { column: "power", unit: "W", label: "Power" },
+} as const;
+
+export type QuantitySymbol = keyof typeof engineeringQuantities;
+export type EngineeringColumn = typeof engineeringQuantities[QuantitySymbol]["column"];
+export type EngineeringValues = Record<EngineeringColumn, number | null>;
+
+const siPrefixes: Record<string, number> = {
+  p: 1e-12,
+  n: 1e-9,
+  u: 1e-6,
+  "µ": 1e-6,
+  "μ": 1e-6,
+  m: 1e-3,
+  k: 1e3,
+  K: 1e3,
+  M: 1e6,
+  G: 1e9,
+};
+
+const unitColumns: Record<string, EngineeringColumn> = {
+  "Ω": "resistance",
+  ohm: "resistance",
+  ohms: "resistance",
+  Ohm: "resistance",
+  Ohms: "resistance",
+  R: "resistance",
+  F: "capacitance",
+  H: "inductance",
+  V: "voltage",
+  A: "current",
+  W: "power",
+};
+
+// A number with an optional fraction ("1/4"), SI prefix and trailing digits for codes
+// like "4k7", followed by a unit. Lookarounds keep it out of part numbers like "LM317T".
+const valuePattern = /(?<![\w.])(\d+(?:\.\d+)?)(?:\/(\d+))?\s?([pnuµμmkKMG])?(\d+)?\s?(Ω|[Oo]hms?|R|F|H|V|A|W)(?![a-zA-Z0-9])/g;
+
+// Resistor codes written without a unit, e.g. "4k7", "2M2" or "4R7"
+const resistorCodePattern = /(?<![\w.])(\d+)([RkKM])(\d+)(?![\w.])/g;
+
+function toNumber(whole: string, denominator: string | undefined, prefix: string | undefined, decimals: string | undefined) {
+  let value = parseFloat(decimals ? `${whole}.${decimals}` : whole);
+  if (denominator) value /= parseInt(denominator);
+  return value * (prefix ? siPrefixes[prefix] : 1);
+}
+
+// Reads a number with an optional SI prefix and unit, e.g. "4.7k", "4k7", "4R7", "100nF" or "1/4W"
+export function parseEngineeringNumber(text: string): number | null {
+  const code = text.trim().match(/^(\d+)([pnuµμmkKMGR])(\d+)(Ω|[Oo]hms?|F|H|V|A|W)?$/);
+  if (code) {
+    const [, whole, letter, decimals] = code;
+    return toNumber(whole, undefined, letter === "R" ? undefined : letter, decimals);
+  }
+
+  const match = text.trim().match(/^(\d+(?:\.\d+)?|\.\d+)(?:\/(\d+))?\s?([pnuµμmkKMG])?\s?(Ω|[Oo]hms?|R|F|H|V|A|W)?$/);
+  if (!match) return null;
+  const [, whole, denominator, prefix] = match;
+  return toNumber(whole.startsWith(".") ? `0${whole}` : whole, denominator, prefix, undefined);
+}
+
+function findValues(text: string, found: Partial<EngineeringValues>) {
+  for (const match of Array.from(text.matchAll(valuePattern))) {
+    const [, whole, denominator, prefix, decimals, unit] = match;
+    const column = unitColumns[unit];
+    if (decimals !== undefined && !prefix) continue;
+    if (found[column] === undefined) {
+      found[column] = toNumber(whole, denominator, prefix, decimals);
+    }
+  }
+  if (found.resistance === undefined) {
+    const [code] = Array.from(text.matchAll(resistorCodePattern));
+    if (code) {
+      const [, whole, letter, decimals] = code;
+      found.resistance = toNumber(whole, undefined, letter === "R" ? undefined : letter, decimals);
+    }
+  }
+}
+
+// The values an item carries. Attributes win over the name, since they were entered as values;
+// number attributes are read with the unit their category gives them.
+export function extractEngineeringValues(
+  name: string,
+  attributes: Record<string, ItemAttributeValue> = {},
+  definitions: CategoryAttribute[] = [],
+): EngineeringValues {
+  const found: Partial<EngineeringValues> = {};
+  for (const definition of definitions) {
+    const value = attributes[definition.key];
+    if (typeof value === "number" && definition.unit) {
+      findValues(`${value}${definition.unit}`, found);
+    } else if (typeof value === "string") {
+      findValues(value, found);
+    }
+  }
+  findValues(name, found);
+
+  const values = {} as EngineeringValues;
+  for (const { column } of Object.values(engineeringQuantities)) {
+    values[column] = found[column] ?? null;
+  }
+  return values;
+}
+
+export interface EngineeringFilter {
+  column: EngineeringColumn;
+  min: number | null;
+  max: number | null;
+}
+
+// Splits a search into plain text and value filters: "R:1k..10k" (inclusive range,
+// either end may be left open), "C>=100n", "V<50" or "L=10u"
+export function parseEngineeringQuery(query: string): { text: string; filters: EngineeringFilter[] } {
+  const filters: EngineeringFilter[] = [];
+  const words: string[] = [];
+
+  for (const word of query.trim().split(/\s+/).filter(Boolean)) {
+    const match = word.match(/^([RCLVIP])(:|>=|<=|>|<|=)(.+)$/);
+    const quantity = match ? engineeringQuantities[match[1] as QuantitySymbol] : undefined;
+    if (!match || !quantity) {
+      words.push(word);
+      continue;
+    }
+
+    const [, , operator, operand] = match;
+    const [from, to] = operand.includes("..") ? operand.split("..") : [operand, operand];
+    const min = from ? parseEngineeringNumber(from) : null;
+    const max = to ? parseEngineeringNumber(to) : null;
+    if ((from && min === null) || (to && max === null)) {
+      words.push(word);
+      continue;
+    }
+
+    // Strict bounds nudge past the value; equality allows for floating point noise
+    const epsilon = (value: number) => Math.abs(value) * 1e-9;
+    if (operator === ":" || operator === "=") {
+      filters.push({
+        column: quantity.column,
+        min: min === null ? null : min - epsilon(min),
+        max: max === null ? null : max + epsilon(max),
+      });
+    } else if (operator === ">=" || operator === ">") {
+      filters.push({ column: quantity.column, min: operator === ">" ? min! + epsilon(min!) : min! - epsilon(min!), max: null });
+    } else {
+      filters.push({ column: quantity.column, min: null, max: operator === "<" ? max! - epsilon(max!) : max! + epsilon(max!) });
+    }
+  }
+
+  return { text: words.join(" "), filters };
+}
+
+// "4700" in ohms reads back as "4.7kΩ"
+export function formatEngineeringValue(value: number, unit: string): string {
+  const steps: Array<[number, string]> = [[1e9, "G"], [1e6, "M"], [1e3, "k"], [1, ""], [1e-3, "m"], [1e-6, "µ"], [1e-9, "n"], [1e-12, "p"]];
+  const [scale, prefix] = steps.find(([scale]) => Math.abs(value) >= scale) ?? steps[steps.length - 1];
+  return `${parseFloat((value / scale).toPrecision(4))}${prefix}${unit}`;
+}
@@ -1,8 +1,19 @@
-import { pgTable, text, serial, integer, real, json, timestamp } from "drizzle-orm/pg-core";
-import { relations } from "drizzle-orm";
+import { pgTable, text, serial, integer, real, doublePrecision, json, timestamp, boolean, primaryKey, unique, index, type AnyPgColumn } from "drizzle-orm/pg-core";
+import { relations, sql } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
+// Ordered from least to most privileged; each role can do everything the ones before it can
+export const userRoles = ["viewer", "borrower", "editor", "admin"] as const;
+
+// Users table
+export const users = pgTable("users", {
+  id: serial("id").primaryKey(),
+  username: text("username").notNull().unique(),
+  password: text("password").notNull(),
+  role: text("role", { enum: userRoles }).notNull().default("viewer"),
+});
+
 // Storage containers table
 export const storageContainers = pgTable("storage_containers", {
   id: serial("id").primaryKey(),
@@ -11,15 +22,45 @@ export const storageContainers = pgTable("storage_containers", {
   gridConfig: json("grid_config").$type<{
     rows: Array<{ columns: number; isDivider?: boolean }>;
   }>().notNull(),
+  // Set when this container sits inside a cell of another container
+  parentContainerId: integer("parent_container_id").references((): AnyPgColumn => storageContainers.id),
+  parentPosition: json("parent_position").$type<{
+    row: number;
+    column: number;
+  }>(),
+  // Set while the container is in the trash
+  deletedAt: timestamp("deleted_at"),
 });
 
-// Categories table
+// Typed attributes a category defines for its items, e.g. resistance and package for resistors
+export const attributeTypes = ["text", "number", "enum", "boolean"] as const;
+
+export interface CategoryAttribute {
+  key: string;
+  label: string;
+  type: typeof attributeTypes[number];
+  // Shown after number values, e.g. "Ω" or "V"
+  unit?: string;
+  // The choices of an enum attribute
+  options?: string[];
+  required?: boolean;
+}
+
+export type ItemAttributeValue = string | number | boolean;
+
+// Categories table. Categories nest under a parent; a subcategory without its own
+// color or icon uses its parent's.
 export const categories = pgTable("categories", {
   id: serial("id").primaryKey(),
-  name: text("name").notNull().unique(),
-  color: text("color").notNull(),
+  name: text("name").notNull(),
+  parentId: integer("parent_id").references((): AnyPgColumn => categories.id),
+  color: text("color"),
   icon: text("icon"),
-});
+  attributes: json("attributes").$type<CategoryAttribute[]>().notNull().default([]),
+}, (table) => [
+  // "SMD" can be under both Resistors and Capacitors
+  unique().on(table.parentId, table.name).nullsNotDistinct(),
+]);
 
 // Size options table
 export const sizeOptions = pgTable("size_options", {
@@ -29,13 +70,48 @@ export const sizeOptions = pgTable("size_options", {
   sortOrder: integer("sort_order").default(0),
 });
 
+// Units of measure for items not counted in pieces, e.g. wire by the metre.
+// Quantities in a unit are kept to its number of decimals.
+export const MAX_UNIT_PRECISION = 6;
+
+export const units = pgTable("units", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull().unique(),
+  symbol: text("symbol").notNull(),
+  precision: integer("precision").notNull().default(0),
+});
+
+// Suppliers table (where parts are bought)
+export const suppliers = pgTable("suppliers", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull().unique(),
+  website: text("website"),
+  notes: text("notes"),
+});
+
+// Parts table (one kind of stock, such as "M3x10 screw", kept in any number of
+// places; each place is an item, and the part adds up their quantities)
+export const parts = pgTable("parts", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull().unique(),
+  // Applies to the total across its items, in their unit
+  lowQuantityThreshold: doublePrecision("low_quantity_threshold"),
+  notes: text("notes"),
+}, (table) => [
+  // Misspelled searches for a part by name
+  index("parts_name_trgm_idx").using("gin", table.name.op("gin_trgm_ops")),
+]);
+
 // Items table
 export const items = pgTable("items", {
   id: serial("id").primaryKey(),
   name: text("name").notNull(),
   categoryId: integer("category_id").references(() => categories.id),
+  partId: integer("part_id").references(() => parts.id),
   size: text("size"),
-  quantity: integer("quantity").default(1),
+  // In the item's unit, or in pieces when it has none
+  quantity: doublePrecision("quantity").default(1),
+  unitId: integer("unit_id").references(() => units.id),
   information: text("information"),
   photo: text("photo"),
   containerId: integer("container_id").notNull().references(() => storageContainers.id),
@@ -43,56 +119,745 @@ export const items = pgTable("items", {
     row: number;
     column: number;
   }>().notNull(),
-  lowQuantityThreshold: integer("low_quantity_threshold"),
+  // Big parts cover several cells, extending down and right from position
+  rowSpan: integer("row_span").notNull().default(1),
+  columnSpan: integer("column_span").notNull().default(1),
+  lowQuantityThreshold: doublePrecision("low_quantity_threshold"),
   checkedOutTo: text("checked_out_to"),
   checkedOutAt: timestamp("checked_out_at"),
+  // Values for the attributes its category defines, keyed by attribute key
+  attributes: json("attributes").$type<Record<string, ItemAttributeValue>>().notNull().default({}),
+  manufacturerPartNumber: text("manufacturer_part_number"),
+  supplierId: integer("supplier_id").references(() => suppliers.id),
+  supplierSku: text("supplier_sku"),
+  // Price of one unit; the valuation report uses the default currency when none is set
+  unitPrice: doublePrecision("unit_price"),
+  currency: text("currency"),
+  purchaseUrl: text("purchase_url"),
+  // Read from the name and attributes in base units (Ω, F, H, V, A, W) for range search
+  resistance: doublePrecision("resistance"),
+  capacitance: doublePrecision("capacitance"),
+  inductance: doublePrecision("inductance"),
+  voltage: doublePrecision("voltage"),
+  current: doublePrecision("current"),
+  power: doublePrecision("power"),
+  // Set while the item is in the trash; items trashed along with their
+  // container share the container's timestamp
+  deletedAt: timestamp("deleted_at"),
+}, (table) => [
+  // Full-text search; searchItems has to use these exact expressions for the indexes to apply
+  index("items_name_search_idx").using("gin", sql`to_tsvector('english', ${table.name})`),
+  index("items_information_search_idx").using("gin", sql`to_tsvector('english', coalesce(${table.information}, ''))`),
+  index("items_part_number_search_idx").using("gin", sql`to_tsvector('simple', coalesce(${table.manufacturerPartNumber}, '') || ' ' || coalesce(${table.supplierSku}, ''))`),
+  index("items_checked_out_to_search_idx").using("gin", sql`to_tsvector('simple', coalesce(${table.checkedOutTo}, ''))`),
+  // Misspelled searches (pg_trgm, which has to be installed before the schema is pushed)
+  index("items_name_trgm_idx").using("gin", table.name.op("gin_trgm_ops")),
+  index("items_information_trgm_idx").using("gin", table.information.op("gin_trgm_ops")),
+  index("items_part_number_trgm_idx").using("gin", sql`(coalesce(${table.manufacturerPartNumber}, '') || ' ' || coalesce(${table.supplierSku}, '')) gin_trgm_ops`),
+  index("items_checked_out_to_trgm_idx").using("gin", table.checkedOutTo.op("gin_trgm_ops")),
+]);
+
+// Tags table (free-form labels such as "Project: weather station"; an item can have any number)
+export const tags = pgTable("tags", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull().unique(),
+});
+
+// Item tags table (which items carry which tags)
+export const itemTags = pgTable("item_tags", {
+  itemId: integer("item_id").notNull().references(() => items.id),
+  tagId: integer("tag_id").notNull().references(() => tags.id),
+}, (table) => [
+  primaryKey({ columns: [table.itemId, table.tagId] }),
+]);
+
+// Item transactions table (stock ledger; every quantity change is recorded here)
+export const itemTransactionReasons = ["initial", "consumed", "restocked", "correction", "edit"] as const;
+
+export const itemTransactions = pgTable("item_transactions", {
+  id: serial("id").primaryKey(),
+  itemId: integer("item_id").notNull().references(() => items.id),
+  delta: doublePrecision("delta").notNull(),
+  quantityAfter: doublePrecision("quantity_after").notNull(),
+  reason: text("reason", { enum: itemTransactionReasons }).notNull(),
+  actor: text("actor"),
+  note: text("note"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Checkouts table (loans of an item, possibly only part of its quantity)
+export const checkouts = pgTable("checkouts", {
+  id: serial("id").primaryKey(),
+  itemId: integer("item_id").notNull().references(() => items.id),
+  borrower: text("borrower").notNull(),
+  quantity: doublePrecision("quantity").notNull().default(1),
+  checkedOutAt: timestamp("checked_out_at").defaultNow().notNull(),
+  dueAt: timestamp("due_at"),
+  returnedAt: timestamp("returned_at"),
+  conditionNote: text("condition_note"),
+});
+
+// Item lots table (batches of an item received together, for consumables that expire).
+// Lots account for part of the item's quantity; stock not in any lot predates lot tracking
+// and counts as the oldest, so it is used up first.
+export const itemLots = pgTable("item_lots", {
+  id: serial("id").primaryKey(),
+  itemId: integer("item_id").notNull().references(() => items.id),
+  lotCode: text("lot_code"),
+  quantity: doublePrecision("quantity").notNull(),
+  receivedAt: timestamp("received_at").defaultNow().notNull(),
+  expiresAt: timestamp("expires_at"),
+});
+
+// Attachments table (datasheets, manuals and receipts kept with an item)
+export const attachments = pgTable("attachments", {
+  id: serial("id").primaryKey(),
+  itemId: integer("item_id").notNull().references(() => items.id),
+  // The name it was uploaded with, used for downloads and search
+  fileName: text("file_name").notNull(),
+  // The name on disk, under the uploads directory
+  storedName: text("stored_name").notNull().unique(),
+  mimeType: text("mime_type").notNull(),
+  size: integer("size").notNull(),
+  uploadedBy: text("uploaded_by"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// What can be attached, by MIME type with the file extensions that go with it
+export const attachmentFileTypes: Record<string, string[]> = {
+  "application/pdf": [".pdf"],
+  "image/png": [".png"],
+  "image/jpeg": [".jpg", ".jpeg"],
+  "image/gif": [".gif"],
+  "image/webp": [".webp"],
+  "text/plain": [".txt"],
+  "text/csv": [".csv"],
+  "text/markdown": [".md"],
+  "application/zip": [".zip"],
+  "application/x-zip-compressed": [".zip"],
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document": [".docx"],
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet": [".xlsx"],
+  "application/vnd.oasis.opendocument.text": [".odt"],
+  "application/vnd.oasis.opendocument.spreadsheet": [".ods"],
+};
+
+export const MAX_ATTACHMENT_BYTES = 25 * 1024 * 1024;
+
+// Locations table (rooms such as garage, lab or shed, each with its own floorplan)
+export const locations = pgTable("locations", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull().unique(),
+  description: text("description"),
+  sortOrder: integer("sort_order").default(0),
+});
+
+// Floorplan placements table (a container can be placed in at most one location)
+export const floorplanPlacements = pgTable("floorplan_placements", {
+  id: serial("id").primaryKey(),
+  locationId: integer("location_id").notNull().references(() => locations.id),
+  containerId: integer("container_id").notNull().unique().references(() => storageContainers.id),
+  x: real("x").notNull(),
+  y: real("y").notNull(),
+  width: real("width"),
+  height: real("height"),
+  rotation: real("rotation").default(0),
+});
+
+// Audit events table (who created, changed or deleted what, and when)
+export const auditEntityTypes = ["container", "category", "sizeOption", "item", "supplier", "unit", "part", "lot", "checkout"] as const;
+// Deleting moves items and containers to the trash; purging removes them for good
+export const auditActions = ["create", "update", "delete", "restore", "purge"] as const;
+
+export const auditEvents = pgTable("audit_events", {
+  id: serial("id").primaryKey(),
+  entityType: text("entity_type", { enum: auditEntityTypes }).notNull(),
+  entityId: integer("entity_id").notNull(),
+  action: text("action", { enum: auditActions }).notNull(),
+  // Updates keep only the fields that changed; creates and deletes keep the whole record
+  before: json("before").$type<Record<string, unknown>>(),
+  after: json("after").$type<Record<string, unknown>>(),
+  userId: integer("user_id").references(() => users.id),
+  username: text("username"),
+  // Groups the events of a single request so they can be undone together
+  changeSet: text("change_set"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Notification rules are checked on a schedule; each user picks the channels a rule reaches them on
+export const notificationRules = ["lowStock", "longLoan"] as const;
+export const notificationChannels = ["inApp", "email", "webhook"] as const;
+
+// Notification preferences table (one row per user, once they have saved any)
+export const notificationPreferences = pgTable("notification_preferences", {
+  userId: integer("user_id").primaryKey().references(() => users.id),
+  email: text("email"),
+  webhookUrl: text("webhook_url"),
+  lowStockChannels: json("low_stock_channels").$type<NotificationChannel[]>().notNull().default([]),
+  longLoanChannels: json("long_loan_channels").$type<NotificationChannel[]>().notNull().default([]),
+  // Loans out for longer than this are reported
+  longLoanDays: integer("long_loan_days").notNull().default(14),
+});
+
+// Notifications table (what the in-app bell shows)
+export const notifications = pgTable("notifications", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  rule: text("rule", { enum: notificationRules }).notNull(),
+  title: text("title").notNull(),
+  body: text("body").notNull(),
+  // Page the notification leads to, e.g. /reorder
+  link: text("link"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  readAt: timestamp("read_at"),
+});
+
+// Notification alerts table (conditions a user has been told about, such as "lowStock:item:12").
+// Rows go once the condition is over, so it notifies again the next time it happens.
+export const notificationAlerts = pgTable("notification_alerts", {
+  userId: integer("user_id").notNull().references(() => users.id),
+  key: text("key").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  primaryKey({ columns: [table.userId, table.key] }),
+]);
+
+// Inventory events a webhook can subscribe to
+export const webhookEvents = [
+  "item.created",
+  "item.updated",
+  "item.moved",
+  "item.deleted",
+  "item.quantity_changed",
+  "item.checked_out",
+  "item.returned",
+  "container.changed",
+] as const;
+export const webhookDeliveryStatuses = ["pending", "succeeded", "failed"] as const;
+
+// Webhooks table (outgoing subscriptions; each delivery is signed with the secret)
+export const webhooks = pgTable("webhooks", {
+  id: serial("id").primaryKey(),
+  url: text("url").notNull(),
+  secret: text("secret").notNull(),
+  events: json("events").$type<WebhookEvent[]>().notNull(),
+  active: boolean("active").default(true).notNull(),
+  description: text("description"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Webhook deliveries table (one row per event per webhook, kept as the delivery log)
+export const webhookDeliveries = pgTable("webhook_deliveries", {
+  id: serial("id").primaryKey(),
+  webhookId: integer("webhook_id").notNull().references(() => webhooks.id, { onDelete: "cascade" }),
+  event: text("event", { enum: webhookEvents }).notNull(),
+  // The exact body sent, so retries carry the same signature
+  payload: text("payload").notNull(),
+  status: text("status", { enum: webhookDeliveryStatuses }).default("pending").notNull(),
+  attempts: integer("attempts").default(0).notNull(),
+  responseStatus: integer("response_status"),
+  error: text("error"),
+  nextAttemptAt: timestamp("next_attempt_at").defaultNow(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  deliveredAt: timestamp("delivered_at"),
 });
 
 // Insert schemas
+export const insertUserSchema = createInsertSchema(users, {
+  username: (schema) => schema.trim().min(1, "Username is required"),
+  password: (schema) => schema.min(6, "Password must be at least 6 characters"),
+}).pick({
+  username: true,
+  password: true,
+  role: true,
+});
+
+// Body of PATCH /api/users/:id
+export const updateUserSchema = z.object({
+  role: z.enum(userRoles).optional(),
+  password: z.string().min(6, "Password must be at least 6 characters").optional(),
+});
+
 export const insertStorageContainerSchema = createInsertSchema(storageContainers).omit({
   id: true,
+  deletedAt: true,
 });
 
+export const categoryAttributeSchema = z.object({
+  key: z.string().regex(/^[a-z0-9_]+$/, "Keys use lowercase letters, digits and underscores"),
+  label: z.string().trim().min(1, "Label is required"),
+  type: z.enum(attributeTypes),
+  unit: z.string().trim().optional(),
+  options: z.array(z.string().trim().min(1)).optional(),
+  required: z.boolean().optional(),
+}).refine(
+  attribute => attribute.type !== "enum" || (attribute.options?.length ?? 0) > 0,
+  { message: "An enum needs at least one option", path: ["options"] },
+);
+
 export const insertCategorySchema = createInsertSchema(categories).omit({
   id: true,
+}).extend({
+  attributes: z.array(categoryAttributeSchema)
+    .refine(attributes => new Set(attributes.map(a => a.key)).size === attributes.length, "Attribute keys must be unique")
+    .optional(),
 });
 
+// Checks an item's attribute values against its category's definitions.
+// Values for attributes the category doesn't define are dropped.
+export function itemAttributesSchema(definitions: CategoryAttribute[]) {
+  const shape: Record<string, z.ZodTypeAny> = {};
+  for (const attribute of definitions) {
+    const value =
+      attribute.type === "number" ? z.number({ invalid_type_error: `${attribute.label} must be a number` })
+      : attribute.type === "boolean" ? z.boolean()
+      : attribute.type === "enum" ? z.enum(attribute.options as [string, ...string[]])
+      : z.string().trim().min(1, `${attribute.label} is required`);
+    shape[attribute.key] = attribute.required ? value : value.optional();
+  }
+  return z.object(shape);
+}
+
 export const insertSizeOptionSchema = createInsertSchema(sizeOptions).omit({
   id: true,
 });
 
+export const insertUnitSchema = createInsertSchema(units, {
+  name: (schema) => schema.trim().min(1, "Name is required"),
+  symbol: (schema) => schema.trim().min(1, "Symbol is required").max(10),
+  precision: (schema) => schema.int().min(0).max(MAX_UNIT_PRECISION, `At most ${MAX_UNIT_PRECISION} decimals`),
+}).omit({
+  id: true,
+});
+
+export const insertPartSchema = createInsertSchema(parts, {
+  name: (schema) => schema.trim().min(1, "Name is required"),
+  lowQuantityThreshold: (schema) => schema.min(0),
+}).omit({
+  id: true,
+});
+
+export const insertSupplierSchema = createInsertSchema(suppliers, {
+  name: (schema) => schema.trim().min(1, "Name is required"),
+  website: z.string().trim().url("Website must be a URL").nullable().optional(),
+}).omit({
+  id: true,
+});
+
 export const insertItemSchema = createInsertSchema(items).omit({
   id: true,
+  deletedAt: true,
+  // Only the item's checkouts set these
+  checkedOutTo: true,
+  checkedOutAt: true,
+  resistance: true,
+  capacitance: true,
+  inductance: true,
+  voltage: true,
+  current: true,
+  power: true,
+}).extend({
+  attributes: z.record(z.union([z.string(), z.number(), z.boolean()])).optional(),
+  rowSpan: z.number().int().min(1).optional(),
+  columnSpan: z.number().int().min(1).optional(),
+  unitPrice: z.number().min(0, "Price can't be negative").nullable().optional(),
+  // ISO 4217 codes such as EUR or USD
+  currency: z.string().trim().toUpperCase().regex(/^[A-Z]{3}$/, "Currency must be a three letter code").nullable().optional(),
+  purchaseUrl: z.string().trim().url("Purchase link must be a URL").nullable().optional(),
+  // Tag names; tags that don't exist yet are created
+  tags: z.array(z.string().trim().min(1).max(50)).optional(),
+});
+
+export const insertItemTransactionSchema = createInsertSchema(itemTransactions).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertItemLotSchema = createInsertSchema(itemLots, {
+  lotCode: (schema) => schema.trim(),
+  quantity: (schema) => schema.positive("Quantity must be more than 0"),
+  receivedAt: z.coerce.date().optional(),
+  expiresAt: z.coerce.date().nullable().optional(),
+}).omit({
+  id: true,
+  itemId: true,
+});
+
+// Body of POST /api/items/:id/adjust
+export const itemAdjustmentSchema = z.object({
+  delta: z.number().refine(delta => delta !== 0, "Adjustment can't be zero"),
+  reason: z.enum(itemTransactionReasons),
+  note: z.string().optional(),
+  // Restocking can record what came in as a lot
+  lot: insertItemLotSchema.omit({ quantity: true }).optional(),
+}).refine(adjustment => !adjustment.lot || adjustment.delta > 0, {
+  message: "Only added stock can start a lot",
+  path: ["lot"],
+});
+
+// Body of POST /api/items/move; every listed item ends up in the one cell
+export const moveItemsSchema = z.object({
+  itemIds: z.array(z.number().int()).min(1, "Pick at least one item"),
+  containerId: z.number().int(),
+  position: z.object({ row: z.number().int(), column: z.number().int() }),
+});
+
+export const insertCheckoutSchema = createInsertSchema(checkouts).omit({
+  id: true,
+  checkedOutAt: true,
+  returnedAt: true,
+});
+
+// Body of POST /api/items/:id/checkout
+export const checkoutRequestSchema = z.object({
+  borrower: z.string().trim().min(1, "Borrower is required"),
+  quantity: z.number().positive().default(1),
+  dueAt: z.coerce.date().nullable().optional(),
+});
+
+// Body of POST /api/items/:id/return; without a checkoutId every open loan is returned
+export const returnRequestSchema = z.object({
+  checkoutId: z.number().int().optional(),
+  conditionNote: z.string().optional(),
+});
+
+export const insertAttachmentSchema = createInsertSchema(attachments).omit({
+  id: true,
+  createdAt: true,
+});
+
+// Query string of GET /api/audit
+export const auditQuerySchema = z.object({
+  entityType: z.enum(auditEntityTypes).optional(),
+  entityId: z.coerce.number().int().optional(),
+  action: z.enum(auditActions).optional(),
+  username: z.string().optional(),
+  changeSet: z.string().optional(),
+  limit: z.coerce.number().int().positive().max(1000).default(200),
+});
+
+export const notificationPreferencesSchema = createInsertSchema(notificationPreferences, {
+  email: z.string().trim().email("Enter a valid email address").nullable().optional(),
+  webhookUrl: z.string().trim().url("Webhook must be a URL").nullable().optional(),
+  lowStockChannels: z.array(z.enum(notificationChannels)),
+  longLoanChannels: z.array(z.enum(notificationChannels)),
+  longLoanDays: (schema) => schema.int().min(1).max(365),
+}).omit({
+  userId: true,
+}).superRefine((preferences, ctx) => {
+  const channels = [...preferences.lowStockChannels, ...preferences.longLoanChannels];
+  if (channels.includes("email") && !preferences.email) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["email"], message: "Enter the address to email" });
+  }
+  if (channels.includes("webhook") && !preferences.webhookUrl) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["webhookUrl"], message: "Enter the webhook to call" });
+  }
+});
+
+export const insertWebhookSchema = createInsertSchema(webhooks, {
+  url: (schema) => schema.trim().url("Webhook must be a URL").refine(url => /^https?:\/\//.test(url), "Webhook must be an http or https URL"),
+  // Left empty, the server makes one up
+  secret: (schema) => schema.trim().min(16, "Use at least 16 characters").optional(),
+  events: z.array(z.enum(webhookEvents)).min(1, "Pick at least one event"),
+  description: (schema) => schema.trim(),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertLocationSchema = createInsertSchema(locations).omit({
+  id: true,
+});
+
+export const insertFloorplanPlacementSchema = createInsertSchema(floorplanPlacements).omit({
+  id: true,
 });
 
 // Types
+export type User = typeof users.$inferSelect;
+export type InsertUser = z.infer<typeof insertUserSchema>;
+export type UpdateUser = z.infer<typeof updateUserSchema>;
+export type UserRole = typeof userRoles[number];
+// Users as sent to the client, without the password hash
+export type PublicUser = Omit<User, "password">;
+
+export function hasRole(user: Pick<User, "role"> | null | undefined, role: UserRole): boolean {
+  if (!user) return false;
+  return userRoles.indexOf(user.role) >= userRoles.indexOf(role);
+}
+
 export type StorageContainer = typeof storageContainers.$inferSelect;
+export type GridConfig = StorageContainer["gridConfig"];
+export type GridPosition = { row: number; column: number };
+// The cells an item covers
+export type ItemFootprint = { position: GridPosition; rowSpan: number; columnSpan: number };
 export type InsertStorageContainer = z.infer<typeof insertStorageContainerSchema>;
 
 export type Category = typeof categories.$inferSelect;
+// A category as the API returns it: color and icon are the ones it inherits unless it
+// sets its own, and path is its full name, e.g. "Passives › Resistors › SMD"
+export type ResolvedCategory = Category & {
+  color: string;
+  inheritsColor: boolean;
+  inheritsIcon: boolean;
+  path: string;
+  depth: number;
+};
 export type InsertCategory = z.infer<typeof insertCategorySchema>;
 
 export type SizeOption = typeof sizeOptions.$inferSelect;
 export type InsertSizeOption = z.infer<typeof insertSizeOptionSchema>;
 
+export type Unit = typeof units.$inferSelect;
+export type InsertUnit = z.infer<typeof insertUnitSchema>;
+
+export type Part = typeof parts.$inferSelect;
+export type InsertPart = z.infer<typeof insertPartSchema>;
+
+// One of the items holding a part's stock
+export type PartLocation = {
+  itemId: number;
+  containerId: number;
+  position: { row: number; column: number };
+  locationPath: string;
+  quantity: number;
+};
+
+// A part's locations share a unit, taken from the first of them
+export type PartWithStock = Part & {
+  unitId: number | null;
+  totalQuantity: number;
+  locations: PartLocation[];
+};
+
+export type Supplier = typeof suppliers.$inferSelect;
+export type InsertSupplier = z.infer<typeof insertSupplierSchema>;
+
+export type Tag = typeof tags.$inferSelect;
+export type TagWithCount = Tag & { itemCount: number };
+
 export type Item = typeof items.$inferSelect;
 export type InsertItem = z.infer<typeof insertItemSchema>;
 
+export type ItemTransaction = typeof itemTransactions.$inferSelect;
+export type InsertItemTransaction = z.infer<typeof insertItemTransactionSchema>;
+export type ItemAdjustment = z.infer<typeof itemAdjustmentSchema>;
+export type MoveItems = z.infer<typeof moveItemsSchema>;
+
+export type ItemLot = typeof itemLots.$inferSelect;
+export type InsertItemLot = z.infer<typeof insertItemLotSchema>;
+
+export type Checkout = typeof checkouts.$inferSelect;
+export type InsertCheckout = z.infer<typeof insertCheckoutSchema>;
+export type CheckoutRequest = z.infer<typeof checkoutRequestSchema>;
+export type ReturnRequest = z.infer<typeof returnRequestSchema>;
+
+export type Attachment = typeof attachments.$inferSelect;
+export type InsertAttachment = z.infer<typeof insertAttachmentSchema>;
+
+export type AuditEvent = typeof auditEvents.$inferSelect;
+export type AuditEntityType = typeof auditEntityTypes[number];
+export type AuditAction = typeof auditActions[number];
+export type AuditQuery = z.infer<typeof auditQuerySchema>;
+// The user a change is attributed to, and the change set it belongs to
+export type AuditActor = Pick<User, "id" | "username"> & { changeSet?: string };
+
+export type NotificationRule = typeof notificationRules[number];
+export type NotificationChannel = typeof notificationChannels[number];
+export type NotificationPreferences = typeof notificationPreferences.$inferSelect;
+export type InsertNotificationPreferences = z.infer<typeof notificationPreferencesSchema>;
+// Not just Notification, which would shadow the browser's
+export type UserNotification = typeof notifications.$inferSelect;
+export type InsertUserNotification = typeof notifications.$inferInsert;
+
+export type WebhookEvent = typeof webhookEvents[number];
+export type Webhook = typeof webhooks.$inferSelect;
+export type InsertWebhook = z.infer<typeof insertWebhookSchema>;
+export type WebhookDelivery = typeof webhookDeliveries.$inferSelect;
+export type InsertWebhookDelivery = typeof webhookDeliveries.$inferInsert;
+// The delivery log shows where each delivery went
+export type WebhookDeliveryWithUrl = WebhookDelivery & { url: string };
+
+export type StorageLocation = typeof locations.$inferSelect;
+export type InsertStorageLocation = z.infer<typeof insertLocationSchema>;
+
+export type FloorplanPlacement = typeof floorplanPlacements.$inferSelect;
+export type InsertFloorplanPlacement = z.infer<typeof insertFloorplanPlacementSchema>;
+
 // Extended types for joins
 export type ItemWithCategory = Item & {
-  category?: Category;
+  category?: ResolvedCategory;
+  tags?: string[];
+  // When the first of its lots expires
+  nextExpiry?: Date | null;
 };
 
 export type ItemSearchResult = ItemWithCategory & {
   containerName: string;
+  // Full path from the outermost container down to the item's cell,
+  // e.g. "Lab rack › 2,3 › Resistor drawer › 1,4"
+  locationPath: string;
+  // Relevance to the search text, highest first; 0 when only filters were given
+  rank: number;
+};
+
+export type TrashedContainer = StorageContainer & {
+  itemCount: number;
+};
+
+export type TrashedItem = ItemWithCategory & {
+  containerName: string;
+};
+
+export type TrashContents = {
+  retentionDays: number;
+  containers: TrashedContainer[];
+  items: TrashedItem[];
+};
+
+export type CheckoutWithItem = Checkout & {
+  itemName: string;
+  unitId: number | null;
+  containerId: number;
+  containerName: string;
 };
 
+// A lot in the expiring soon report, with where its item is kept
+export type ExpiringLot = ItemLot & {
+  itemName: string;
+  unitId: number | null;
+  containerId: number;
+  locationPath: string;
+};
+
+// Stock value of a container or category; totals are per currency since prices aren't converted
+export type ValuationGroup = {
+  id: number | null;
+  name: string;
+  itemCount: number;
+  // Items without a unit price, which the totals leave out
+  unpricedCount: number;
+  totals: Record<string, number>;
+};
+
+export type ValuationReport = {
+  defaultCurrency: string;
+  totals: Record<string, number>;
+  containers: ValuationGroup[];
+  categories: ValuationGroup[];
+};
+
+// An item at or under its low quantity threshold, or a part whose total is, with how much to order
+export type LowStockEntry = {
+  // One of the two is set
+  itemId: number | null;
+  partId: number | null;
+  name: string;
+  categoryPath: string | null;
+  supplierId: number | null;
+  supplierName: string | null;
+  supplierSku: string | null;
+  manufacturerPartNumber: string | null;
+  purchaseUrl: string | null;
+  unitPrice: number | null;
+  // The default currency when the price was entered without one
+  currency: string | null;
+  unit: Unit | null;
+  quantity: number;
+  threshold: number;
+  suggestedQuantity: number;
+  locations: string[];
+};
+
+// Grid footprints
+export function coversCell(footprint: ItemFootprint, cell: GridPosition): boolean {
+  const { row, column } = footprint.position;
+  return cell.row >= row && cell.row < row + footprint.rowSpan &&
+    cell.column >= column && cell.column < column + footprint.columnSpan;
+}
+
+// Items can share a cell, but only when neither covers more than one
+export function footprintsConflict(a: ItemFootprint, b: ItemFootprint): boolean {
+  if (a.rowSpan * a.columnSpan === 1 && b.rowSpan * b.columnSpan === 1) return false;
+  return a.position.row < b.position.row + b.rowSpan && b.position.row < a.position.row + a.rowSpan &&
+    a.position.column < b.position.column + b.columnSpan && b.position.column < a.position.column + a.columnSpan;
+}
+
+// Why a footprint doesn't fit the grid, or null if it does. A row span
+// only crosses rows with the same number of columns, so the cells line up.
+export function footprintError(gridConfig: GridConfig, footprint: ItemFootprint): string | null {
+  const { row, column } = footprint.position;
+  const first = gridConfig.rows[row];
+  if (!first || first.isDivider || column < 0 || column >= first.columns) {
+    return "Position is outside the container's grid";
+  }
+  if (column + footprint.columnSpan > first.columns) {
+    return `The row only has ${first.columns} columns`;
+  }
+  for (let spanned = row + 1; spanned < row + footprint.rowSpan; spanned++) {
+    const next = gridConfig.rows[spanned];
+    if (!next || next.isDivider || next.columns !== first.columns) {
+      return "Rows it spans must be adjacent and have the same number of columns";
+    }
+  }
+  return null;
+}
+
+// Quantities
+// Rounds to the unit's decimals; items without a unit are counted in whole pieces.
+// Rounding both sides keeps 0.1 + 0.2 from missing 0.3 in comparisons.
+export function roundQuantity(value: number, unit?: Pick<Unit, "precision"> | null): number {
+  const factor = 10 ** (unit?.precision ?? 0);
+  return Math.round(value * factor) / factor;
+}
+
+// "2.5 m", or just "12" for pieces
+export function formatQuantity(value: number, unit?: Pick<Unit, "precision" | "symbol"> | null): string {
+  const rounded = roundQuantity(value, unit);
+  return unit ? `${rounded} ${unit.symbol}` : String(rounded);
+}
+
+// The step of quantity inputs, e.g. 0.01 for a unit with two decimals
+export function quantityStep(unit?: Pick<Unit, "precision"> | null): number {
+  return 1 / 10 ** (unit?.precision ?? 0);
+}
+
+export function isLowQuantity(
+  item: Pick<Item, "quantity" | "lowQuantityThreshold">,
+  unit?: Pick<Unit, "precision"> | null,
+): boolean {
+  if (!item.lowQuantityThreshold || item.quantity === null || item.quantity === undefined) return false;
+  return roundQuantity(item.quantity, unit) <= roundQuantity(item.lowQuantityThreshold, unit);
+}
+
+// Lot expiry: lots expiring within this many days are flagged
+export const EXPIRY_WARNING_DAYS = 30;
+
+export function expiryStatus(expiresAt: Date | string | null | undefined, now = new Date()): "expired" | "soon" | null {
+  if (!expiresAt) return null;
+  const expires = new Date(expiresAt).getTime();
+  if (expires <= now.getTime()) return "expired";
+  return expires <= now.getTime() + EXPIRY_WARNING_DAYS * 24 * 60 * 60 * 1000 ? "soon" : null;
+}
+
 // Relations
-export const storageContainersRelations = relations(storageContainers, ({ many }) => ({
+export const storageContainersRelations = relations(storageContainers, ({ one, many }) => ({
   items: many(items),
+  placement: one(floorplanPlacements),
+  parent: one(storageContainers, {
+    fields: [storageContainers.parentContainerId],
+    references: [storageContainers.id],
+    relationName: "nestedContainers",
+  }),
+  children: many(storageContainers, { relationName: "nestedContainers" }),
 }));
 
-export const categoriesRelations = relations(categories, ({ many }) => ({
+export const categoriesRelations = relations(categories, ({ one, many }) => ({
+  parent: one(categories, {
+    fields: [categories.parentId],
+    references: [categories.id],
+    relationName: "subcategories",
+  }),
+  children: many(categories, { relationName: "subcategories" }),
   items: many(items),
 }));
 
@@ -100,7 +865,19 @@ export const sizeOptionsRelations = relations(sizeOptions, ({ many }) => ({
   items: many(items),
 }));
 
-export const itemsRelations = relations(items, ({ one }) => ({
+export const unitsRelations = relations(units, ({ many }) => ({
+  items: many(items),
+}));
+
+export const partsRelations = relations(parts, ({ many }) => ({
+  items: many(items),
+}));
+
+export const suppliersRelations = relations(suppliers, ({ many }) => ({
+  items: many(items),
+}));
+
+export const itemsRelations = relations(items, ({ one, many }) => ({
   container: one(storageContainers, {
     fields: [items.containerId],
     references: [storageContainers.id],
@@ -113,4 +890,86 @@ export const itemsRelations = relations(items, ({ one }) => ({
     fields: [items.size],
     references: [sizeOptions.name],
   }),
+  supplier: one(suppliers, {
+    fields: [items.supplierId],
+    references: [suppliers.id],
+  }),
+  unit: one(units, {
+    fields: [items.unitId],
+    references: [units.id],
+  }),
+  part: one(parts, {
+    fields: [items.partId],
+    references: [parts.id],
+  }),
+  transactions: many(itemTransactions),
+  lots: many(itemLots),
+  checkouts: many(checkouts),
+  attachments: many(attachments),
+  itemTags: many(itemTags),
+}));
+
+export const tagsRelations = relations(tags, ({ many }) => ({
+  itemTags: many(itemTags),
+}));
+
+export const itemTagsRelations = relations(itemTags, ({ one }) => ({
+  item: one(items, {
+    fields: [itemTags.itemId],
+    references: [items.id],
+  }),
+  tag: one(tags, {
+    fields: [itemTags.tagId],
+    references: [tags.id],
+  }),
+}));
+
+export const attachmentsRelations = relations(attachments, ({ one }) => ({
+  item: one(items, {
+    fields: [attachments.itemId],
+    references: [items.id],
+  }),
+}));
+
+export const itemLotsRelations = relations(itemLots, ({ one }) => ({
+  item: one(items, {
+    fields: [itemLots.itemId],
+    references: [items.id],
+  }),
+}));
+
+export const itemTransactionsRelations = relations(itemTransactions, ({ one }) => ({
+  item: one(items, {
+    fields: [itemTransactions.itemId],
+    references: [items.id],
+  }),
+}));
+
+export const checkoutsRelations = relations(checkouts, ({ one }) => ({
+  item: one(items, {
+    fields: [checkouts.itemId],
+    references: [items.id],
+  }),
+}));
+
+export const locationsRelations = relations(locations, ({ many }) => ({
+  placements: many(floorplanPlacements),
+}));
+
+export const floorplanPlacementsRelations = relations(floorplanPlacements, ({ one }) => ({
+  location: one(locations, {
+    fields: [floorplanPlacements.locationId],
+    references: [locations.id],
+  }),
+  container: one(storageContainers, {
+    fields: [floorplanPlacements.containerId],
+    references: [storageContainers.id],
+  }),
+}));
+
+export const auditEventsRelations = relations(auditEvents, ({ one }) => ({
+  user: one(users, {
+    fields: [auditEvents.userId],
+    references: [users.id],
+  }),
 }));